@@ -5,6 +5,7 @@ import vercel from '@astrojs/vercel/serverless';
 
 export default defineConfig({
   output: 'server',
-  adapter: vercel(),
+  // Webhook requests that queue a song stay open until it is downloaded and uploaded
+  adapter: vercel({ maxDuration: 300 }),
   integrations: [react()]
 });
\ No newline at end of file
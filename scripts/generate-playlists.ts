@@ -6,8 +6,9 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { generatePlaylists } from '../src/utils/playlist-generator';
+import { generatePlaylists, type ScannedTrack } from '../src/utils/playlist-generator';
 import { LocalFileSystemStrategy } from '../src/utils/strategies/local-fs-strategy';
+import { buildTrackIndex, loadTrackIndex, saveTrackIndex } from '../src/bot/services/track-index';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -22,7 +23,10 @@ try {
   const strategy = new LocalFileSystemStrategy();
   
   // Generate playlists using unified generator
-  const playlistsData = await generatePlaylists(strategy, musicDir);
+  const scannedTracks: ScannedTrack[] = [];
+  const playlistsData = await generatePlaylists(strategy, musicDir, {
+    onTrackScanned: (track) => scannedTracks.push(track),
+  });
   
   const outputPath = path.join(rootDir, 'src', 'config', 'playlists.json');
   
@@ -31,6 +35,14 @@ try {
   playlistsData.playlists.forEach(playlist => {
     console.log(`  - ${playlist.name}: ${playlist.tracks.length} track(s)`);
   });
+
+  // Fingerprint every track so the bot can reject duplicate submissions
+  try {
+    saveTrackIndex(await buildTrackIndex(scannedTracks, loadTrackIndex()));
+    console.log(`✓ Indexed ${scannedTracks.length} track(s) for duplicate detection`);
+  } catch (error: any) {
+    console.warn('Failed to build track index:', error.message);
+  }
 } catch (error: any) {
   console.error('Error generating playlists:', error);
   process.exit(1);
@@ -8,17 +8,19 @@
 
 set -e
 
-if [ -z "$1" ]; then
-  echo "Usage: $0 <production-vercel-url> [webhook-secret]"
+if [ -z "$1" ] || [ -z "$2" ]; then
+  echo "Usage: $0 <production-vercel-url> <webhook-secret>"
   echo "Example: $0 https://your-app.vercel.app your-secret-token"
   echo ""
   echo "⚠️  WARNING: Only use this for PRODUCTION deployments!"
   echo "For dev branch, run the bot locally: npm run bot:local"
+  echo ""
+  echo "The secret is required: set the same value as TELEGRAM_WEBHOOK_SECRET in the deployment."
   exit 1
 fi
 
 VERCEL_URL="$1"
-WEBHOOK_SECRET="${2:-}"
+WEBHOOK_SECRET="$2"
 
 # Warn if URL looks like a preview/dev deployment
 if [[ "$VERCEL_URL" == *"git-dev"* ]] || [[ "$VERCEL_URL" == *"preview"* ]] || [[ "$VERCEL_URL" == *"-dev-"* ]]; then
@@ -50,20 +52,13 @@ WEBHOOK_URL="${VERCEL_URL}/api/telegram-webhook"
 echo "Setting webhook URL: $WEBHOOK_URL"
 echo "Bot Token: ${TELEGRAM_BOT_TOKEN:0:10}..."
 
-if [ -z "$WEBHOOK_SECRET" ]; then
-  echo "Setting webhook without secret token..."
-  curl -X POST "https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/setWebhook" \
-    -H "Content-Type: application/json" \
-    -d "{\"url\": \"${WEBHOOK_URL}\"}"
-else
-  echo "Setting webhook with secret token..."
-  curl -X POST "https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/setWebhook" \
-    -H "Content-Type: application/json" \
-    -d "{
-      \"url\": \"${WEBHOOK_URL}\",
-      \"secret_token\": \"${WEBHOOK_SECRET}\"
-    }"
-fi
+echo "Setting webhook with secret token..."
+curl -X POST "https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/setWebhook" \
+  -H "Content-Type: application/json" \
+  -d "{
+    \"url\": \"${WEBHOOK_URL}\",
+    \"secret_token\": \"${WEBHOOK_SECRET}\"
+  }"
 
 echo ""
 echo "✅ Webhook set successfully!"
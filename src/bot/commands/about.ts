@@ -4,6 +4,8 @@
 
 import { sendMessage, createInlineKeyboard } from '../../utils/telegram-bot';
 import { logBotActivity } from '../utils/logger';
+import { callbackButton } from '../utils/callback-data';
+import { getSupportedSourcesText } from '../../utils/source-providers';
 
 export interface AboutCommandConfig {
   botToken: string;
@@ -35,7 +37,7 @@ A community-driven music platform powered by Neuko.
 • 🌐 Web player at https://bloc.rocks
 
 **How It Works:**
-Share YouTube or Spotify links, and we'll add them to the community playlist. All songs are available to stream on the web player.
+Share ${getSupportedSourcesText()} links, and we'll add them to the community playlist. All songs are available to stream on the web player.
 
 **Community:**
 This is a community project - everyone can contribute songs! Just use \`/add\` to get started.
@@ -44,7 +46,7 @@ Made with ❤️ by the Neuko community`;
 
   const buttons = createInlineKeyboard([
     [{ text: '🌐 Visit bloc.rocks', url: 'https://bloc.rocks' }],
-    [{ text: '🏠 Main Menu', callback_data: 'back_to_main' }],
+    [callbackButton('🏠 Main Menu', 'back_to_main')],
   ]);
 
   await sendMessage(botToken, chatId, aboutText, buttons);
@@ -0,0 +1,223 @@
+/**
+ * Ban and mute commands (moderators)
+ * /ban <user ID> [reason], /mute <user ID> [duration] [reason], /unban <user ID> and /bans;
+ * /ban and /mute can also be sent as a reply to a submission's review message
+ */
+
+import { sendMessage, createInlineKeyboard, escapeMarkdown, type TelegramMessage } from '../../utils/telegram-bot';
+import { sessionManager } from '../session/session';
+import { hasPermission, hasAnyRole } from '../services/permissions';
+import { getSubmitterFromReview } from '../services/moderation';
+import { getRestrictionStore, parseDuration, type RestrictionType, type UserRestriction } from '../services/user-restrictions';
+import { callbackButton, type InlineButton } from '../utils/callback-data';
+import { showMenuMessage } from '../utils/paginated-keyboard';
+import { logBotActivity } from '../utils/logger';
+import { DEFAULT_MUTE_DURATION } from '../../constants';
+
+export interface BansCommandConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+export interface RestrictionTarget {
+  userId: number;
+  type: RestrictionType;
+  durationMs?: number; // Mutes only
+  reason?: string;
+}
+
+const MAX_REASON_LENGTH = 200;
+
+const USAGE = 'Usage:\n`/ban <user ID> [reason]`\n`/mute <user ID> [30m|2h|1d|1w] [reason]`\n`/unban <user ID>`\n\nOr reply to a submission with `/ban` or `/mute`.';
+
+function formatTimeLeft(until: number): string {
+  const minutes = Math.max(1, Math.ceil((until - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes}m left`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h left`;
+  return `${Math.floor(hours / 24)}d left`;
+}
+
+function describeRestriction(restriction: UserRestriction): string {
+  const state = restriction.until === undefined ? 'banned' : `muted, ${formatTimeLeft(restriction.until)}`;
+  return `${restriction.userId} · ${state}${restriction.reason ? ` - ${escapeMarkdown(restriction.reason)}` : ''}`;
+}
+
+/**
+ * Parse "[user ID] [duration] [reason]" (the ID is left out when replying to a review message)
+ * @returns the target, or an error message for the moderator
+ */
+export function parseRestrictionArgs(type: RestrictionType, args: string, repliedUserId?: number): RestrictionTarget | string {
+  const words = args.trim().split(/\s+/).filter(Boolean);
+
+  let userId = repliedUserId;
+  if (userId === undefined) {
+    const id = words.shift();
+    if (!id || !/^\d+$/.test(id)) return 'Please give the numeric Telegram user ID, or reply to a submission.';
+    userId = parseInt(id, 10);
+  }
+
+  let durationMs: number | undefined;
+  if (type === 'mute') {
+    const duration = words[0] ? parseDuration(words[0]) : null;
+    if (duration !== null) words.shift();
+    durationMs = duration ?? DEFAULT_MUTE_DURATION;
+  }
+
+  const reason = words.join(' ').slice(0, MAX_REASON_LENGTH) || undefined;
+  return { userId, type, ...(durationMs !== undefined && { durationMs }), ...(reason && { reason }) };
+}
+
+/**
+ * Handle /ban, /mute, /unban and /bans
+ */
+export async function handleBansCommand(config: BansCommandConfig, text: string, replyTo?: TelegramMessage): Promise<void> {
+  const { botToken, chatId, userId } = config;
+
+  if (!hasPermission(userId, 'ban_users')) {
+    await sendMessage(botToken, chatId, '⛔ This command is only available to moderators.');
+    return;
+  }
+
+  const [command, ...rest] = text.split(/\s+/);
+  const name = command.replace(/@\w+$/, '');
+  const repliedUserId = replyTo ? getSubmitterFromReview(chatId, replyTo) : undefined;
+
+  if (name === '/bans') {
+    await showBanList(config);
+    return;
+  }
+
+  if (name === '/unban') {
+    const id = repliedUserId ?? (/^\d+$/.test(rest[0] || '') ? parseInt(rest[0], 10) : undefined);
+    if (id === undefined) {
+      await sendMessage(botToken, chatId, `❌ Please give the numeric Telegram user ID.\n\n${USAGE}`);
+      return;
+    }
+    await liftRestriction(config, id);
+    return;
+  }
+
+  const parsed = parseRestrictionArgs(name === '/mute' ? 'mute' : 'ban', rest.join(' '), repliedUserId);
+  if (typeof parsed === 'string') {
+    await sendMessage(botToken, chatId, `❌ ${parsed}\n\n${USAGE}`);
+    return;
+  }
+  await restrictUser(config, parsed, replyTo ? 'reply' : 'command');
+}
+
+async function restrictUser(config: BansCommandConfig, target: RestrictionTarget, source: 'command' | 'reply' | 'menu'): Promise<boolean> {
+  const { botToken, chatId, userId, username } = config;
+
+  if (target.userId === userId) {
+    await sendMessage(botToken, chatId, '❌ You can\'t ban or mute yourself.');
+    return false;
+  }
+  if (hasAnyRole(target.userId)) {
+    await sendMessage(botToken, chatId, '❌ Staff can\'t be banned or muted. Revoke their roles first.');
+    return false;
+  }
+
+  const restriction = getRestrictionStore().set({
+    userId: target.userId,
+    type: target.type,
+    ...(target.durationMs !== undefined && { until: Date.now() + target.durationMs }),
+    ...(target.reason && { reason: target.reason }),
+    restrictedBy: userId,
+  });
+  // Private chats share the user's ID; drop anything they were in the middle of
+  sessionManager.delete(target.userId);
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: target.type === 'ban' ? 'USER_BANNED' : 'USER_MUTED',
+    details: { targetUserId: target.userId, until: restriction.until, reason: target.reason, source },
+    status: 'success',
+  });
+
+  await sendMessage(
+    botToken,
+    chatId,
+    target.type === 'ban'
+      ? `🚫 Banned ${target.userId}. Their messages and buttons are now ignored.`
+      : `🔇 Muted ${target.userId} (${formatTimeLeft(restriction.until!)}).`
+  );
+  return true;
+}
+
+async function liftRestriction(config: BansCommandConfig, targetUserId: number): Promise<boolean> {
+  const { botToken, chatId, userId, username } = config;
+
+  if (!getRestrictionStore().lift(targetUserId)) {
+    await sendMessage(botToken, chatId, `ℹ️ ${targetUserId} isn't banned or muted.`);
+    return false;
+  }
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: 'USER_UNBANNED',
+    details: { targetUserId },
+    status: 'success',
+  });
+  await sendMessage(botToken, chatId, `✅ ${targetUserId} can use the bot again.`);
+  return true;
+}
+
+/**
+ * Banned and muted users, with a lift button for each
+ */
+export async function showBanList(config: BansCommandConfig, messageId?: number): Promise<void> {
+  const restrictions = getRestrictionStore().list();
+  const lines = restrictions.map(restriction => `• ${describeRestriction(restriction)}`);
+
+  const buttons: InlineButton[][] = restrictions.map(restriction => [
+    callbackButton(`✅ Lift ${restriction.userId}`, 'restriction_lift', { userId: restriction.userId }),
+  ]);
+  buttons.push([
+    callbackButton('🚫 Ban User', 'restriction_prompt', { type: 'ban' }),
+    callbackButton('🔇 Mute User', 'restriction_prompt', { type: 'mute' }),
+  ]);
+  buttons.push([callbackButton('⬅️ Back', 'restricted_access')]);
+
+  const text = `🚫 **Banned Users**\n\n${lines.length > 0 ? lines.join('\n') : 'Nobody is banned or muted.'}\n\n${USAGE}`;
+  await showMenuMessage(config.botToken, config.chatId, text, createInlineKeyboard(buttons), messageId);
+}
+
+export async function liftRestrictionFromMenu(config: BansCommandConfig, targetUserId: number, messageId?: number): Promise<void> {
+  if (await liftRestriction(config, targetUserId)) {
+    await showBanList(config, messageId);
+  }
+}
+
+/**
+ * Ask for the user to ban or mute (answered through handleRestrictionTargetInput)
+ */
+export async function promptRestriction(config: BansCommandConfig, type: RestrictionType, messageId?: number): Promise<void> {
+  sessionManager.set(config.chatId, { type: 'waiting_for_restriction_target', restrictionType: type });
+  const text = type === 'ban'
+    ? '🚫 Send the user ID to ban, optionally followed by a reason.'
+    : '🔇 Send the user ID to mute, optionally followed by a duration (30m, 2h, 1d or 1w; 24h if left out) and a reason.';
+  const keyboard = createInlineKeyboard([[callbackButton('❌ Cancel', 'bans_list')]]);
+  await showMenuMessage(config.botToken, config.chatId, text, keyboard, messageId);
+}
+
+export async function handleRestrictionTargetInput(config: BansCommandConfig, text: string): Promise<void> {
+  const session = sessionManager.get(config.chatId);
+  sessionManager.delete(config.chatId);
+  if (!session?.restrictionType) return;
+
+  const parsed = parseRestrictionArgs(session.restrictionType, text);
+  if (typeof parsed === 'string') {
+    await sendMessage(config.botToken, config.chatId, `❌ ${parsed}`);
+    return;
+  }
+  await restrictUser(config, parsed, 'menu');
+}
@@ -4,6 +4,9 @@
 
 import { sendMessage, createInlineKeyboard } from '../../utils/telegram-bot';
 import { logBotActivity } from '../utils/logger';
+import { callbackButton } from '../utils/callback-data';
+import { getSourceProviders, getSupportedSourcesText } from '../../utils/source-providers';
+import { SUPPORTED_AUDIO_FORMATS } from '../../constants';
 
 export interface HelpCommandConfig {
   botToken: string;
@@ -24,25 +27,29 @@ export async function handleHelpCommand(config: HelpCommandConfig): Promise<void
     status: 'info',
   });
 
+  const supportedLinks = getSourceProviders()
+    .flatMap(provider => provider.examples.map(example => `• ${provider.name}: \`${example}\``))
+    .join('\n');
+
   const helpText = `📖 **How to Use Pirate Radio Bot**
 
 **Commands:**
 • \`/start\` - Show main menu
 • \`/playlists\` - View all playlists
+• \`/search <query>\` - Find a song by name
+• \`/random [playlist]\` - Listen to a random song
 • \`/add\` - Add a song to community playlist
+• \`/quota\` - See how many more songs you can add
 • \`/help\` - Show this help message
 • \`/about\` - Learn about Pirate Radio
 
 **Adding Songs:**
 1. Use \`/add\` or click "Add Song to Community"
-2. Share a YouTube or Spotify link
+2. Share a ${getSupportedSourcesText()} link, or send an audio file (${SUPPORTED_AUDIO_FORMATS.join(', ')})
 3. The bot will download and add it automatically
 
 **Supported Links:**
-• YouTube: \`https://www.youtube.com/watch?v=...\`
-• YouTube Short: \`https://youtu.be/...\`
-• Spotify Track: \`https://open.spotify.com/track/...\`
-• Spotify Album: \`https://open.spotify.com/album/...\`
+${supportedLinks}
 
 **Listening:**
 Visit https://bloc.rocks to listen to all the Neuko sounds!
@@ -51,7 +58,7 @@ Visit https://bloc.rocks to listen to all the Neuko sounds!
 If you encounter any issues, try using \`/start\` to return to the main menu.`;
 
   const buttons = createInlineKeyboard([
-    [{ text: '🏠 Main Menu', callback_data: 'back_to_main' }],
+    [callbackButton('🏠 Main Menu', 'back_to_main')],
   ]);
 
   await sendMessage(botToken, chatId, helpText, buttons);
@@ -0,0 +1,53 @@
+/**
+ * Max tracks command handler (owner only)
+ * /maxtracks shows the current cap, /maxtracks <n> changes it
+ */
+
+import { sendMessage } from '../../utils/telegram-bot';
+import { getBotSettings, updateBotSettings } from '../services/bot-settings';
+import { hasPermission } from '../services/permissions';
+import { logBotActivity } from '../utils/logger';
+
+export interface MaxTracksCommandConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+export async function handleMaxTracksCommand(config: MaxTracksCommandConfig, text: string): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
+
+  if (!hasPermission(userId, 'bot_settings')) {
+    await sendMessage(botToken, chatId, '⛔ This command is only available to owners.');
+    return;
+  }
+
+  const arg = text.split(/\s+/)[1];
+  if (!arg) {
+    const { maxTracksPerSubmission } = getBotSettings();
+    await sendMessage(botToken, chatId, `🎚 Album/playlist submissions can add up to ${maxTracksPerSubmission} track${maxTracksPerSubmission !== 1 ? 's' : ''}.\n\nUse \`/maxtracks <number>\` to change it.`);
+    return;
+  }
+
+  const maxTracks = parseInt(arg, 10);
+  if (!/^\d+$/.test(arg) || maxTracks < 1) {
+    await sendMessage(botToken, chatId, '❌ Please provide a whole number of at least 1, e.g. `/maxtracks 10`.');
+    return;
+  }
+
+  const previous = getBotSettings().maxTracksPerSubmission;
+  updateBotSettings({ maxTracksPerSubmission: maxTracks });
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: 'ADMIN_MAX_TRACKS_CHANGED',
+    details: { previous, maxTracks },
+    status: 'success',
+  });
+
+  await sendMessage(botToken, chatId, `✅ Album/playlist submissions can now add up to ${maxTracks} track${maxTracks !== 1 ? 's' : ''}.`);
+}
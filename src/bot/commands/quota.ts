@@ -0,0 +1,191 @@
+/**
+ * Quota commands
+ * /quota shows a user what's left of their submission quota; owners change the limits with
+ * /setquota <default|role|user ID> <daily|weekly|mb> <number|unlimited|default>
+ */
+
+import { sendMessage } from '../../utils/telegram-bot';
+import { getBotSettings, updateBotSettings } from '../services/bot-settings';
+import { hasPermission, isRole, ROLES, type Role } from '../services/permissions';
+import {
+  getQuotaStatus,
+  formatMegabytes,
+  formatWaitTime,
+  QUOTA_LIMITS,
+  type QuotaLimit,
+  type QuotaOverrides,
+  type QuotaSettings,
+} from '../services/quotas';
+import { logBotActivity } from '../utils/logger';
+import { COMMUNITY_PLAYLIST } from '../../constants';
+
+export interface QuotaCommandConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+export interface QuotaChange {
+  target: 'default' | Role | number; // Numbers are user IDs
+  limit: QuotaLimit;
+  value: number | null | undefined; // null = unlimited, undefined = back to the level below
+}
+
+const LIMIT_NAMES: Record<string, QuotaLimit> = {
+  daily: 'dailyTracks',
+  weekly: 'weeklyTracks',
+  mb: 'totalMb',
+};
+
+const LIMIT_LABELS: Record<QuotaLimit, string> = {
+  dailyTracks: '/day',
+  weeklyTracks: '/week',
+  totalMb: ' MB',
+};
+
+const USAGE = `Usage: \`/setquota <default|role|user ID> <daily|weekly|mb> <number|unlimited|default>\`\n\nRoles: ${ROLES.join(', ')}`;
+
+function formatCount(used: number, limit: number | null): string {
+  return limit === null ? `${used} song${used !== 1 ? 's' : ''} (no limit)` : `${used} of ${limit} songs`;
+}
+
+/**
+ * Handle /quota
+ */
+export async function handleQuotaCommand(config: QuotaCommandConfig): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
+  if (userId === undefined) return;
+
+  const { limits, usage, remainingTracks } = getQuotaStatus(userId, COMMUNITY_PLAYLIST);
+  const storage = limits.totalMb === null
+    ? `${formatMegabytes(usage.totalBytes)} MB (no limit)`
+    : `${formatMegabytes(usage.totalBytes)} of ${limits.totalMb} MB`;
+
+  const lines = [
+    '📊 **Your quota**',
+    '',
+    `Last 24 hours: ${formatCount(usage.daily, limits.dailyTracks)}`,
+    `Last 7 days: ${formatCount(usage.weekly, limits.weeklyTracks)}`,
+    `Storage: ${storage}`,
+  ];
+  if (usage.pendingTracks) {
+    lines.push(`Waiting for review: ${usage.pendingTracks} (counted above until approved or rejected)`);
+  }
+  if (usage.reservedTracks) {
+    lines.push(`Being added now: ${usage.reservedTracks} (counted above)`);
+  }
+  if (remainingTracks === 0 && usage.nextFreeAt) {
+    lines.push('', `⏳ You can add another song in ${formatWaitTime(usage.nextFreeAt)}.`);
+  }
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: 'COMMAND_QUOTA',
+    details: { usage },
+    status: 'info',
+  });
+
+  await sendMessage(botToken, chatId, lines.join('\n'));
+}
+
+/**
+ * Parse "<default|role|user ID> <daily|weekly|mb> <number|unlimited|default>"
+ * @returns the change, or an error message for the owner
+ */
+export function parseQuotaChange(args: string): QuotaChange | string {
+  const [targetArg, limitArg, valueArg] = args.trim().toLowerCase().split(/\s+/);
+
+  let target: QuotaChange['target'];
+  if (targetArg === 'default') target = 'default';
+  else if (targetArg && isRole(targetArg)) target = targetArg;
+  else if (targetArg && /^\d+$/.test(targetArg)) target = parseInt(targetArg, 10);
+  else return 'Say which limits to change: `default`, a role or a numeric user ID.';
+
+  const limit = LIMIT_NAMES[limitArg || ''];
+  if (!limit) return 'Pick `daily`, `weekly` or `mb`.';
+
+  if (valueArg === 'unlimited') return { target, limit, value: null };
+  if (valueArg === 'default') {
+    if (target === 'default') return 'The default limits can be a number or `unlimited`.';
+    return { target, limit, value: undefined };
+  }
+  if (!valueArg || !/^\d+$/.test(valueArg) || parseInt(valueArg, 10) < 1) {
+    return 'The limit must be a whole number of at least 1, `unlimited` or `default`.';
+  }
+  return { target, limit, value: parseInt(valueArg, 10) };
+}
+
+/**
+ * Settings with a quota change applied
+ */
+export function applyQuotaChange(settings: QuotaSettings, { target, limit, value }: QuotaChange): QuotaSettings {
+  if (target === 'default') {
+    return { ...settings, default: { ...settings.default, [limit]: value ?? null } };
+  }
+
+  const withValue = (overrides: QuotaOverrides = {}): QuotaOverrides => {
+    const { [limit]: _previous, ...rest } = overrides;
+    return value === undefined ? rest : { ...rest, [limit]: value };
+  };
+  if (typeof target === 'number') {
+    return { ...settings, users: { ...settings.users, [String(target)]: withValue(settings.users[String(target)]) } };
+  }
+  return { ...settings, roles: { ...settings.roles, [target]: withValue(settings.roles[target]) } };
+}
+
+function formatLimits(limits: QuotaOverrides): string {
+  const parts = QUOTA_LIMITS
+    .filter(limit => limits[limit] !== undefined)
+    .map(limit => limits[limit] === null ? `unlimited${LIMIT_LABELS[limit]}` : `${limits[limit]}${LIMIT_LABELS[limit]}`);
+  return parts.length > 0 ? parts.join(' · ') : 'no changes';
+}
+
+function formatQuotaSettings(settings: QuotaSettings): string {
+  const roles = ROLES
+    .filter(role => settings.roles[role])
+    .map(role => `${role}: ${formatLimits(settings.roles[role]!)}`);
+  const users = Object.entries(settings.users).map(([userId, limits]) => `User ${userId}: ${formatLimits(limits)}`);
+  return [`Default: ${formatLimits(settings.default)}`, ...roles, ...users].join('\n');
+}
+
+/**
+ * Handle /setquota (owner only)
+ */
+export async function handleSetQuotaCommand(config: QuotaCommandConfig, text: string): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
+
+  if (!hasPermission(userId, 'bot_settings')) {
+    await sendMessage(botToken, chatId, '⛔ This command is only available to owners.');
+    return;
+  }
+
+  const args = text.split(/\s+/).slice(1).join(' ');
+  if (!args) {
+    await sendMessage(botToken, chatId, `📊 **Submission quotas**\n\n${formatQuotaSettings(getBotSettings().quotas)}\n\n${USAGE}`);
+    return;
+  }
+
+  const change = parseQuotaChange(args);
+  if (typeof change === 'string') {
+    await sendMessage(botToken, chatId, `❌ ${change}\n\n${USAGE}`);
+    return;
+  }
+
+  const { quotas } = updateBotSettings({ quotas: applyQuotaChange(getBotSettings().quotas, change) });
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: 'ADMIN_QUOTA_CHANGED',
+    details: { ...change, value: change.value === undefined ? 'default' : change.value },
+    status: 'success',
+  });
+
+  await sendMessage(botToken, chatId, `✅ Quotas updated.\n\n${formatQuotaSettings(quotas)}`);
+}
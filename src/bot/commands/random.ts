@@ -0,0 +1,75 @@
+/**
+ * Random command handler
+ * /random [playlist] sends a random track as audio
+ */
+
+import { sendMessage, fetchPlaylists, createInlineKeyboard } from '../../utils/telegram-bot';
+import { getIdOfTrack } from '../services/playlist-service';
+import { sendTrackAudio, type AudioTrack } from '../services/track-audio';
+import { callbackButton } from '../utils/callback-data';
+import { logBotActivity } from '../utils/logger';
+import { DEFAULT_SITE_URL } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export interface RandomCommandConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+/**
+ * Pick a random track, optionally from one playlist (matched case-insensitively)
+ */
+export function pickRandomTrack(playlists: any[], playlistName?: string, random: () => number = Math.random): AudioTrack | null {
+  const candidates = playlists
+    .filter(playlist => !playlistName || playlist.name.toLowerCase() === playlistName.toLowerCase())
+    .flatMap(playlist => (playlist.tracks || [])
+      .filter((track: any) => track.fileName)
+      .map((track: any) => ({ trackId: getIdOfTrack(playlist.name, track), playlistName: playlist.name, track })));
+
+  return candidates.length > 0 ? candidates[Math.floor(random() * candidates.length)] : null;
+}
+
+/**
+ * Handle /random [playlist]
+ */
+export async function handleRandomCommand(config: RandomCommandConfig, text: string): Promise<void> {
+  const playlistName = text.replace(/^\/random(@\w+)?/, '').trim() || undefined;
+  await sendRandomTrack(config, playlistName);
+}
+
+export async function sendRandomTrack(config: RandomCommandConfig, playlistName?: string): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
+
+  try {
+    const playlists = await fetchPlaylists(process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL);
+    const pick = pickRandomTrack(playlists, playlistName);
+    if (!pick) {
+      await sendMessage(botToken, chatId, playlistName
+        ? `🎲 No songs found in a playlist called "${playlistName}".`
+        : '🎲 There are no songs to pick from yet.');
+      return;
+    }
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'RANDOM_TRACK',
+      details: { trackId: pick.trackId, playlist: pick.playlistName, requestedPlaylist: playlistName },
+      status: 'info',
+    });
+
+    const keyboard = createInlineKeyboard([
+      [callbackButton('🎲 Another one', 'random', { playlistName })],
+    ]);
+    await sendTrackAudio(config, pick, `🎲 Random pick from "${pick.playlistName}"`, keyboard);
+  } catch (error: any) {
+    log.error('Error sending random track', { error });
+    await sendMessage(botToken, chatId, '❌ Error picking a random song. Please try again later.');
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Role commands (owner only)
+ * /roles lists grants, /grant <user ID> <role> [playlist] and /revoke <user ID> <role> [playlist] change them
+ */
+
+import { sendMessage, createInlineKeyboard, validatePlaylistName } from '../../utils/telegram-bot';
+import {
+  ROLES,
+  isRole,
+  hasPermission,
+  getRoleStore,
+  getAllGrants,
+  isBootstrapOwner,
+  type Role,
+  type RoleGrant,
+} from '../services/permissions';
+import { callbackButton, type InlineButton } from '../utils/callback-data';
+import { showMenuMessage } from '../utils/paginated-keyboard';
+import { logBotActivity } from '../utils/logger';
+
+export interface RolesCommandConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+type GrantTarget = Pick<RoleGrant, 'userId' | 'role' | 'playlist'>;
+
+const USAGE = `Usage:\n\`/grant <user ID> <role> [playlist]\`\n\`/revoke <user ID> <role> [playlist]\`\n\nRoles: ${ROLES.join(', ')}`;
+
+function describeGrant({ userId, role, playlist }: GrantTarget): string {
+  return `${userId} · ${role}${playlist ? ` (${playlist})` : ''}`;
+}
+
+/**
+ * Parse "<user ID> <role> [playlist]"
+ * @returns the grant, or an error message for the owner
+ */
+export function parseGrantArgs(args: string): GrantTarget | string {
+  const [id, role, ...rest] = args.trim().split(/\s+/);
+  const playlist = rest.join(' ') || undefined;
+
+  if (!id || !/^\d+$/.test(id)) return 'Please give the numeric Telegram user ID.';
+  if (!role || !isRole(role)) return `Unknown role. Roles: ${ROLES.join(', ')}`;
+  if (playlist && !validatePlaylistName(playlist)) return 'Invalid playlist name.';
+  if (playlist && role === 'owner') return 'Owners can\'t be limited to one playlist.';
+  return { userId: parseInt(id, 10), role: role as Role, ...(playlist && { playlist }) };
+}
+
+function logRoleChange(config: RolesCommandConfig, action: 'ROLE_GRANTED' | 'ROLE_REVOKED', grant: GrantTarget): void {
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId: config.userId,
+    username: config.username,
+    chatId: config.chatId,
+    action,
+    details: { targetUserId: grant.userId, role: grant.role, playlist: grant.playlist },
+    status: 'success',
+  });
+}
+
+/**
+ * Handle /roles, /grant and /revoke
+ */
+export async function handleRolesCommand(config: RolesCommandConfig, text: string): Promise<void> {
+  const { botToken, chatId, userId } = config;
+
+  if (!hasPermission(userId, 'manage_roles')) {
+    await sendMessage(botToken, chatId, '⛔ This command is only available to owners.');
+    return;
+  }
+
+  const [command, ...rest] = text.split(/\s+/);
+  const name = command.replace(/@\w+$/, '');
+  if (name === '/roles') {
+    await showRoleList(config);
+    return;
+  }
+
+  const parsed = parseGrantArgs(rest.join(' '));
+  if (typeof parsed === 'string') {
+    await sendMessage(botToken, chatId, `❌ ${parsed}\n\n${USAGE}`);
+    return;
+  }
+
+  if (name === '/grant') {
+    if (!getRoleStore().grant({ ...parsed, grantedBy: userId })) {
+      await sendMessage(botToken, chatId, `ℹ️ ${describeGrant(parsed)} is already granted.`);
+      return;
+    }
+    logRoleChange(config, 'ROLE_GRANTED', parsed);
+    await sendMessage(botToken, chatId, `✅ Granted ${describeGrant(parsed)}.`);
+    return;
+  }
+
+  await revokeRole(config, parsed);
+}
+
+async function revokeRole(config: RolesCommandConfig, grant: GrantTarget): Promise<boolean> {
+  const { botToken, chatId } = config;
+
+  if (grant.role === 'owner' && !grant.playlist && isBootstrapOwner(grant.userId)) {
+    await sendMessage(botToken, chatId, '❌ Owners listed in TELEGRAM_ADMIN_IDS can only be removed there.');
+    return false;
+  }
+  if (!getRoleStore().revoke(grant)) {
+    await sendMessage(botToken, chatId, `ℹ️ ${describeGrant(grant)} isn't granted.`);
+    return false;
+  }
+
+  logRoleChange(config, 'ROLE_REVOKED', grant);
+  await sendMessage(botToken, chatId, `🗑️ Revoked ${describeGrant(grant)}.`);
+  return true;
+}
+
+/**
+ * Everyone's roles, with a revoke button per grant made from the bot
+ */
+export async function showRoleList(config: RolesCommandConfig, messageId?: number): Promise<void> {
+  const grants = getAllGrants();
+  const lines = grants.map(grant => `• ${describeGrant(grant)}${grant.grantedAt === 0 ? ' (TELEGRAM_ADMIN_IDS)' : ''}`);
+
+  const buttons: InlineButton[][] = getRoleStore().list().map(grant => [
+    callbackButton(`❌ ${describeGrant(grant)}`, 'role_revoke', {
+      userId: grant.userId,
+      role: grant.role,
+      ...(grant.playlist && { playlist: grant.playlist }),
+    }),
+  ]);
+  buttons.push([callbackButton('⬅️ Back', 'restricted_access')]);
+
+  const text = `👥 **Roles**\n\n${lines.length > 0 ? lines.join('\n') : 'No roles granted yet.'}\n\n${USAGE}`;
+  await showMenuMessage(config.botToken, config.chatId, text, createInlineKeyboard(buttons), messageId);
+}
+
+export async function revokeRoleFromMenu(config: RolesCommandConfig, grant: GrantTarget, messageId?: number): Promise<void> {
+  if (await revokeRole(config, grant)) {
+    await showRoleList(config, messageId);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Search command handler
+ * /search <query> lists matching tracks from every playlist as buttons
+ */
+
+import { sendMessage, fetchPlaylists } from '../../utils/telegram-bot';
+import { searchTracks } from '../services/track-search';
+import { buildPaginatedKeyboard, showMenuMessage } from '../utils/paginated-keyboard';
+import { callbackButton } from '../utils/callback-data';
+import { logBotActivity } from '../utils/logger';
+import { DEFAULT_SITE_URL, MAX_TRACK_NAME_LENGTH, SEARCH_MAX_RESULTS, TRACK_NAME_TRUNCATE_LENGTH } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export interface SearchCommandConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+/**
+ * Handle /search <query>
+ */
+export async function handleSearchCommand(config: SearchCommandConfig, text: string): Promise<void> {
+  const query = text.replace(/^\/search(@\w+)?/, '').trim();
+  if (!query) {
+    await sendMessage(config.botToken, config.chatId, '🔎 Usage: `/search <song name>`\n\nExample: `/search moonlight`');
+    return;
+  }
+
+  await showSearchResults(config, query);
+}
+
+/**
+ * One page of search results, edited in place when a message ID is given
+ */
+export async function showSearchResults(
+  config: SearchCommandConfig,
+  query: string,
+  messageId?: number,
+  page: number = 0
+): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
+
+  try {
+    const playlists = await fetchPlaylists(process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL);
+    const results = searchTracks(playlists, query, SEARCH_MAX_RESULTS);
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'SEARCH',
+      details: { query, resultCount: results.length, page },
+      status: 'info',
+    });
+
+    if (results.length === 0) {
+      await showMenuMessage(botToken, chatId, `🔎 No songs found for "${query}".`, undefined, messageId);
+      return;
+    }
+
+    const { keyboard } = buildPaginatedKeyboard({
+      items: results,
+      page,
+      renderItem: result => {
+        const name: string = result.track.trackName || 'Unknown';
+        const displayName = name.length > MAX_TRACK_NAME_LENGTH ? name.substring(0, TRACK_NAME_TRUNCATE_LENGTH) + '...' : name;
+        return [
+          callbackButton(`🎵 ${displayName} · ${result.playlistName}`, 'view_song', { trackId: result.trackId }),
+          callbackButton('▶️', 'listen', { trackId: result.trackId }),
+        ];
+      },
+      pageButton: (target, buttonText) => callbackButton(buttonText, 'search_page', { query, page: target }),
+      footer: [[callbackButton('🏠 Back to Main Menu', 'back_to_main')]],
+    });
+
+    const count = results.length === SEARCH_MAX_RESULTS ? `${SEARCH_MAX_RESULTS}+` : `${results.length}`;
+    await showMenuMessage(botToken, chatId, `🔎 ${count} result${results.length !== 1 ? 's' : ''} for "${query}":`, keyboard, messageId);
+  } catch (error: any) {
+    log.error('Error searching tracks', { error });
+    await sendMessage(botToken, chatId, '❌ Error searching songs. Please try again later.');
+  }
+}
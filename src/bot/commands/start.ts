@@ -2,10 +2,12 @@
  * Start command handler
  */
 
-import { sendMessage, sendPhoto, deleteMessage, createInlineKeyboard, isAdmin } from '../../utils/telegram-bot';
+import { sendMessage, sendPhoto, deleteMessage, createInlineKeyboard } from '../../utils/telegram-bot';
 import { readFile } from 'fs/promises';
 import { join } from 'path';
 import { logBotActivity } from '../utils/logger';
+import { callbackButton, type InlineButton } from '../utils/callback-data';
+import { hasPermissionAnywhere } from '../services/permissions';
 
 export interface StartCommandConfig {
   botToken: string;
@@ -17,7 +19,7 @@ export interface StartCommandConfig {
 
 export async function handleStartCommand(config: StartCommandConfig): Promise<void> {
   const { botToken, chatId, userId, username, messageId } = config;
-  const isAdminUser = userId ? isAdmin(userId) : false;
+  const hasRestrictedAccess = hasPermissionAnywhere(userId, 'restricted_menu');
 
   logBotActivity({
     timestamp: new Date().toISOString(),
@@ -25,18 +27,18 @@ export async function handleStartCommand(config: StartCommandConfig): Promise<vo
     username,
     chatId,
     action: 'COMMAND_START',
-    details: { isAdmin: isAdminUser },
+    details: { hasRestrictedAccess },
     status: 'info',
   });
 
-  const buttons: Array<Array<{ text: string; callback_data: string }>> = [
-    [{ text: '➕ Add Song to Community', callback_data: 'add_song' }],
-    [{ text: '📋 View Playlists', callback_data: 'view_playlists' }],
+  const buttons: InlineButton[][] = [
+    [callbackButton('➕ Add Song to Community', 'add_song')],
+    [callbackButton('📋 View Playlists', 'view_playlists')],
   ];
 
-  // Add restricted access option (admin only)
-  if (isAdminUser) {
-    buttons.push([{ text: '🔒 Restricted Access', callback_data: 'restricted_access' }]);
+  // Add restricted access option (staff only)
+  if (hasRestrictedAccess) {
+    buttons.push([callbackButton('🔒 Restricted Access', 'restricted_access')]);
   }
 
   const keyboard = createInlineKeyboard(buttons);
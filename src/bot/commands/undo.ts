@@ -0,0 +1,37 @@
+/**
+ * Undo command handler (users who can delete songs)
+ * /undo restores the song this user most recently moved to the trash
+ */
+
+import { sendMessage } from '../../utils/telegram-bot';
+import { listTrash } from '../services/trash';
+import { hasPermission, hasPermissionAnywhere } from '../services/permissions';
+import { restoreSong } from '../services/song-deletion';
+
+export interface UndoCommandConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+export async function handleUndoCommand(config: UndoCommandConfig): Promise<void> {
+  const { botToken, chatId, userId } = config;
+
+  if (!userId || !hasPermissionAnywhere(userId, 'delete_songs')) {
+    await sendMessage(botToken, chatId, '⛔ This command is only available to moderators.');
+    return;
+  }
+
+  const latest = listTrash().find(entry => entry.deletedBy?.userId === userId);
+  if (!latest) {
+    await sendMessage(botToken, chatId, '🤷 You have no deleted songs to restore.');
+    return;
+  }
+  if (!hasPermission(userId, 'delete_songs', latest.playlist)) {
+    await sendMessage(botToken, chatId, `⛔ You can no longer restore songs in "${latest.playlist}".`);
+    return;
+  }
+
+  await restoreSong(config, latest.id);
+}
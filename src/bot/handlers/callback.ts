@@ -1,20 +1,84 @@
 /**
  * Callback query handler
+ * Buttons are routed by action name (see utils/callback-data) to the handlers below
  */
 
-import { answerCallbackQuery, sendMessage, deleteMessage, isAdmin, fetchPlaylists, validatePlaylistName } from '../../utils/telegram-bot';
-import { DEFAULT_SITE_URL } from '../../constants';
+import { answerCallbackQuery, sendMessage, deleteMessage, createInlineKeyboard, clearPlaylistCache, escapeMarkdown } from '../../utils/telegram-bot';
 import { sessionManager } from '../session/session';
 import { handleStartCommand } from '../commands/start';
-import { showPlaylists, showPlaylistSongs } from '../services/playlist-service';
-import { processSongSubmission } from '../services/song-processor';
-import { deleteSong } from '../services/song-deletion';
+import { showSearchResults } from '../commands/search';
+import { sendRandomTrack } from '../commands/random';
+import { showPlaylists, showPlaylistSongs, showSongCard, findTrackById } from '../services/playlist-service';
+import { getSongQueue } from '../services/song-queue';
+import { deleteSong, restoreSong, purgeTrashedSong, showTrash } from '../services/song-deletion';
+import { sendTrackAudio } from '../services/track-audio';
+import { listTrash, getTrashEntry } from '../services/trash';
+import {
+  showPlaylistAdmin,
+  showPlaylistOptions,
+  promptNewPlaylist,
+  promptRenamePlaylist,
+  confirmDeletePlaylist,
+  deletePlaylistFolder,
+  movePlaylistFolder,
+} from '../services/playlist-admin';
+import { showTransferTargets, transferTrackTo, promptRenameTrack } from '../services/track-admin';
 import { logBotActivity } from '../utils/logger';
+import { showMenuMessage } from '../utils/paginated-keyboard';
+import { callbackButton, parseCallbackData, type CallbackAction, type CallbackPayloads, type InlineButton } from '../utils/callback-data';
+import { getSupportedSourcesText } from '../../utils/source-providers';
+import { getModerationStore, sendPendingList, approveSubmission, rejectSubmission } from '../services/moderation';
+import { getBotSettings, updateBotSettings } from '../services/bot-settings';
+import { hasPermission, hasPermissionAnywhere, type Permission } from '../services/permissions';
+import { showRoleList, revokeRoleFromMenu } from '../commands/roles';
+import { showBanList, liftRestrictionFromMenu, promptRestriction } from '../commands/bans';
+import { getRestrictionStore, isUserRestricted } from '../services/user-restrictions';
+import { COMMUNITY_PLAYLIST } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
 
 export interface CallbackHandlerConfig {
   botToken: string;
 }
 
+interface CallbackContext {
+  botToken: string;
+  chatId: number;
+  messageId?: number;
+  userId?: number;
+  username?: string;
+}
+
+/**
+ * Playlists an action touches, so roles granted for those playlists apply
+ * 'anywhere' accepts a role for any playlist (menus whose entries are checked again per playlist)
+ */
+type PermissionScope<P> =
+  | 'anywhere'
+  | ((payload: P, ctx: CallbackContext) => string | string[] | undefined | Promise<string | string[] | undefined>);
+
+interface CallbackActionDefinition<P> {
+  permission?: Permission;
+  scope?: PermissionScope<P>; // Without a scope only roles granted everywhere count
+  deniedMessage?: string; // Shown to users without the permission instead of the default
+  handle: (ctx: CallbackContext, payload: P) => Promise<void>;
+}
+
+type CallbackActionDefinitions = {
+  [A in CallbackAction]: CallbackActionDefinition<CallbackPayloads[A]>;
+};
+
+async function deleteCallbackMessage(ctx: CallbackContext): Promise<void> {
+  if (ctx.messageId) {
+    try {
+      await deleteMessage(ctx.botToken, ctx.chatId, ctx.messageId);
+    } catch (error) {
+      // Ignore errors - message might already be deleted
+    }
+  }
+}
+
 async function showRestrictedAccess(
   botToken: string,
   chatId: number,
@@ -22,14 +86,6 @@ async function showRestrictedAccess(
   userId?: number,
   username?: string
 ): Promise<void> {
-  if (messageId) {
-    try {
-      await deleteMessage(botToken, chatId, messageId);
-    } catch (error) {
-      // Ignore errors
-    }
-  }
-
   logBotActivity({
     timestamp: new Date().toISOString(),
     userId,
@@ -40,328 +96,596 @@ async function showRestrictedAccess(
     status: 'info',
   });
 
-  const { createInlineKeyboard } = await import('../../utils/telegram-bot');
-  const buttons: Array<Array<{ text: string; callback_data: string }>> = [
-    [{ text: '➕ Add Song to Any Playlist', callback_data: 'add_song_admin' }],
-    [{ text: '🗑️ Delete Song', callback_data: 'delete_song_menu' }],
-    [{ text: '⬅️ Back to Main Menu', callback_data: 'back_to_main' }],
-  ];
+  const can = (permission: Permission) => hasPermissionAnywhere(userId, permission);
+  const buttons: InlineButton[][] = [];
+  if (can('add_to_any_playlist')) {
+    buttons.push([callbackButton('➕ Add Song to Any Playlist', 'add_song_admin')]);
+  }
+  if (can('delete_songs')) {
+    const trash = listTrash().filter(entry => hasPermission(userId, 'delete_songs', entry.playlist));
+    buttons.push([callbackButton('🗑️ Delete Song', 'delete_song_menu')]);
+    buttons.push([callbackButton(`🗑️ Trash (${trash.length})`, 'trash_list')]);
+  }
+  if (hasPermission(userId, 'manage_playlists')) {
+    buttons.push([callbackButton('📁 Manage Playlists', 'playlist_admin', { page: 0 })]);
+  }
+  if (can('moderate')) {
+    const pending = getModerationStore().list().filter(submission => hasPermission(userId, 'moderate', submission.playlist));
+    buttons.push([callbackButton(`🛂 Pending Submissions (${pending.length})`, 'mod_list')]);
+  }
+  if (hasPermission(userId, 'bot_settings')) {
+    buttons.push([callbackButton(`🛂 Moderation: ${getBotSettings().moderationEnabled ? 'On' : 'Off'}`, 'mod_toggle')]);
+  }
+  if (hasPermission(userId, 'ban_users')) {
+    buttons.push([callbackButton(`🚫 Banned Users (${getRestrictionStore().list().length})`, 'bans_list')]);
+  }
+  if (hasPermission(userId, 'manage_roles')) {
+    buttons.push([callbackButton('👥 Roles', 'roles_list')]);
+  }
+  buttons.push([callbackButton('⬅️ Back to Main Menu', 'back_to_main')]);
 
   const keyboard = createInlineKeyboard(buttons);
-  const text = '🔒 **Restricted Access**\n\nAdmin-only features:';
+  const text = '🔒 **Restricted Access**\n\nStaff features:';
 
-  await sendMessage(botToken, chatId, text, keyboard);
+  await showMenuMessage(botToken, chatId, text, keyboard, messageId);
 }
 
-export async function handleCallbackQuery(
-  config: CallbackHandlerConfig,
-  callbackQuery: any
-): Promise<void> {
-  const { botToken } = config;
-  const chatId = callbackQuery.message?.chat?.id;
-  const messageId = callbackQuery.message?.message_id;
-  const data = callbackQuery.data;
-  const userId = callbackQuery.from?.id;
-  const username = callbackQuery.from?.username;
-
-  if (!chatId) return;
-
-  await answerCallbackQuery(botToken, callbackQuery.id);
-  const isAdminUser = userId ? isAdmin(userId) : false;
-
-  logBotActivity({
-    timestamp: new Date().toISOString(),
-    userId,
-    username,
-    chatId,
-    action: 'BUTTON_CLICK',
-    details: { button: data, isAdmin: isAdminUser },
-    status: 'info',
-  });
+/**
+ * Delete flow: the first tap turns the song list into a confirm dialog, the confirm re-reads
+ * the playlists so a stale list can't delete the wrong song, then the list page is shown again
+ */
+async function handleDeleteSong(ctx: CallbackContext, trackId: string, page: number, confirming: boolean): Promise<void> {
+  const { botToken, chatId, messageId, userId, username } = ctx;
 
-  if (data === 'add_song') {
-    if (messageId) {
-      try {
-        await deleteMessage(botToken, chatId, messageId);
-      } catch (error) {
-        // Ignore errors
-      }
-    }
-    sessionManager.set(chatId, { type: 'waiting_for_url' });
-    
-    // Add cancel button
-    const { createInlineKeyboard } = await import('../../utils/telegram-bot');
-    const cancelButtons = createInlineKeyboard([
-      [{ text: '❌ Cancel', callback_data: 'cancel_add_song' }]
-    ]);
-    
-    await sendMessage(botToken, chatId, '📎 Please share a YouTube or Spotify link to the song you want to add to the community playlist.', cancelButtons);
-    return;
-  }
+  try {
+    const found = await findTrackById(trackId, confirming);
 
-  if (data === 'cancel_add_song') {
-    // Delete the "waiting for URL" message if it exists
-    if (messageId) {
-      try {
-        await deleteMessage(botToken, chatId, messageId);
-      } catch (error) {
-        // Ignore errors - message might already be deleted
+    if (!confirming) {
+      if (!found) {
+        await sendMessage(botToken, chatId, '❌ Song not found. The playlist may have changed - please open it again.');
+        return;
       }
-    }
-    
-    sessionManager.delete(chatId);
-    await handleStartCommand({
-      botToken,
-      chatId,
-      username,
-      userId,
-    });
-    return;
-  }
 
-  if (data === 'view_playlists') {
-    await showPlaylists({
-      botToken,
-      chatId,
-      userId,
-      username,
-      isAdminUser,
-    }, messageId, true);
-    return;
-  }
-
-  if (data === 'back_to_main') {
-    await handleStartCommand({
-      botToken,
-      chatId,
-      username,
-      userId,
-      messageId,
-    });
-    return;
-  }
-
-  if (data === 'back_to_playlists') {
-    await showPlaylists({
-      botToken,
-      chatId,
-      userId,
-      username,
-      isAdminUser,
-    }, messageId, true);
-    return;
-  }
-
-  if (data === 'restricted_access') {
-    if (!isAdminUser) {
-      logBotActivity({
-        timestamp: new Date().toISOString(),
-        userId,
-        username,
+      const confirmButtons = createInlineKeyboard([
+        [callbackButton('✅ Yes, delete', 'delete_confirm', { trackId, page })],
+        [callbackButton('❌ Cancel', 'delete_cancel', { playlistName: found.playlistName, page })],
+      ]);
+      await showMenuMessage(
+        botToken,
         chatId,
-        action: 'UNAUTHORIZED_ACCESS_ATTEMPT',
-        details: { attemptedAction: 'restricted_access' },
-        status: 'error',
-      });
-      await sendMessage(botToken, chatId, '❌ You do not have permission to access this area.');
+        `⚠️ **Delete this song?**\n\n🎵 ${escapeMarkdown(found.track.trackName)}\n📁 Playlist: ${escapeMarkdown(found.playlistName)}\n📄 File: ${escapeMarkdown(found.fileName)}\n\nIt will be moved to the trash.`,
+        confirmButtons,
+        messageId
+      );
       return;
     }
-    await showRestrictedAccess(botToken, chatId, messageId, userId, username);
-    return;
-  }
 
-  if (data === 'add_song_admin') {
-    if (!isAdminUser) {
+    if (!found) {
       logBotActivity({
         timestamp: new Date().toISOString(),
         userId,
         username,
         chatId,
-        action: 'UNAUTHORIZED_ACCESS_ATTEMPT',
-        details: { attemptedAction: 'add_song_admin' },
-        status: 'error',
+        action: 'SONG_DELETION_REJECTED',
+        details: { trackId, reason: 'Track no longer matches' },
+        status: 'info',
       });
-      await sendMessage(botToken, chatId, '❌ You do not have permission to perform this action.');
+      await showMenuMessage(
+        botToken,
+        chatId,
+        '⚠️ This song is no longer in the playlist (it may have been moved or deleted already). Nothing was deleted.',
+        createInlineKeyboard([[callbackButton('⬅️ Back to Playlists', 'back_to_playlists')]]),
+        messageId
+      );
       return;
     }
-    await showPlaylists({
+
+    await deleteSong({
       botToken,
       chatId,
       userId,
       username,
-      isAdminUser,
-    }, messageId, true);
-    sessionManager.set(chatId, { type: 'selecting_playlist_for_add', messageId });
-    return;
+    }, found.playlistName, found.fileName);
+    sessionManager.delete(chatId);
+
+    clearPlaylistCache();
+    await showPlaylistSongs(ctx, found.playlistName, messageId, page);
+  } catch (error) {
+    log.error('Error getting track info', { error });
+    await sendMessage(botToken, chatId, '❌ Error deleting song.');
   }
+}
 
-  if (data === 'delete_song_menu') {
-    if (!isAdminUser) {
-      logBotActivity({
-        timestamp: new Date().toISOString(),
-        userId,
-        username,
-        chatId,
-        action: 'UNAUTHORIZED_ACCESS_ATTEMPT',
-        details: { attemptedAction: 'delete_song_menu' },
-        status: 'error',
-      });
-      await sendMessage(botToken, chatId, '❌ You do not have permission to perform this action.');
-      return;
-    }
-    await showPlaylists({
-      botToken,
-      chatId,
-      userId,
-      username,
-      isAdminUser,
-    }, messageId, true);
-    sessionManager.set(chatId, { type: 'selecting_playlist_for_delete', messageId });
-    return;
+async function handleModerationDecision(ctx: CallbackContext, submissionId: string, approve: boolean): Promise<void> {
+  const { botToken, chatId, userId, username } = ctx;
+  const result = approve
+    ? await approveSubmission(botToken, submissionId, { userId, username })
+    : await rejectSubmission(botToken, submissionId, { userId, username });
+
+  if (result.status === 'not_found') {
+    await sendMessage(botToken, chatId, '⌛ This submission has already been reviewed.');
+  } else if (result.status === 'in_progress') {
+    await sendMessage(botToken, chatId, '⏳ This submission is already being approved.');
+  } else if (result.status === 'failed') {
+    await sendMessage(botToken, chatId, `❌ Failed to publish the submission: ${result.error}\n\nYou can try approving it again.`);
   }
+}
 
-  if (data.startsWith('playlist_')) {
-    const encodedName = data.replace('playlist_', '');
-    const playlistName = decodeURIComponent(encodedName);
-    if (!validatePlaylistName(playlistName)) {
-      await sendMessage(botToken, chatId, '❌ Invalid playlist name.');
-      return;
-    }
+async function trackPlaylist({ trackId }: { trackId: string }): Promise<string | undefined> {
+  return (await findTrackById(trackId))?.playlistName;
+}
+
+const callbackActions: CallbackActionDefinitions = {
+  add_song: {
+    handle: async (ctx) => {
+      await deleteCallbackMessage(ctx);
+      sessionManager.set(ctx.chatId, { type: 'waiting_for_url' });
 
-    const session = sessionManager.get(chatId);
-    if (session?.type === 'selecting_playlist_for_add') {
-      if (messageId) {
-        try {
-          await deleteMessage(botToken, chatId, messageId);
-        } catch (error) {
-          // Ignore errors
-        }
-      }
-      sessionManager.set(chatId, { type: 'waiting_for_url', playlistName });
-      
       // Add cancel button
-      const { createInlineKeyboard } = await import('../../utils/telegram-bot');
       const cancelButtons = createInlineKeyboard([
-        [{ text: '❌ Cancel', callback_data: 'cancel_add_song' }]
+        [callbackButton('❌ Cancel', 'cancel_add_song')]
       ]);
-      
-      await sendMessage(botToken, chatId, `📎 Please share a YouTube or Spotify link to add to the "${playlistName}" playlist.`, cancelButtons);
-      return;
-    }
 
-    if (session?.type === 'selecting_playlist_for_delete') {
-      await showPlaylistSongs({
-        botToken,
-        chatId,
-        userId,
-        username,
-        isAdminUser,
-      }, playlistName, messageId, true);
-      sessionManager.set(chatId, { type: 'selecting_song_to_delete', playlistName, messageId });
-      return;
-    }
+      await sendMessage(ctx.botToken, ctx.chatId, `📎 Please share a ${getSupportedSourcesText()} link to the song you want to add to the community playlist, or send the audio file.`, cancelButtons);
+    },
+  },
+
+  cancel_add_song: {
+    handle: async (ctx) => {
+      // Delete the "waiting for URL" message if it exists
+      await deleteCallbackMessage(ctx);
+
+      sessionManager.delete(ctx.chatId);
+      await handleStartCommand({
+        botToken: ctx.botToken,
+        chatId: ctx.chatId,
+        username: ctx.username,
+        userId: ctx.userId,
+      });
+    },
+  },
+
+  view_playlists: {
+    handle: async (ctx) => {
+      await showPlaylists(ctx, ctx.messageId);
+    },
+  },
+
+  back_to_main: {
+    handle: async (ctx) => {
+      await handleStartCommand({
+        botToken: ctx.botToken,
+        chatId: ctx.chatId,
+        username: ctx.username,
+        userId: ctx.userId,
+        messageId: ctx.messageId,
+      });
+    },
+  },
+
+  back_to_playlists: {
+    handle: async (ctx) => {
+      await showPlaylists(ctx, ctx.messageId);
+    },
+  },
+
+  restricted_access: {
+    permission: 'restricted_menu',
+    scope: 'anywhere',
+    deniedMessage: '❌ You do not have permission to access this area.',
+    handle: async (ctx) => {
+      await showRestrictedAccess(ctx.botToken, ctx.chatId, ctx.messageId, ctx.userId, ctx.username);
+    },
+  },
+
+  add_song_admin: {
+    permission: 'add_to_any_playlist',
+    scope: 'anywhere',
+    handle: async (ctx) => {
+      await showPlaylists(ctx, ctx.messageId, 0, true);
+      sessionManager.set(ctx.chatId, { type: 'selecting_playlist_for_add', messageId: ctx.messageId });
+    },
+  },
+
+  add_to_playlist: {
+    permission: 'add_to_any_playlist',
+    scope: ({ playlistName }) => playlistName,
+    handle: async (ctx, { playlistName }) => {
+      await deleteCallbackMessage(ctx);
+      sessionManager.set(ctx.chatId, { type: 'waiting_for_url', playlistName });
 
-    await showPlaylistSongs({
-      botToken,
-      chatId,
-      userId,
-      username,
-      isAdminUser,
-    }, playlistName, messageId, true);
-    return;
-  }
+      // Add cancel button
+      const cancelButtons = createInlineKeyboard([
+        [callbackButton('❌ Cancel', 'cancel_add_song')]
+      ]);
+
+      await sendMessage(ctx.botToken, ctx.chatId, `📎 Please share a ${getSupportedSourcesText()} link or send an audio file to add to the "${playlistName}" playlist.`, cancelButtons);
+    },
+  },
+
+  delete_song_menu: {
+    permission: 'delete_songs',
+    scope: 'anywhere',
+    handle: async (ctx) => {
+      await showPlaylists(ctx, ctx.messageId);
+      sessionManager.set(ctx.chatId, { type: 'selecting_playlist_for_delete', messageId: ctx.messageId });
+    },
+  },
+
+  noop: {
+    handle: async () => { },
+  },
+
+  playlists_page: {
+    handle: async (ctx, { page, adding }) => {
+      await showPlaylists(ctx, ctx.messageId, page, adding);
+    },
+  },
+
+  playlist_page: {
+    handle: async (ctx, { playlistName, page }) => {
+      await showPlaylistSongs(ctx, playlistName, ctx.messageId, page);
+    },
+  },
+
+  playlist: {
+    handle: async (ctx, { playlistName }) => {
+      await showPlaylistSongs(ctx, playlistName, ctx.messageId);
+      if (sessionManager.get(ctx.chatId)?.type === 'selecting_playlist_for_delete') {
+        sessionManager.set(ctx.chatId, { type: 'selecting_song_to_delete', playlistName, messageId: ctx.messageId });
+      }
+    },
+  },
+
+  view_song: {
+    handle: async (ctx, { trackId }) => {
+      await showSongCard(ctx, trackId);
+    },
+  },
+
+  song_card: {
+    handle: async (ctx, { trackId, page }) => {
+      sessionManager.delete(ctx.chatId);
+      await showSongCard(ctx, trackId, ctx.messageId, page);
+    },
+  },
+
+  track_transfer_menu: {
+    permission: 'manage_tracks',
+    scope: trackPlaylist,
+    handle: async (ctx, { trackId, mode, page }) => {
+      await showTransferTargets(ctx, trackId, mode, ctx.messageId, page);
+    },
+  },
+
+  track_transfer: {
+    permission: 'manage_tracks',
+    scope: async ({ trackId, playlistName }) => {
+      const source = await trackPlaylist({ trackId });
+      return source ? [source, playlistName] : undefined;
+    },
+    handle: async (ctx, { trackId, mode, playlistName }) => {
+      await transferTrackTo(ctx, trackId, mode, playlistName, ctx.messageId);
+    },
+  },
+
+  track_rename: {
+    permission: 'manage_tracks',
+    scope: trackPlaylist,
+    handle: async (ctx, { trackId }) => {
+      await promptRenameTrack(ctx, trackId, ctx.messageId);
+    },
+  },
+
+  listen: {
+    handle: async (ctx, { trackId }) => {
+      const found = await findTrackById(trackId);
+      if (!found) {
+        await sendMessage(ctx.botToken, ctx.chatId, '❌ Song not found. It may have been moved or deleted.');
+        return;
+      }
+      await sendTrackAudio(ctx, { trackId, playlistName: found.playlistName, track: found.track });
+    },
+  },
+
+  random: {
+    handle: async (ctx, { playlistName }) => {
+      await sendRandomTrack(ctx, playlistName);
+    },
+  },
+
+  search_page: {
+    handle: async (ctx, { query, page }) => {
+      await showSearchResults(ctx, query, ctx.messageId, page);
+    },
+  },
+
+  delete_song: {
+    permission: 'delete_songs',
+    scope: trackPlaylist,
+    handle: (ctx, { trackId, page }) => handleDeleteSong(ctx, trackId, page, false),
+  },
+
+  delete_confirm: {
+    permission: 'delete_songs',
+    scope: trackPlaylist,
+    handle: (ctx, { trackId, page }) => handleDeleteSong(ctx, trackId, page, true),
+  },
+
+  delete_cancel: {
+    handle: async (ctx, { playlistName, page }) => {
+      await showPlaylistSongs(ctx, playlistName, ctx.messageId, page);
+    },
+  },
+
+  dup_override: {
+    permission: 'moderate',
+    scope: ({ jobId }, ctx) => {
+      const job = getSongQueue(ctx.botToken).getJob(jobId);
+      return job ? job.playlistName || COMMUNITY_PLAYLIST : undefined;
+    },
+    handle: async (ctx, { jobId }) => {
+      const { botToken, chatId, userId, username } = ctx;
+      const queue = getSongQueue(botToken);
+      const job = queue.getJob(jobId);
+      if (!job) {
+        await sendMessage(botToken, chatId, '⌛ This submission is no longer available. Please send the song again.');
+        return;
+      }
+
+      await deleteCallbackMessage(ctx);
 
-  if (data.startsWith('delete_song_')) {
-    if (!isAdminUser) {
       logBotActivity({
         timestamp: new Date().toISOString(),
         userId,
         username,
         chatId,
-        action: 'UNAUTHORIZED_ACCESS_ATTEMPT',
-        details: { attemptedAction: 'delete_song' },
-        status: 'error',
+        action: 'DUPLICATE_OVERRIDE',
+        details: { jobId: job.id, url: job.url, fileName: job.file?.fileName, playlist: job.playlistName },
+        status: 'info',
       });
-      await sendMessage(botToken, chatId, '❌ You do not have permission to perform this action.');
-      return;
-    }
-    const payload = data.replace('delete_song_', '');
-    const lastUnderscoreIndex = payload.lastIndexOf('_');
-    if (lastUnderscoreIndex === -1) {
-      await sendMessage(botToken, chatId, '❌ Invalid delete request.');
-      return;
-    }
 
-    const trackIndex = parseInt(payload.substring(lastUnderscoreIndex + 1), 10);
-    const encodedPlaylistName = payload.substring(0, lastUnderscoreIndex);
-    const playlistName = decodeURIComponent(encodedPlaylistName);
+      const result = queue.enqueue({
+        chatId,
+        userId,
+        username,
+        url: job.url,
+        file: job.file,
+        playlistName: job.playlistName,
+        allowDuplicate: true,
+      });
+      if (!result.accepted) {
+        await sendMessage(botToken, chatId, `⏳ You already have ${result.activeJobs} song${result.activeJobs !== 1 ? 's' : ''} being processed. Please wait for them to finish before adding more.`);
+      } else {
+        await sendMessage(botToken, chatId, '➕ Adding it anyway...');
+      }
+    },
+  },
+
+  mod_list: {
+    permission: 'moderate',
+    scope: 'anywhere',
+    handle: async (ctx) => {
+      await sendPendingList(ctx.botToken, ctx.chatId, ctx.userId);
+    },
+  },
+
+  mod_toggle: {
+    permission: 'bot_settings',
+    handle: async (ctx) => {
+      const moderationEnabled = !getBotSettings().moderationEnabled;
+      updateBotSettings({ moderationEnabled });
+      logBotActivity({
+        timestamp: new Date().toISOString(),
+        userId: ctx.userId,
+        username: ctx.username,
+        chatId: ctx.chatId,
+        action: 'MODERATION_TOGGLED',
+        details: { moderationEnabled },
+        status: 'info',
+      });
+      await showRestrictedAccess(ctx.botToken, ctx.chatId, ctx.messageId, ctx.userId, ctx.username);
+    },
+  },
+
+  mod_approve: {
+    permission: 'moderate',
+    scope: ({ submissionId }) => getModerationStore().get(submissionId)?.playlist,
+    handle: (ctx, { submissionId }) => handleModerationDecision(ctx, submissionId, true),
+  },
+
+  mod_reject: {
+    permission: 'moderate',
+    scope: ({ submissionId }) => getModerationStore().get(submissionId)?.playlist,
+    handle: (ctx, { submissionId }) => handleModerationDecision(ctx, submissionId, false),
+  },
+
+  trash_list: {
+    permission: 'delete_songs',
+    scope: 'anywhere',
+    handle: async (ctx) => {
+      await showTrash(ctx, ctx.messageId);
+    },
+  },
+
+  trash_restore: {
+    permission: 'delete_songs',
+    scope: ({ trashId }) => getTrashEntry(trashId)?.playlist,
+    handle: async (ctx, { trashId }) => {
+      await restoreSong(ctx, trashId);
+    },
+  },
+
+  trash_purge: {
+    permission: 'delete_songs',
+    scope: ({ trashId }) => getTrashEntry(trashId)?.playlist,
+    handle: async (ctx, { trashId }) => {
+      await purgeTrashedSong(ctx, trashId);
+    },
+  },
+
+  playlist_admin: {
+    permission: 'manage_playlists',
+    handle: async (ctx, { page }) => {
+      sessionManager.delete(ctx.chatId);
+      await showPlaylistAdmin(ctx, ctx.messageId, page);
+    },
+  },
+
+  playlist_admin_open: {
+    permission: 'manage_playlists',
+    handle: async (ctx, { playlistName }) => {
+      sessionManager.delete(ctx.chatId);
+      await showPlaylistOptions(ctx, playlistName, ctx.messageId);
+    },
+  },
+
+  playlist_create: {
+    permission: 'manage_playlists',
+    handle: async (ctx) => {
+      await promptNewPlaylist(ctx, ctx.messageId);
+    },
+  },
+
+  playlist_rename: {
+    permission: 'manage_playlists',
+    handle: async (ctx, { playlistName }) => {
+      await promptRenamePlaylist(ctx, playlistName, ctx.messageId);
+    },
+  },
+
+  playlist_delete: {
+    permission: 'manage_playlists',
+    handle: async (ctx, { playlistName }) => {
+      await confirmDeletePlaylist(ctx, playlistName, ctx.messageId);
+    },
+  },
+
+  playlist_delete_confirm: {
+    permission: 'manage_playlists',
+    handle: async (ctx, { playlistName }) => {
+      await deletePlaylistFolder(ctx, playlistName, ctx.messageId);
+    },
+  },
+
+  playlist_move: {
+    permission: 'manage_playlists',
+    handle: async (ctx, { playlistName, offset }) => {
+      await movePlaylistFolder(ctx, playlistName, offset, ctx.messageId);
+    },
+  },
+
+  roles_list: {
+    permission: 'manage_roles',
+    handle: async (ctx) => {
+      await showRoleList(ctx, ctx.messageId);
+    },
+  },
+
+  role_revoke: {
+    permission: 'manage_roles',
+    handle: async (ctx, grant) => {
+      await revokeRoleFromMenu(ctx, grant, ctx.messageId);
+    },
+  },
+
+  bans_list: {
+    permission: 'ban_users',
+    handle: async (ctx) => {
+      sessionManager.delete(ctx.chatId);
+      await showBanList(ctx, ctx.messageId);
+    },
+  },
+
+  restriction_lift: {
+    permission: 'ban_users',
+    handle: async (ctx, { userId }) => {
+      await liftRestrictionFromMenu(ctx, userId, ctx.messageId);
+    },
+  },
+
+  restriction_prompt: {
+    permission: 'ban_users',
+    handle: async (ctx, { type }) => {
+      await promptRestriction(ctx, type, ctx.messageId);
+    },
+  },
+};
 
-    if (!validatePlaylistName(playlistName) || isNaN(trackIndex)) {
-      await sendMessage(botToken, chatId, '❌ Invalid delete request.');
-      return;
-    }
+/**
+ * The single permission guard for every button
+ */
+async function isPermitted<P>(definition: CallbackActionDefinition<P>, ctx: CallbackContext, payload: P): Promise<boolean> {
+  const { permission, scope } = definition;
+  if (!permission) return true;
+  if (scope === 'anywhere') return hasPermissionAnywhere(ctx.userId, permission);
+
+  const playlists = scope ? await scope(payload, ctx) : undefined;
+  if (playlists === undefined) return hasPermission(ctx.userId, permission);
+  return [playlists].flat().every(playlist => hasPermission(ctx.userId, permission, playlist));
+}
 
-    try {
-      const siteUrl = process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL;
-      const playlists = await fetchPlaylists(siteUrl);
-      const playlist = playlists.find(p => p.name === playlistName);
+function getActionDefinition(action: string): CallbackActionDefinition<any> | undefined {
+  return Object.prototype.hasOwnProperty.call(callbackActions, action)
+    ? callbackActions[action as CallbackAction]
+    : undefined;
+}
 
-      if (!playlist || !playlist.tracks || !playlist.tracks[trackIndex]) {
-        await sendMessage(botToken, chatId, '❌ Song not found.');
-        return;
-      }
+export async function handleCallbackQuery(
+  config: CallbackHandlerConfig,
+  callbackQuery: any
+): Promise<void> {
+  const { botToken } = config;
+  const chatId = callbackQuery.message?.chat?.id;
+  const messageId = callbackQuery.message?.message_id;
+  const data = callbackQuery.data;
+  const userId = callbackQuery.from?.id;
+  const username = callbackQuery.from?.username;
 
-      const track = playlist.tracks[trackIndex];
-      const fileName = track.fileName.split('/').pop() || '';
-      await deleteSong({
-        botToken,
-        chatId,
-        userId,
-        username,
-      }, playlistName, fileName);
-      sessionManager.delete(chatId);
-    } catch (error) {
-      console.error('Error getting track info:', error);
-      await sendMessage(botToken, chatId, '❌ Error deleting song.');
-    }
+  if (!chatId || isUserRestricted(userId)) return;
+
+  await answerCallbackQuery(botToken, callbackQuery.id);
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: 'BUTTON_CLICK',
+    details: { button: data },
+    status: 'info',
+  });
+
+  const parsed = typeof data === 'string' ? parseCallbackData(data) : null;
+  const definition = parsed ? getActionDefinition(parsed.action) : undefined;
+  if (!parsed || !definition) {
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'CALLBACK_EXPIRED',
+      details: { button: data },
+      status: 'info',
+    });
+    await sendMessage(botToken, chatId, '⌛ This button has expired. Please open the menu again with /start.');
     return;
   }
 
-  if (data.startsWith('view_song_')) {
-    const payload = data.replace('view_song_', '');
-    const lastUnderscoreIndex = payload.lastIndexOf('_');
-    if (lastUnderscoreIndex === -1) return;
-
-    const songIndex = parseInt(payload.substring(lastUnderscoreIndex + 1), 10);
-    const encodedPlaylistName = payload.substring(0, lastUnderscoreIndex);
-    const playlistName = decodeURIComponent(encodedPlaylistName);
-    if (!validatePlaylistName(playlistName)) {
-      await sendMessage(botToken, chatId, '❌ Invalid playlist name.');
-      return;
-    }
-    try {
-      const siteUrl = process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL;
-      const playlists = await fetchPlaylists(siteUrl);
-      const playlist = playlists.find(p => p.name === playlistName);
-      if (playlist && playlist.tracks && playlist.tracks[songIndex]) {
-        const track = playlist.tracks[songIndex];
-
-        logBotActivity({
-          timestamp: new Date().toISOString(),
-          userId,
-          username,
-          chatId,
-          action: 'VIEW_SONG',
-          details: { playlist: playlistName, trackName: track.trackName, trackIndex: songIndex },
-          status: 'info',
-        });
-
-        await sendMessage(botToken, chatId, `🎵 **${track.trackName}**\n\n📁 Playlist: ${playlistName}\n🎵 Track #${track.trackNumber}`);
-      }
-    } catch (error) {
-      console.error('Error viewing song:', error);
-    }
+  const ctx: CallbackContext = { botToken, chatId, messageId, userId, username };
+  if (!(await isPermitted(definition, ctx, parsed.payload))) {
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'UNAUTHORIZED_ACCESS_ATTEMPT',
+      details: { attemptedAction: parsed.action, permission: definition.permission },
+      status: 'error',
+    });
+    await sendMessage(botToken, chatId, definition.deniedMessage || '❌ You do not have permission to perform this action.');
     return;
   }
-}
 
+  await definition.handle(ctx, parsed.payload);
+}
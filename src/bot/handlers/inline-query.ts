@@ -0,0 +1,66 @@
+/**
+ * Inline query handler
+ * "@bot <query>" in any chat searches the playlists and shares a track with a link into the web player
+ */
+
+import { answerInlineQuery, createInlineKeyboard, fetchPlaylists, type TelegramInlineQuery } from '../../utils/telegram-bot';
+import { getTrackLink } from '../../utils/tracks';
+import { searchTracks, type TrackSearchResult } from '../services/track-search';
+import { isUserRestricted } from '../services/user-restrictions';
+import { logBotActivity } from '../utils/logger';
+import { DEFAULT_SITE_URL, INLINE_QUERY_CACHE_TIME, SEARCH_MAX_RESULTS } from '../../constants';
+
+export interface InlineQueryHandlerConfig {
+  botToken: string;
+}
+
+/**
+ * Article result for a track (sent as plain text so track names never break Markdown)
+ */
+export function toInlineResult(result: TrackSearchResult, siteUrl: string) {
+  const { trackId, playlistName, track } = result;
+  const link = getTrackLink(siteUrl, trackId);
+  const details = [`📁 ${playlistName}`, track.duration && `⏱ ${track.duration}`].filter(Boolean).join(' · ');
+
+  return {
+    type: 'article',
+    id: trackId,
+    title: track.trackName || 'Unknown',
+    description: details,
+    url: link,
+    input_message_content: {
+      message_text: `🎵 ${track.trackName || 'Unknown'}\n${details}\n\n▶️ ${link}`,
+    },
+    reply_markup: createInlineKeyboard([[{ text: '▶️ Play on Pirate Radio', url: link }]]),
+  };
+}
+
+export async function handleInlineQuery(
+  config: InlineQueryHandlerConfig,
+  inlineQuery: TelegramInlineQuery
+): Promise<void> {
+  const { botToken } = config;
+  if (isUserRestricted(inlineQuery.from.id)) return;
+
+  const query = inlineQuery.query.trim();
+  const siteUrl = process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL;
+
+  const results = query ? searchTracks(await fetchPlaylists(siteUrl), query, SEARCH_MAX_RESULTS) : [];
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId: inlineQuery.from.id,
+    username: inlineQuery.from.username,
+    chatId: inlineQuery.from.id,
+    action: 'INLINE_QUERY',
+    details: { query, resultCount: results.length },
+    status: 'info',
+  });
+
+  await answerInlineQuery(
+    botToken,
+    inlineQuery.id,
+    results.map(result => toInlineResult(result, siteUrl)),
+    INLINE_QUERY_CACHE_TIME
+  );
+}
@@ -2,16 +2,30 @@
  * Message handler
  */
 
-import { sendMessage, isValidSongUrl, isAdmin, createInlineKeyboard } from '../../utils/telegram-bot';
-import { checkRateLimit, getResetTime } from '../../utils/rate-limiter';
-import { RATE_LIMIT_REQUESTS, RATE_LIMIT_WINDOW, ERROR_MESSAGES } from '../../constants';
+import { sendMessage, isValidSongUrl, createInlineKeyboard, type TelegramMessage } from '../../utils/telegram-bot';
+import { getRateLimiter } from '../../services/rate-limiter';
+import { ERROR_MESSAGES } from '../../constants';
 import { sessionManager } from '../session/session';
-import { processSongSubmission } from '../services/song-processor';
+import { getSongQueue, type NewSongJob } from '../services/song-queue';
 import { handleStartCommand } from '../commands/start';
 import { showPlaylists } from '../services/playlist-service';
 import { handleHelpCommand } from '../commands/help';
 import { handleAboutCommand } from '../commands/about';
+import { handleMaxTracksCommand } from '../commands/max-tracks';
+import { handleUndoCommand } from '../commands/undo';
+import { handleSearchCommand } from '../commands/search';
+import { handleRandomCommand } from '../commands/random';
+import { handleRolesCommand } from '../commands/roles';
+import { handleBansCommand, handleRestrictionTargetInput } from '../commands/bans';
+import { handleQuotaCommand, handleSetQuotaCommand } from '../commands/quota';
+import { handlePlaylistNameInput } from '../services/playlist-admin';
+import { handleTrackNameInput } from '../services/track-admin';
+import { hasPermission, hasPermissionAnywhere } from '../services/permissions';
+import { isUserRestricted } from '../services/user-restrictions';
 import { logBotActivity } from '../utils/logger';
+import { callbackButton } from '../utils/callback-data';
+import { getSupportedSourcesText, getInvalidUrlMessage, getSourceExamplesText } from '../../utils/source-providers';
+import { hasAttachment, validateAudioAttachment } from '../../utils/audio-attachment';
 
 export interface MessageHandlerConfig {
   botToken: string;
@@ -27,32 +41,27 @@ export async function handleMessage(
   const userId = message.from?.id;
   const username = message.from?.username;
 
-  if (!text) return;
+  // Banned and muted users are ignored entirely
+  if (isUserRestricted(userId)) return;
+
+  if (!text) {
+    if (hasAttachment(message)) {
+      await handleAudioAttachment(botToken, message);
+    }
+    return;
+  }
 
   // Check if this is a command (should not be rate limited)
   const isCommand = text.startsWith('/start') || text.startsWith('/playlists') ||
-    text.startsWith('/help') || text.startsWith('/about') || text.startsWith('/add');
+    text.startsWith('/help') || text.startsWith('/about') || text.startsWith('/add') ||
+    text.startsWith('/maxtracks') || text.startsWith('/undo') || text.startsWith('/search') ||
+    text.startsWith('/roles') || text.startsWith('/grant') || text.startsWith('/revoke') ||
+    text.startsWith('/ban') || text.startsWith('/mute') || text.startsWith('/unban') ||
+    text.startsWith('/quota') || text.startsWith('/setquota') || text.startsWith('/random');
 
   // Only check rate limit for non-command messages
-  if (!isCommand) {
-    const userIdStr = chatId.toString();
-    if (!checkRateLimit(userIdStr, RATE_LIMIT_REQUESTS, RATE_LIMIT_WINDOW)) {
-      const resetTime = getResetTime(userIdStr);
-      const waitSeconds = resetTime ? Math.ceil((resetTime - Date.now()) / 1000) : 60;
-
-      logBotActivity({
-        timestamp: new Date().toISOString(),
-        userId,
-        username,
-        chatId,
-        action: 'RATE_LIMIT_EXCEEDED',
-        details: { waitSeconds, message: text.substring(0, 50) },
-        status: 'info',
-      });
-
-      await sendMessage(botToken, chatId, ERROR_MESSAGES.RATE_LIMIT_EXCEEDED.replace('{seconds}', waitSeconds.toString()));
-      return;
-    }
+  if (!isCommand && !(await checkMessageRateLimit(botToken, chatId, userId, username, text))) {
+    return;
   }
 
   // Handle commands first - they should cancel any active session
@@ -71,7 +80,6 @@ export async function handleMessage(
   if (text.startsWith('/playlists')) {
     // Cancel any active session when using /playlists
     sessionManager.delete(chatId);
-    const isAdminUser = userId ? isAdmin(userId) : false;
 
     logBotActivity({
       timestamp: new Date().toISOString(),
@@ -79,7 +87,7 @@ export async function handleMessage(
       username,
       chatId,
       action: 'COMMAND_PLAYLISTS',
-      details: { isAdmin: isAdminUser },
+      details: {},
       status: 'info',
     });
 
@@ -88,8 +96,29 @@ export async function handleMessage(
       chatId,
       userId,
       username,
-      isAdminUser,
-    }, undefined, false);
+    });
+    return;
+  }
+
+  if (text.startsWith('/search')) {
+    // Cancel any active session when using /search
+    sessionManager.delete(chatId);
+    await handleSearchCommand({
+      botToken,
+      chatId,
+      userId,
+      username,
+    }, text);
+    return;
+  }
+
+  if (text.startsWith('/random')) {
+    await handleRandomCommand({
+      botToken,
+      chatId,
+      userId,
+      username,
+    }, text);
     return;
   }
 
@@ -117,6 +146,66 @@ export async function handleMessage(
     return;
   }
 
+  if (text.startsWith('/maxtracks')) {
+    await handleMaxTracksCommand({
+      botToken,
+      chatId,
+      userId,
+      username,
+    }, text);
+    return;
+  }
+
+  if (text.startsWith('/undo')) {
+    await handleUndoCommand({
+      botToken,
+      chatId,
+      userId,
+      username,
+    });
+    return;
+  }
+
+  if (text.startsWith('/roles') || text.startsWith('/grant') || text.startsWith('/revoke')) {
+    await handleRolesCommand({
+      botToken,
+      chatId,
+      userId,
+      username,
+    }, text);
+    return;
+  }
+
+  if (text.startsWith('/quota')) {
+    await handleQuotaCommand({
+      botToken,
+      chatId,
+      userId,
+      username,
+    });
+    return;
+  }
+
+  if (text.startsWith('/setquota')) {
+    await handleSetQuotaCommand({
+      botToken,
+      chatId,
+      userId,
+      username,
+    }, text);
+    return;
+  }
+
+  if (text.startsWith('/ban') || text.startsWith('/mute') || text.startsWith('/unban')) {
+    await handleBansCommand({
+      botToken,
+      chatId,
+      userId,
+      username,
+    }, text, message.reply_to_message);
+    return;
+  }
+
   if (text.startsWith('/add')) {
     // Cancel any active session when using /add
     sessionManager.delete(chatId);
@@ -124,10 +213,10 @@ export async function handleMessage(
 
     // Add cancel button
     const cancelButtons = createInlineKeyboard([
-      [{ text: '❌ Cancel', callback_data: 'cancel_add_song' }]
+      [callbackButton('❌ Cancel', 'cancel_add_song')]
     ]);
 
-    await sendMessage(botToken, chatId, '📎 Please share a YouTube or Spotify link to the song you want to add to the community playlist.', cancelButtons);
+    await sendMessage(botToken, chatId, `📎 Please share a ${getSupportedSourcesText()} link to the song you want to add to the community playlist, or send the audio file.`, cancelButtons);
     return;
   }
 
@@ -138,17 +227,15 @@ export async function handleMessage(
       try {
         new URL(text);
       } catch {
-        await sendMessage(botToken, chatId, '❌ Invalid URL format. Please share a valid YouTube or Spotify link.');
+        await sendMessage(botToken, chatId, `❌ Invalid URL format. Please share a valid ${getSupportedSourcesText()} link.`);
         return;
       }
-      const playlistName = session.playlistName;
-      processSongSubmission({
-        botToken,
+      await enqueueSubmission(botToken, {
         chatId,
         userId,
         username,
-      }, text, playlistName).catch((error) => {
-        console.error('Background processing error:', error);
+        url: text,
+        playlistName: session.playlistName,
       });
     } else {
       logBotActivity({
@@ -161,13 +248,36 @@ export async function handleMessage(
         status: 'info',
       });
 
-      await sendMessage(botToken, chatId, ERROR_MESSAGES.INVALID_URL + '\n\n' +
-        'Examples:\n' +
-        '• https://www.youtube.com/watch?v=...\n' +
-        '• https://youtu.be/...\n' +
-        '• https://open.spotify.com/track/...\n' +
-        '• https://open.spotify.com/album/...');
+      await sendMessage(botToken, chatId, `${getInvalidUrlMessage()}\n\nExamples:\n${getSourceExamplesText()}`);
+    }
+    return;
+  }
+
+  // Name prompts (permissions are checked again in case they were revoked mid-flow)
+  if (session && (session.type === 'waiting_for_playlist_name' || session.type === 'waiting_for_playlist_rename')) {
+    if (!hasPermission(userId, 'manage_playlists')) {
+      sessionManager.delete(chatId);
+      return;
+    }
+    await handlePlaylistNameInput({ botToken, chatId, userId, username }, text);
+    return;
+  }
+
+  if (session && session.type === 'waiting_for_track_name') {
+    if (!hasPermissionAnywhere(userId, 'manage_tracks')) {
+      sessionManager.delete(chatId);
+      return;
+    }
+    await handleTrackNameInput({ botToken, chatId, userId, username }, text);
+    return;
+  }
+
+  if (session && session.type === 'waiting_for_restriction_target') {
+    if (!hasPermission(userId, 'ban_users')) {
+      sessionManager.delete(chatId);
+      return;
     }
+    await handleRestrictionTargetInput({ botToken, chatId, userId, username }, text);
     return;
   }
 
@@ -184,4 +294,117 @@ export async function handleMessage(
   await sendMessage(botToken, chatId, '👋 Use /start to see available options!');
 }
 
+/**
+ * Apply the per-chat message limit, telling the user how long to wait when exceeded
+ * @returns false if the message should be dropped
+ */
+async function checkMessageRateLimit(
+  botToken: string,
+  chatId: number,
+  userId: number | undefined,
+  username: string | undefined,
+  preview: string
+): Promise<boolean> {
+  const limit = getRateLimiter('bot_messages').consume(chatId.toString());
+  if (limit.allowed) {
+    return true;
+  }
+
+  const waitSeconds = Math.ceil(limit.retryAfterMs / 1000);
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: 'RATE_LIMIT_EXCEEDED',
+    details: { waitSeconds, message: preview.substring(0, 50) },
+    status: 'info',
+  });
+
+  await sendMessage(botToken, chatId, ERROR_MESSAGES.RATE_LIMIT_EXCEEDED.replace('{seconds}', waitSeconds.toString()));
+  return false;
+}
+
+/**
+ * Queue a submission and tell the user if they hit their limit or have to wait
+ */
+async function enqueueSubmission(botToken: string, job: NewSongJob): Promise<void> {
+  const { chatId, userId, username } = job;
+
+  const limit = getRateLimiter('submissions').consume(String(userId ?? chatId));
+  if (!limit.allowed) {
+    const waitSeconds = Math.ceil(limit.retryAfterMs / 1000);
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'SUBMISSION_RATE_LIMITED',
+      details: { waitSeconds },
+      status: 'info',
+    });
+    await sendMessage(botToken, chatId, `⏳ You're adding songs too quickly. Please wait ${waitSeconds} seconds and send it again.`);
+    return;
+  }
+
+  const result = getSongQueue(botToken).enqueue(job);
 
+  if (!result.accepted) {
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'SONG_QUEUE_LIMIT_REACHED',
+      details: { activeJobs: result.activeJobs },
+      status: 'info',
+    });
+    await sendMessage(botToken, chatId, `⏳ You already have ${result.activeJobs} song${result.activeJobs !== 1 ? 's' : ''} being processed. Please wait for them to finish before adding more.`);
+  } else if (result.position > 0) {
+    await sendMessage(botToken, chatId, `🕒 Your song is queued (position ${result.position}). I'll start on it shortly.`);
+  }
+}
+
+/**
+ * Handle an audio/document message - accepted only while waiting for a song
+ */
+async function handleAudioAttachment(botToken: string, message: TelegramMessage): Promise<void> {
+  const chatId = message.chat.id;
+  const userId = message.from?.id;
+  const username = message.from?.username;
+
+  const session = sessionManager.get(chatId);
+  if (!session || session.type !== 'waiting_for_url') {
+    return;
+  }
+
+  const fileName = message.audio?.file_name || message.document?.file_name || 'audio';
+  if (!(await checkMessageRateLimit(botToken, chatId, userId, username, fileName))) {
+    return;
+  }
+
+  const result = validateAudioAttachment(message);
+  if (!result.ok) {
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'INVALID_FILE_SUBMITTED',
+      details: { fileName, error: result.error },
+      status: 'info',
+    });
+
+    await sendMessage(botToken, chatId, `❌ ${result.error}`);
+    return;
+  }
+
+  await enqueueSubmission(botToken, {
+    chatId,
+    userId,
+    username,
+    file: result.file,
+    playlistName: session.playlistName,
+  });
+}
@@ -1,11 +1,15 @@
 /**
  * Main bot entry point
  * Handles polling loop and webhook management
+ * (webhook mode is served by src/pages/api/telegram-webhook.ts)
  */
 
-import { handleMessage, type MessageHandlerConfig } from './handlers/message';
-import { handleCallbackQuery, type CallbackHandlerConfig } from './handlers/callback';
+import { markUpdateProcessed, dispatchUpdate } from './updates';
 import { logBotActivity } from './utils/logger';
+import { sessionManager } from './session/session';
+import { registerSessionTimeoutNotifier } from './session/timeout-notifier';
+import { getSongQueue } from './services/song-queue';
+import { startTrashPurge } from './services/trash';
 import { WEBHOOK_CHECK_TIMEOUT, LONG_POLLING_TIMEOUT } from '../constants';
 
 export interface BotConfig {
@@ -13,7 +17,6 @@ export interface BotConfig {
 }
 
 let lastUpdateId = 0;
-const processedUpdateIds = new Set<number>();
 
 /**
  * Check if webhook is set
@@ -210,7 +213,7 @@ export async function startBot(config: BotConfig): Promise<void> {
     } else {
       console.error('❌ Failed to delete webhook. Please delete it manually:');
       console.error(`   npm run delete-webhook`);
-      console.error(`   or: curl -X POST "https://api.telegram.org/bot${botToken}/deleteWebhook"`);
+      console.error(`   or: curl -X POST "https://api.telegram.org/bot$TELEGRAM_BOT_TOKEN/deleteWebhook"`);
       process.exit(1);
     }
     console.log('');
@@ -219,6 +222,16 @@ export async function startBot(config: BotConfig): Promise<void> {
     console.log('');
   }
 
+  // Expire stale sessions in the background and tell users their flow timed out
+  registerSessionTimeoutNotifier(botToken);
+  sessionManager.startCleanup();
+
+  // Resume song jobs that were queued before the last restart
+  getSongQueue(botToken);
+
+  // Permanently delete trashed songs once they pass the retention period
+  startTrashPurge();
+
   // Polling loop
   let conflictCount = 0;
   let consecutiveErrors = 0;
@@ -227,9 +240,6 @@ export async function startBot(config: BotConfig): Promise<void> {
   console.log('[bot] 🔍 Log format: [timestamp] [status] User [ID] (@username) | Chat [ID] | [ACTION]');
   console.log('');
   
-  const messageConfig: MessageHandlerConfig = { botToken };
-  const callbackConfig: CallbackHandlerConfig = { botToken };
-  
   while (true) {
     try {
       const updates = await getUpdates(botToken);
@@ -246,40 +256,18 @@ export async function startBot(config: BotConfig): Promise<void> {
         });
       }
       
-      // Filter out already processed updates to prevent duplicates
-      const newUpdates = updates.filter(update => !processedUpdateIds.has(update.update_id));
-      
       // Update lastUpdateId BEFORE processing to prevent duplicate processing
       // This ensures that if the same update comes in multiple polling cycles, it won't be processed again
       if (updates.length > 0) {
         lastUpdateId = Math.max(...updates.map(u => u.update_id));
       }
       
-      // Mark updates as processed immediately to prevent race conditions
-      newUpdates.forEach(update => processedUpdateIds.add(update.update_id));
-      
-      // Clean up old processed IDs (keep only last 1000 to prevent memory leak)
-      if (processedUpdateIds.size > 1000) {
-        const idsToKeep = Array.from(processedUpdateIds).slice(-500);
-        processedUpdateIds.clear();
-        idsToKeep.forEach(id => processedUpdateIds.add(id));
-      }
+      // Filter out already processed updates (marking them immediately to prevent race conditions)
+      const newUpdates = updates.filter(update => markUpdateProcessed(update.update_id));
       
       // Process updates in parallel for better responsiveness
       // Each update is independent (different chatId), so no race conditions
-      const updatePromises = newUpdates.map(async (update) => {
-        if (update.callback_query) {
-          // Process callbacks in parallel - don't block on slow operations
-          handleCallbackQuery(callbackConfig, update.callback_query).catch((error) => {
-            console.error('Error handling callback query:', error);
-          });
-        } else if (update.message) {
-          // Process messages in parallel
-          handleMessage(messageConfig, update.message).catch((error) => {
-            console.error('Error handling message:', error);
-          });
-        }
-      });
+      const updatePromises = newUpdates.map(update => dispatchUpdate(botToken, update));
       
       // Don't wait for all updates - let them process in background
       // This allows the next polling cycle to start immediately
@@ -341,7 +329,7 @@ export async function startBot(config: BotConfig): Promise<void> {
               console.error('❌ Failed to delete webhook automatically.');
               console.error('💡 Please delete it manually:');
               console.error(`   npm run delete-webhook`);
-              console.error(`   or: curl -X POST "https://api.telegram.org/bot${botToken}/deleteWebhook"`);
+              console.error(`   or: curl -X POST "https://api.telegram.org/bot$TELEGRAM_BOT_TOKEN/deleteWebhook"`);
               process.exit(1);
             }
           } else {
@@ -0,0 +1,63 @@
+/**
+ * Runtime bot settings
+ * Adjustable by admins from the bot and persisted so changes survive a restart;
+ * defaults come from the environment
+ */
+
+import { getBotDataPath } from '../utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+import type { QuotaSettings } from './quotas';
+import { DEFAULT_MAX_TRACKS_PER_SUBMISSION } from '../../constants';
+
+export interface BotSettings {
+  maxTracksPerSubmission: number; // Cap on tracks one album/playlist link may add
+  moderationEnabled: boolean; // Non-admin submissions wait for admin approval
+  quotas: QuotaSettings; // Per-user submission limits (see services/quotas)
+}
+
+let settings: BotSettings | null = null;
+
+/**
+ * Env quota limits: unset or 0 means unlimited
+ */
+function getQuotaLimitFromEnv(name: string): number | null {
+  return parseInt(process.env[name] || '', 10) || null;
+}
+
+function getDefaultSettings(): BotSettings {
+  return {
+    maxTracksPerSubmission: parseInt(process.env.MAX_TRACKS_PER_SUBMISSION || '', 10) || DEFAULT_MAX_TRACKS_PER_SUBMISSION,
+    moderationEnabled: process.env.MODERATION_ENABLED === 'true',
+    quotas: {
+      default: {
+        dailyTracks: getQuotaLimitFromEnv('QUOTA_DAILY_TRACKS'),
+        weeklyTracks: getQuotaLimitFromEnv('QUOTA_WEEKLY_TRACKS'),
+        totalMb: getQuotaLimitFromEnv('QUOTA_TOTAL_MB'),
+      },
+      roles: {},
+      users: {},
+    },
+  };
+}
+
+/**
+ * Current settings (defaults merged with any persisted overrides)
+ */
+export function getBotSettings(): BotSettings {
+  if (!settings) {
+    settings = {
+      ...getDefaultSettings(),
+      ...readJsonFile<Partial<BotSettings>>(getBotDataPath('bot-settings.json'), {}),
+    };
+  }
+  return settings;
+}
+
+/**
+ * Change settings and persist them
+ */
+export function updateBotSettings(changes: Partial<BotSettings>): BotSettings {
+  settings = { ...getBotSettings(), ...changes };
+  writeJsonFile(getBotDataPath('bot-settings.json'), settings);
+  return settings;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ModerationStore, formatPendingSubmission, getSubmitterFromReview } from './moderation';
+
+describe('moderation', () => {
+    let dir: string;
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    function createStore(): { store: ModerationStore; sourcePath: string } {
+        dir = mkdtempSync(join(tmpdir(), 'moderation-'));
+        const sourcePath = join(dir, 'song.mp3');
+        writeFileSync(sourcePath, 'audio');
+        return { store: new ModerationStore(join(dir, 'pending'), join(dir, 'pending.json')), sourcePath };
+    }
+
+    it('copies tracks into the pending area and persists the submission', async () => {
+        const { store, sourcePath } = createStore();
+        const submission = await store.add({
+            chatId: 1,
+            username: 'alice',
+            playlist: 'community',
+            tracks: [{ filePath: sourcePath, fileName: 'song.mp3', title: 'Artist - Song', contentHash: 'abc' }],
+        });
+
+        expect(submission.status).toBe('pending');
+        expect(submission.tracks[0].filePath).toBe(join(dir, 'pending', submission.id, 'song.mp3'));
+        expect(existsSync(submission.tracks[0].filePath)).toBe(true);
+
+        const reloaded = new ModerationStore(join(dir, 'pending'), join(dir, 'pending.json'));
+        expect(reloaded.get(submission.id)).toMatchObject({ playlist: 'community', tracks: [{ contentHash: 'abc' }] });
+    });
+
+    it('resets interrupted approvals when reloaded', async () => {
+        const { store, sourcePath } = createStore();
+        const submission = await store.add({ chatId: 1, playlist: 'community', tracks: [{ filePath: sourcePath, fileName: 'song.mp3' }] });
+        store.update(submission.id, { status: 'approving' });
+
+        const reloaded = new ModerationStore(join(dir, 'pending'), join(dir, 'pending.json'));
+        expect(reloaded.get(submission.id)?.status).toBe('pending');
+    });
+
+    it('deletes the files when a submission is removed', async () => {
+        const { store, sourcePath } = createStore();
+        const submission = await store.add({ chatId: 1, playlist: 'community', tracks: [{ filePath: sourcePath, fileName: 'song.mp3' }] });
+
+        await store.remove(submission.id);
+
+        expect(store.list()).toEqual([]);
+        expect(existsSync(join(dir, 'pending', submission.id))).toBe(false);
+        expect(existsSync(sourcePath)).toBe(true);
+    });
+
+    it('formats the review message', async () => {
+        const { store, sourcePath } = createStore();
+        const submission = await store.add({ chatId: 1, userId: 42, playlist: 'community', tracks: [{ filePath: sourcePath, fileName: 'song.mp3' }] });
+
+        expect(formatPendingSubmission(submission)).toContain('From: user 42');
+        expect(formatPendingSubmission(submission)).toContain('1. song.mp3');
+    });
+
+    it('escapes underscores and other Markdown in the review message', async () => {
+        const { store, sourcePath } = createStore();
+        const submission = await store.add({
+            chatId: 1,
+            userId: 42,
+            username: 'some_user',
+            playlist: 'late_night',
+            tracks: [{ filePath: sourcePath, fileName: 'Song_Title.mp3', title: 'Song *live*' }],
+        });
+        const text = formatPendingSubmission(submission);
+
+        expect(text).toContain('From: @some\\_user (ID 42)');
+        expect(text).toContain('Playlist: late\\_night');
+        expect(text).toContain('1. Song \\*live\\*');
+        // Telegram hands the text back without the escapes; the submitter is still found
+        vi.stubEnv('BOT_DATA_DIR', dir);
+        const review = { message_id: 6, chat: { id: 9, type: 'private' }, date: 0, text: text.replace(/\\/g, ''), from: { id: 1, is_bot: true, first_name: 'bot' } };
+        expect(getSubmitterFromReview(9, review)).toBe(42);
+        vi.unstubAllEnvs();
+    });
+
+    it('finds the submitter of a decided review message from its text', async () => {
+        const { store, sourcePath } = createStore();
+        vi.stubEnv('BOT_DATA_DIR', dir);
+        const submission = await store.add({ chatId: 1, userId: 77, username: 'spammer', playlist: 'community', tracks: [{ filePath: sourcePath, fileName: 'song.mp3' }] });
+        const review = { message_id: 5, chat: { id: 9, type: 'private' }, date: 0, text: formatPendingSubmission(submission) };
+
+        expect(getSubmitterFromReview(9, { ...review, from: { id: 1, is_bot: true, first_name: 'bot' } })).toBe(77);
+        expect(getSubmitterFromReview(9, { ...review, from: { id: 2, is_bot: false, first_name: 'alice' } })).toBeUndefined();
+        vi.unstubAllEnvs();
+    });
+});
@@ -0,0 +1,351 @@
+/**
+ * Moderation queue
+ * Holds community submissions in a pending area until an admin approves or rejects them;
+ * approved tracks go through the normal publish path, and the submitter is told the outcome
+ */
+
+import { randomUUID } from 'crypto';
+import { copyFile, mkdir, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { sendMessage, editMessageText, createInlineKeyboard, escapeMarkdown, type TelegramMessage } from '../../utils/telegram-bot';
+import { publishTracks, formatTrackSummary, type PublishableTrack } from './track-publisher';
+import { getBotDataPath } from '../utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+import { logBotActivity } from '../utils/logger';
+import { callbackButton } from '../utils/callback-data';
+import { getUsersWithPermission, hasPermission } from './permissions';
+import { recordPublishedTracks } from './quotas';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export interface PendingTrack {
+  filePath: string;
+  fileName: string;
+  title?: string;
+  contentHash?: string;
+  durationSeconds?: number;
+  size?: number; // Bytes, counted against the submitter's storage quota while pending
+}
+
+export interface PendingSubmission {
+  id: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+  playlist: string;
+  tracks: PendingTrack[];
+  createdAt: number;
+  status: 'pending' | 'approving';
+  adminMessages: Array<{ chatId: number; messageId: number }>; // Review messages to update once decided
+}
+
+export type NewPendingSubmission = Pick<PendingSubmission, 'chatId' | 'userId' | 'username' | 'playlist'> & {
+  tracks: PublishableTrack[];
+};
+
+export interface Reviewer {
+  userId?: number;
+  username?: string;
+}
+
+export type ModerationResult =
+  | { status: 'approved' | 'rejected' }
+  | { status: 'not_found' | 'in_progress' }
+  | { status: 'failed'; error: string };
+
+export class ModerationStore {
+  private submissions: PendingSubmission[];
+  private filePath?: string;
+  private filesDir: string;
+
+  /**
+   * @param filePath JSON file for the pending list (omit to keep it in memory only)
+   * @param filesDir Directory that holds the pending audio files
+   */
+  constructor(filesDir: string, filePath?: string) {
+    this.filesDir = filesDir;
+    this.filePath = filePath;
+    this.submissions = filePath ? readJsonFile<PendingSubmission[]>(filePath, []) : [];
+
+    // An approval interrupted by a restart can simply be retried
+    for (const submission of this.submissions) {
+      submission.status = 'pending';
+    }
+  }
+
+  /**
+   * Copy the tracks into the pending area and record the submission
+   * (the caller's temp files are cleaned up by the caller)
+   */
+  async add(input: NewPendingSubmission): Promise<PendingSubmission> {
+    const id = randomUUID();
+    const directory = join(this.filesDir, id);
+    await mkdir(directory, { recursive: true });
+
+    const tracks: PendingTrack[] = [];
+    for (const track of input.tracks) {
+      const filePath = join(directory, track.fileName);
+      await copyFile(track.filePath, filePath);
+      const { size } = await stat(filePath);
+      tracks.push({
+        filePath,
+        fileName: track.fileName,
+        size,
+        ...(track.title && { title: track.title }),
+        ...(track.contentHash && { contentHash: track.contentHash }),
+        ...(track.durationSeconds && { durationSeconds: track.durationSeconds }),
+      });
+    }
+
+    const submission: PendingSubmission = {
+      ...input,
+      id,
+      tracks,
+      createdAt: Date.now(),
+      status: 'pending',
+      adminMessages: [],
+    };
+    this.submissions.push(submission);
+    this.persist();
+    return submission;
+  }
+
+  get(id: string): PendingSubmission | undefined {
+    return this.submissions.find(submission => submission.id === id);
+  }
+
+  list(): PendingSubmission[] {
+    return [...this.submissions];
+  }
+
+  /**
+   * Tracks and bytes a user has waiting for review (they count against the user's quota until decided)
+   */
+  getPendingUsage(userId: number): { tracks: number; bytes: number } {
+    const tracks = this.submissions
+      .filter(submission => submission.userId === userId)
+      .flatMap(submission => submission.tracks);
+    return { tracks: tracks.length, bytes: tracks.reduce((sum, track) => sum + (track.size ?? 0), 0) };
+  }
+
+  update(id: string, changes: Partial<PendingSubmission>): void {
+    const submission = this.get(id);
+    if (!submission) return;
+    Object.assign(submission, changes);
+    this.persist();
+  }
+
+  /**
+   * Forget a submission and delete its files
+   */
+  async remove(id: string): Promise<void> {
+    this.submissions = this.submissions.filter(submission => submission.id !== id);
+    this.persist();
+    await rm(join(this.filesDir, id), { recursive: true, force: true }).catch(() => { });
+  }
+
+  private persist(): void {
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.submissions);
+    }
+  }
+}
+
+let storeInstance: ModerationStore | null = null;
+
+export function getModerationStore(): ModerationStore {
+  if (!storeInstance) {
+    storeInstance = new ModerationStore(getBotDataPath('pending'), getBotDataPath('pending-submissions.json'));
+  }
+  return storeInstance;
+}
+
+function getSubmitterName(submission: Pick<PendingSubmission, 'username' | 'userId'>): string {
+  if (!submission.username) return `user ${submission.userId ?? 'unknown'}`;
+  return `@${escapeMarkdown(submission.username)}${submission.userId !== undefined ? ` (ID ${submission.userId})` : ''}`;
+}
+
+function getReviewerName(reviewer: Reviewer): string {
+  return reviewer.username ? `@${escapeMarkdown(reviewer.username)}` : `admin ${reviewer.userId ?? 'unknown'}`;
+}
+
+/**
+ * Review message shown to admins (Markdown, with the submitted names escaped)
+ */
+export function formatPendingSubmission(submission: PendingSubmission): string {
+  const tracks = submission.tracks
+    .map((track, index) => `${index + 1}. ${escapeMarkdown(track.title || track.fileName)}`)
+    .join('\n');
+  return `🛂 **Submission for review**\n\nFrom: ${getSubmitterName(submission)}\nPlaylist: ${escapeMarkdown(submission.playlist)}\n\n${tracks}`;
+}
+
+function getReviewButtons(id: string) {
+  return createInlineKeyboard([
+    [
+      callbackButton('✅ Approve', 'mod_approve', { submissionId: id }),
+      callbackButton('❌ Reject', 'mod_reject', { submissionId: id }),
+    ],
+  ]);
+}
+
+/**
+ * Send a review message with approve/reject buttons and remember it for later updates
+ */
+async function sendReviewMessage(botToken: string, chatId: number, submission: PendingSubmission): Promise<void> {
+  const messageId = await sendMessage(botToken, chatId, formatPendingSubmission(submission), getReviewButtons(submission.id));
+  getModerationStore().update(submission.id, {
+    adminMessages: [...submission.adminMessages, { chatId, messageId }],
+  });
+}
+
+/**
+ * Send the review message to everyone who can moderate the submission's playlist
+ * Moderators who never started a chat with the bot can't be messaged - they can still use the pending list
+ */
+export async function notifyModerators(botToken: string, submission: PendingSubmission): Promise<void> {
+  for (const moderatorId of getUsersWithPermission('moderate', submission.playlist)) {
+    try {
+      await sendReviewMessage(botToken, moderatorId, submission);
+    } catch (error: any) {
+      log.warn(`Could not notify moderator ${moderatorId} about submission ${submission.id}`, { error: error.message });
+    }
+  }
+}
+
+/**
+ * Send the pending submissions a moderator may review to their chat
+ */
+export async function sendPendingList(botToken: string, chatId: number, userId?: number): Promise<number> {
+  const pending = getModerationStore().list().filter(submission => hasPermission(userId, 'moderate', submission.playlist));
+  if (pending.length === 0) {
+    await sendMessage(botToken, chatId, '🛂 No submissions are waiting for review.');
+    return 0;
+  }
+
+  for (const submission of pending) {
+    await sendReviewMessage(botToken, chatId, submission);
+  }
+  return pending.length;
+}
+
+/**
+ * The submitter behind a review message, for moderators replying to it with /ban or /mute
+ * Decided submissions are gone from the store, but their review text still names the submitter
+ */
+export function getSubmitterFromReview(chatId: number, review: TelegramMessage): number | undefined {
+  if (!review.from?.is_bot) return undefined;
+
+  const submission = getModerationStore().list().find(pending =>
+    pending.adminMessages.some(message => message.chatId === chatId && message.messageId === review.message_id)
+  );
+  if (submission) return submission.userId;
+
+  const match = review.text?.match(/^From: (?:user |@\S+ \(ID )(\d+)/m);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Replace the review messages (dropping their buttons unless given new ones)
+ */
+async function updateReviewMessages(botToken: string, submission: PendingSubmission, text: string, replyMarkup?: any): Promise<void> {
+  for (const { chatId, messageId } of submission.adminMessages) {
+    try {
+      await editMessageText(botToken, chatId, messageId, text, replyMarkup);
+    } catch (error: any) {
+      log.warn('Failed to update review message', { error: error.message });
+    }
+  }
+}
+
+/**
+ * Publish the submission's tracks and tell the submitter
+ */
+export async function approveSubmission(botToken: string, id: string, reviewer: Reviewer): Promise<ModerationResult> {
+  const store = getModerationStore();
+  const submission = store.get(id);
+  if (!submission) return { status: 'not_found' };
+  if (submission.status === 'approving') return { status: 'in_progress' };
+
+  store.update(id, { status: 'approving' });
+  const summary = formatPendingSubmission(submission);
+  await updateReviewMessages(botToken, submission, `${summary}\n\n⏳ Approving (${getReviewerName(reviewer)})...`);
+
+  try {
+    const results = await publishTracks(submission.tracks, submission.playlist);
+    const added = results.filter(result => !result.error);
+    if (added.length === 0) {
+      throw new Error(results[0]?.error || 'No tracks could be added.');
+    }
+    await recordPublishedTracks(submission.userId, submission.tracks, results);
+
+    await sendMessage(
+      botToken,
+      submission.chatId,
+      results.length === 1
+        ? `✅ Your song "${escapeMarkdown(added[0].title)}" was approved and added to the "${escapeMarkdown(submission.playlist)}" playlist!\n\nIt will be available on the site shortly.`
+        : `✅ Your submission was approved!\n\n${formatTrackSummary(results, submission.playlist)}`
+    ).catch(error => log.warn('Failed to notify submitter', { error: error.message }));
+
+    await updateReviewMessages(botToken, submission, `${summary}\n\n✅ Approved by ${getReviewerName(reviewer)}`);
+    await store.remove(id);
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId: reviewer.userId,
+      username: reviewer.username,
+      chatId: submission.chatId,
+      action: 'MODERATION_APPROVED',
+      details: { submissionId: id, playlist: submission.playlist, added: added.length, failed: results.length - added.length },
+      status: 'success',
+    });
+    return { status: 'approved' };
+  } catch (error: any) {
+    store.update(id, { status: 'pending' });
+    await updateReviewMessages(botToken, submission, `${summary}\n\n⚠️ Approval failed: ${escapeMarkdown(error.message)}`, getReviewButtons(id));
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId: reviewer.userId,
+      username: reviewer.username,
+      chatId: submission.chatId,
+      action: 'MODERATION_APPROVE_FAILED',
+      details: { submissionId: id, errorMessage: error.message },
+      status: 'error',
+      error: error.stack || error.message,
+    });
+    return { status: 'failed', error: error.message };
+  }
+}
+
+/**
+ * Discard the submission and tell the submitter
+ */
+export async function rejectSubmission(botToken: string, id: string, reviewer: Reviewer): Promise<ModerationResult> {
+  const store = getModerationStore();
+  const submission = store.get(id);
+  if (!submission) return { status: 'not_found' };
+  if (submission.status === 'approving') return { status: 'in_progress' };
+
+  await store.remove(id);
+
+  const titles = submission.tracks.map(track => `"${escapeMarkdown(track.title || track.fileName)}"`).join(', ');
+  await sendMessage(
+    botToken,
+    submission.chatId,
+    `❌ Sorry, ${titles} ${submission.tracks.length === 1 ? 'was' : 'were'} not approved for the "${escapeMarkdown(submission.playlist)}" playlist.`
+  ).catch(error => log.warn('Failed to notify submitter', { error: error.message }));
+
+  await updateReviewMessages(botToken, submission, `${formatPendingSubmission(submission)}\n\n❌ Rejected by ${getReviewerName(reviewer)}`);
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId: reviewer.userId,
+    username: reviewer.username,
+    chatId: submission.chatId,
+    action: 'MODERATION_REJECTED',
+    details: { submissionId: id, playlist: submission.playlist },
+    status: 'info',
+  });
+  return { status: 'rejected' };
+}
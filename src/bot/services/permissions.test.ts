@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RoleStore, grantsAllow, getRolePermissions, hasPermission, type RoleGrant } from './permissions';
+import { parseGrantArgs } from '../commands/roles';
+
+describe('permissions', () => {
+    const grant = (userId: number, role: RoleGrant['role'], playlist?: string): RoleGrant => ({ userId, role, playlist, grantedAt: 1 });
+
+    describe('getRolePermissions', () => {
+        it('gives each role everything the roles below it have', () => {
+            expect(getRolePermissions('contributor')).toEqual(['skip_moderation']);
+            expect(getRolePermissions('moderator')).toEqual(expect.arrayContaining(['moderate', 'manage_tracks', 'skip_moderation']));
+            expect(getRolePermissions('moderator')).not.toContain('manage_roles');
+            expect(getRolePermissions('owner')).toContain('manage_roles');
+        });
+    });
+
+    describe('grantsAllow', () => {
+        const grants = [grant(1, 'moderator'), grant(2, 'curator', 'Rock')];
+
+        it('applies everywhere-grants to every playlist', () => {
+            expect(grantsAllow(grants, 1, 'delete_songs')).toBe(true);
+            expect(grantsAllow(grants, 1, 'delete_songs', 'Rock')).toBe(true);
+            expect(grantsAllow(grants, 1, 'manage_playlists')).toBe(false);
+        });
+
+        it('limits playlist grants to their playlist', () => {
+            expect(grantsAllow(grants, 2, 'add_to_any_playlist', 'Rock')).toBe(true);
+            expect(grantsAllow(grants, 2, 'add_to_any_playlist', 'Jazz')).toBe(false);
+            expect(grantsAllow(grants, 2, 'add_to_any_playlist')).toBe(false);
+        });
+
+        it('denies users without grants', () => {
+            expect(grantsAllow(grants, 3, 'skip_moderation', 'Rock')).toBe(false);
+        });
+    });
+
+    describe('RoleStore', () => {
+        it('grants, revokes and follows playlist renames', () => {
+            const store = new RoleStore();
+            expect(store.grant({ userId: 5, role: 'curator', playlist: 'Rock' })).toBe(true);
+            expect(store.grant({ userId: 5, role: 'curator', playlist: 'Rock' })).toBe(false);
+
+            store.renamePlaylist('Rock', 'Stone');
+            expect(store.list()).toMatchObject([{ userId: 5, role: 'curator', playlist: 'Stone' }]);
+
+            expect(store.revoke({ userId: 5, role: 'curator', playlist: 'Rock' })).toBe(false);
+            expect(store.revoke({ userId: 5, role: 'curator', playlist: 'Stone' })).toBe(true);
+            expect(store.list()).toEqual([]);
+        });
+    });
+
+    describe('hasPermission', () => {
+        afterEach(() => {
+            vi.unstubAllEnvs();
+        });
+
+        it('makes TELEGRAM_ADMIN_IDS users owners', () => {
+            vi.stubEnv('BOT_SESSION_STORE', 'memory'); // Keep the role store off disk
+            vi.stubEnv('TELEGRAM_ADMIN_IDS', '42, 43');
+            expect(hasPermission(43, 'manage_roles')).toBe(true);
+            expect(hasPermission(44, 'manage_roles')).toBe(false);
+            expect(hasPermission(undefined, 'skip_moderation')).toBe(false);
+        });
+    });
+
+    describe('parseGrantArgs', () => {
+        it('reads a user ID, role and optional playlist', () => {
+            expect(parseGrantArgs('12 curator Deep House')).toEqual({ userId: 12, role: 'curator', playlist: 'Deep House' });
+            expect(parseGrantArgs('12 moderator')).toEqual({ userId: 12, role: 'moderator' });
+        });
+
+        it('rejects bad input', () => {
+            expect(parseGrantArgs('bob curator')).toMatch(/user ID/);
+            expect(parseGrantArgs('12 admin')).toMatch(/Unknown role/);
+            expect(parseGrantArgs('12 owner Rock')).toMatch(/Owners/);
+        });
+    });
+});
@@ -0,0 +1,201 @@
+/**
+ * Roles and permissions
+ * Users hold roles, either everywhere or for one playlist. Owners come from TELEGRAM_ADMIN_IDS;
+ * other grants are made by owners from the bot and persisted
+ */
+
+import { getAdminIds } from '../../utils/telegram-bot';
+import { getBotDataPath } from '../utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+
+export type Role = 'owner' | 'moderator' | 'curator' | 'contributor';
+
+export type Permission =
+  | 'manage_roles' // Grant and revoke roles
+  | 'manage_playlists' // Create, rename, delete and reorder playlists
+  | 'bot_settings' // Moderation switch, /maxtracks
+  | 'moderate' // Review pending submissions, add duplicates anyway
+  | 'ban_users' // Ban and mute users
+  | 'delete_songs' // Delete songs, browse and restore the trash
+  | 'manage_tracks' // Move, copy and rename songs
+  | 'add_to_any_playlist' // Add songs outside the community playlist
+  | 'restricted_menu' // Open the Restricted Access menu
+  | 'skip_moderation'; // Submissions are published without review
+
+/**
+ * Roles from most to least powerful; each role has everything the roles below it have
+ */
+export const ROLES: Role[] = ['owner', 'moderator', 'curator', 'contributor'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ['manage_roles', 'manage_playlists', 'bot_settings'],
+  moderator: ['moderate', 'delete_songs', 'ban_users'],
+  curator: ['manage_tracks', 'add_to_any_playlist', 'restricted_menu'],
+  contributor: ['skip_moderation'],
+};
+
+export interface RoleGrant {
+  userId: number;
+  role: Role;
+  playlist?: string; // Limits the role to one playlist; omitted for everywhere
+  grantedBy?: number;
+  grantedAt: number;
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as string[]).includes(value);
+}
+
+/**
+ * Everything a role allows, including what the roles below it allow
+ */
+export function getRolePermissions(role: Role): Permission[] {
+  return ROLES.slice(ROLES.indexOf(role)).flatMap(other => ROLE_PERMISSIONS[other]);
+}
+
+/**
+ * Check a permission against a set of grants
+ * Without a playlist only grants that apply everywhere count; with one, grants for that playlist count too
+ */
+export function grantsAllow(grants: RoleGrant[], userId: number, permission: Permission, playlist?: string): boolean {
+  return grants.some(grant =>
+    grant.userId === userId &&
+    (grant.playlist === undefined || grant.playlist === playlist) &&
+    getRolePermissions(grant.role).includes(permission)
+  );
+}
+
+function isSameGrant(a: Pick<RoleGrant, 'userId' | 'role' | 'playlist'>, b: Pick<RoleGrant, 'userId' | 'role' | 'playlist'>): boolean {
+  return a.userId === b.userId && a.role === b.role && a.playlist === b.playlist;
+}
+
+export class RoleStore {
+  private grants: RoleGrant[];
+  private filePath?: string;
+
+  /**
+   * @param filePath JSON file to persist grants in (omit to keep them in memory only)
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.grants = filePath ? readJsonFile<RoleGrant[]>(filePath, []) : [];
+  }
+
+  list(): RoleGrant[] {
+    return [...this.grants];
+  }
+
+  /**
+   * @returns false if the user already had the grant
+   */
+  grant(grant: Omit<RoleGrant, 'grantedAt'>): boolean {
+    if (this.grants.some(existing => isSameGrant(existing, grant))) return false;
+    this.grants.push({ ...grant, grantedAt: Date.now() });
+    this.persist();
+    return true;
+  }
+
+  /**
+   * @returns false if there was no such grant
+   */
+  revoke(grant: Pick<RoleGrant, 'userId' | 'role' | 'playlist'>): boolean {
+    const remaining = this.grants.filter(existing => !isSameGrant(existing, grant));
+    if (remaining.length === this.grants.length) return false;
+    this.grants = remaining;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Follow a playlist rename so its grants keep applying
+   */
+  renamePlaylist(from: string, to: string): void {
+    if (!this.grants.some(grant => grant.playlist === from)) return;
+    this.grants = this.grants.map(grant => grant.playlist === from ? { ...grant, playlist: to } : grant);
+    this.persist();
+  }
+
+  private persist(): void {
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.grants);
+    }
+  }
+}
+
+let storeInstance: RoleStore | null = null;
+
+export function getRoleStore(): RoleStore {
+  if (!storeInstance) {
+    storeInstance = new RoleStore(
+      process.env.BOT_SESSION_STORE === 'memory' ? undefined : getBotDataPath('roles.json')
+    );
+  }
+  return storeInstance;
+}
+
+let bootstrapGrants: RoleGrant[] | null = null;
+
+/**
+ * An everywhere-owner grant for each TELEGRAM_ADMIN_IDS entry (built once, like the role store)
+ */
+function getBootstrapGrants(): RoleGrant[] {
+  if (!bootstrapGrants) {
+    bootstrapGrants = getAdminIds().map((userId): RoleGrant => ({ userId, role: 'owner', grantedAt: 0 }));
+  }
+  return bootstrapGrants;
+}
+
+/**
+ * Persisted grants plus the bootstrap owners
+ */
+export function getAllGrants(): RoleGrant[] {
+  return [...getBootstrapGrants(), ...getRoleStore().list()];
+}
+
+/**
+ * Whether a user holds a permission (see grantsAllow for how playlists are matched)
+ */
+export function hasPermission(userId: number | undefined, permission: Permission, playlist?: string): boolean {
+  return userId !== undefined && grantsAllow(getAllGrants(), userId, permission, playlist);
+}
+
+/**
+ * Whether a user holds a permission everywhere or for at least one playlist
+ * (for showing menus whose entries are checked again per playlist)
+ */
+export function hasPermissionAnywhere(userId: number | undefined, permission: Permission): boolean {
+  if (userId === undefined) return false;
+  return getAllGrants().some(grant => grant.userId === userId && getRolePermissions(grant.role).includes(permission));
+}
+
+/**
+ * Users to notify for a permission (e.g. moderators for a new submission)
+ */
+export function getUsersWithPermission(permission: Permission, playlist?: string): number[] {
+  const grants = getAllGrants();
+  return [...new Set(grants.map(grant => grant.userId))].filter(userId => grantsAllow(grants, userId, permission, playlist));
+}
+
+/**
+ * A user's most powerful role that applies to a playlist (or everywhere when no playlist is given)
+ */
+export function getHighestRole(userId: number, playlist?: string): Role | undefined {
+  const roles = getAllGrants()
+    .filter(grant => grant.userId === userId && (grant.playlist === undefined || grant.playlist === playlist))
+    .map(grant => grant.role);
+  return ROLES.find(role => roles.includes(role));
+}
+
+/**
+ * Whether a user holds any role (staff can't be banned or muted)
+ */
+export function hasAnyRole(userId: number): boolean {
+  return getAllGrants().some(grant => grant.userId === userId);
+}
+
+/**
+ * Bootstrap owners can only be changed through TELEGRAM_ADMIN_IDS
+ */
+export function isBootstrapOwner(userId: number): boolean {
+  return getAdminIds().includes(userId);
+}
@@ -0,0 +1,197 @@
+/**
+ * Playlist management menus (admin only)
+ * Create, rename, delete and reorder playlists from the Restricted Access menu
+ */
+
+import { sendMessage, createInlineKeyboard } from '../../utils/telegram-bot';
+import { AppError } from '../../types/errors';
+import { listPlaylistFolders, createPlaylist, renamePlaylist, deletePlaylist, movePlaylist } from './playlist-folders';
+import { sessionManager } from '../session/session';
+import { buildPaginatedKeyboard, showMenuMessage } from '../utils/paginated-keyboard';
+import { callbackButton } from '../utils/callback-data';
+import { logBotActivity } from '../utils/logger';
+import { KEYBOARD_PAGE_SIZE } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export interface PlaylistAdminConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+type PlaylistOperation = 'create' | 'rename' | 'delete' | 'move';
+
+/**
+ * Run a playlist change, logging it and telling the admin if it failed
+ * @returns false if the change failed
+ */
+async function runOperation(
+  config: PlaylistAdminConfig,
+  operation: PlaylistOperation,
+  details: Record<string, unknown>,
+  change: () => Promise<unknown>
+): Promise<boolean> {
+  const { botToken, chatId, userId, username } = config;
+
+  try {
+    await change();
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'PLAYLIST_' + operation.toUpperCase(),
+      details,
+      status: 'success',
+    });
+    return true;
+  } catch (error: any) {
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: `PLAYLIST_${operation.toUpperCase()}_FAILED`,
+      details: { ...details, errorMessage: error.message },
+      status: 'error',
+      error: error.stack || error.message,
+    });
+    // Validation problems are worded for the admin; anything else is a server problem
+    const message = error instanceof AppError ? error.message : `Failed to update playlists: ${error.message}`;
+    await sendMessage(botToken, chatId, `❌ ${message}`);
+    return false;
+  }
+}
+
+/**
+ * Playlist list in display order
+ */
+export async function showPlaylistAdmin(config: PlaylistAdminConfig, messageId?: number, page: number = 0): Promise<void> {
+  const { botToken, chatId } = config;
+
+  let names: string[];
+  try {
+    names = await listPlaylistFolders();
+  } catch (error: any) {
+    log.error('Error listing playlist folders', { error });
+    await sendMessage(botToken, chatId, '❌ Error loading playlists. Please try again later.');
+    return;
+  }
+
+  const { keyboard } = buildPaginatedKeyboard({
+    items: names,
+    page,
+    renderItem: (name, index) => [callbackButton(`${index + 1}. 📁 ${name}`, 'playlist_admin_open', { playlistName: name })],
+    pageButton: (target, text) => callbackButton(text, 'playlist_admin', { page: target }),
+    footer: [
+      [callbackButton('➕ New Playlist', 'playlist_create')],
+      [callbackButton('⬅️ Back', 'restricted_access')],
+    ],
+  });
+
+  const text = names.length === 0
+    ? '📁 **Manage Playlists**\n\nThere are no playlists yet.'
+    : '📁 **Manage Playlists**\n\nPlaylists appear in this order on the site. Tap one to move, rename or delete it.';
+  await showMenuMessage(botToken, chatId, text, keyboard, messageId);
+}
+
+/**
+ * Options for one playlist
+ */
+export async function showPlaylistOptions(config: PlaylistAdminConfig, playlistName: string, messageId?: number): Promise<void> {
+  const { botToken, chatId } = config;
+
+  let names: string[];
+  try {
+    names = await listPlaylistFolders();
+  } catch (error: any) {
+    log.error('Error listing playlist folders', { error });
+    await sendMessage(botToken, chatId, '❌ Error loading playlists. Please try again later.');
+    return;
+  }
+
+  const position = names.indexOf(playlistName);
+  if (position === -1) {
+    await sendMessage(botToken, chatId, `❌ Playlist "${playlistName}" no longer exists.`);
+    await showPlaylistAdmin(config);
+    return;
+  }
+
+  const moveButtons = [
+    ...(position > 0 ? [callbackButton('⬆️ Move up', 'playlist_move', { playlistName, offset: -1 })] : []),
+    ...(position < names.length - 1 ? [callbackButton('⬇️ Move down', 'playlist_move', { playlistName, offset: 1 })] : []),
+  ];
+  const keyboard = createInlineKeyboard([
+    ...(moveButtons.length > 0 ? [moveButtons] : []),
+    [callbackButton('✏️ Rename', 'playlist_rename', { playlistName })],
+    [callbackButton('🗑️ Delete', 'playlist_delete', { playlistName })],
+    [callbackButton('⬅️ Back to Playlists', 'playlist_admin', { page: Math.floor(position / KEYBOARD_PAGE_SIZE) })],
+  ]);
+
+  await showMenuMessage(botToken, chatId, `📁 **${playlistName}**\n\nPosition ${position + 1} of ${names.length}`, keyboard, messageId);
+}
+
+/**
+ * Ask for a new playlist's name (answered through handlePlaylistNameInput)
+ */
+export async function promptNewPlaylist(config: PlaylistAdminConfig, messageId?: number): Promise<void> {
+  sessionManager.set(config.chatId, { type: 'waiting_for_playlist_name' });
+  const keyboard = createInlineKeyboard([[callbackButton('❌ Cancel', 'playlist_admin', { page: 0 })]]);
+  await showMenuMessage(config.botToken, config.chatId, '✏️ Send the name for the new playlist (letters, numbers, spaces, "-" and "_").', keyboard, messageId);
+}
+
+/**
+ * Ask for a playlist's new name (answered through handlePlaylistNameInput)
+ */
+export async function promptRenamePlaylist(config: PlaylistAdminConfig, playlistName: string, messageId?: number): Promise<void> {
+  sessionManager.set(config.chatId, { type: 'waiting_for_playlist_rename', playlistName });
+  const keyboard = createInlineKeyboard([[callbackButton('❌ Cancel', 'playlist_admin_open', { playlistName })]]);
+  await showMenuMessage(config.botToken, config.chatId, `✏️ Send the new name for "${playlistName}".`, keyboard, messageId);
+}
+
+/**
+ * Create or rename a playlist with the name the admin typed
+ */
+export async function handlePlaylistNameInput(config: PlaylistAdminConfig, text: string): Promise<void> {
+  const session = sessionManager.get(config.chatId);
+  const name = text.trim();
+  sessionManager.delete(config.chatId);
+
+  if (session?.type === 'waiting_for_playlist_rename' && session.playlistName) {
+    const from = session.playlistName;
+    if (await runOperation(config, 'rename', { from, to: name }, () => renamePlaylist(from, name))) {
+      await sendMessage(config.botToken, config.chatId, `✅ Renamed "${from}" to "${name}".`);
+      await showPlaylistOptions(config, name);
+    }
+    return;
+  }
+
+  if (await runOperation(config, 'create', { playlist: name }, () => createPlaylist(name))) {
+    await sendMessage(config.botToken, config.chatId, `✅ Created the "${name}" playlist.`);
+    await showPlaylistAdmin(config);
+  }
+}
+
+export async function confirmDeletePlaylist(config: PlaylistAdminConfig, playlistName: string, messageId?: number): Promise<void> {
+  const keyboard = createInlineKeyboard([
+    [callbackButton('✅ Yes, delete', 'playlist_delete_confirm', { playlistName })],
+    [callbackButton('❌ Cancel', 'playlist_admin_open', { playlistName })],
+  ]);
+  await showMenuMessage(config.botToken, config.chatId, `⚠️ **Delete the "${playlistName}" playlist?**\n\nOnly empty playlists can be deleted.`, keyboard, messageId);
+}
+
+export async function deletePlaylistFolder(config: PlaylistAdminConfig, playlistName: string, messageId?: number): Promise<void> {
+  if (await runOperation(config, 'delete', { playlist: playlistName }, () => deletePlaylist(playlistName))) {
+    await sendMessage(config.botToken, config.chatId, `🗑️ Deleted the "${playlistName}" playlist.`);
+    await showPlaylistAdmin(config, messageId);
+  }
+}
+
+export async function movePlaylistFolder(config: PlaylistAdminConfig, playlistName: string, offset: number, messageId?: number): Promise<void> {
+  if (await runOperation(config, 'move', { playlist: playlistName, offset }, () => movePlaylist(playlistName, offset))) {
+    await showPlaylistOptions(config, playlistName, messageId);
+  }
+}
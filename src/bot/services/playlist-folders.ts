@@ -0,0 +1,205 @@
+/**
+ * Playlist folders
+ * Creates, renames, deletes and reorders the playlist folders on the storage backend (and their
+ * local copies). The display order lives in the playlist manifest next to the folders
+ */
+
+import { mkdir, rename, rmdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  listOnDreamhost,
+  createDirOnDreamhost,
+  removeEmptyDirOnDreamhost,
+  moveOnDreamhost,
+  readFromDreamhost,
+  uploadToDreamhost,
+} from '../../utils/upload-to-dreamhost';
+import {
+  parsePlaylistManifest,
+  orderPlaylistNames,
+  syncPlaylistManifest,
+  movePlaylistInManifest,
+  renamePlaylistInManifest,
+  removePlaylistFromManifest,
+  type PlaylistManifest,
+} from '../../utils/playlist-manifest';
+import { validatePlaylistName, clearPlaylistCache } from '../../utils/telegram-bot';
+import { ValidationError } from '../../types/errors';
+import { getStorage } from '../utils/storage';
+import { refreshPlaylists } from './track-publisher';
+import { renamePlaylistInTrackIndex } from './track-index';
+import { renamePlaylistInTrash } from './trash';
+import { getRoleStore } from './permissions';
+import { COMMUNITY_PLAYLIST, PLAYLIST_MANIFEST_FILE } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('storage');
+
+function getLocalMusicDir(): string {
+  return join(process.cwd(), 'public', 'music');
+}
+
+async function loadManifest(): Promise<PlaylistManifest | null> {
+  const { basePath, options } = getStorage();
+  const contents = await readFromDreamhost(`${basePath}/${PLAYLIST_MANIFEST_FILE}`, options);
+  return parsePlaylistManifest(contents?.toString('utf-8'));
+}
+
+/**
+ * Write the manifest to the storage backend, plus a local copy so generate-playlists
+ * orders the local library the same way
+ */
+async function saveManifest(manifest: PlaylistManifest): Promise<void> {
+  const { basePath, options } = getStorage();
+  const json = JSON.stringify(manifest, null, 2);
+  await uploadToDreamhost(Buffer.from(json), PLAYLIST_MANIFEST_FILE, { ...options, remotePath: basePath });
+
+  try {
+    await mkdir(getLocalMusicDir(), { recursive: true });
+    await writeFile(join(getLocalMusicDir(), PLAYLIST_MANIFEST_FILE), json);
+  } catch (error: any) {
+    log.warn('Failed to write local playlist manifest', { error: error.message });
+  }
+}
+
+/**
+ * Regenerate playlists so the bot and the site pick up the change
+ */
+async function publishChanges(): Promise<void> {
+  await refreshPlaylists();
+  clearPlaylistCache();
+}
+
+/**
+ * Playlist folders and the current manifest (synced to the folders that actually exist)
+ */
+async function loadFolders(): Promise<{ names: string[]; manifest: PlaylistManifest }> {
+  const { basePath, options } = getStorage();
+  const entries = await listOnDreamhost(basePath, options);
+  const folders = entries
+    .filter(entry => entry.isDirectory && !entry.name.startsWith('.')) // Hidden folders like .trash aren't playlists
+    .map(entry => entry.name);
+
+  const manifest = syncPlaylistManifest(folders, await loadManifest());
+  return { names: manifest.order, manifest };
+}
+
+function findFolder(names: string[], name: string): string | undefined {
+  return names.find(other => other.toLowerCase() === name.toLowerCase());
+}
+
+function requireValidName(name: string): void {
+  if (!validatePlaylistName(name)) {
+    throw new ValidationError('Playlist names can only contain letters, numbers, spaces, "-" and "_" (up to 100 characters).');
+  }
+}
+
+function requireExisting(names: string[], name: string): void {
+  if (!names.includes(name)) {
+    throw new ValidationError(`Playlist "${name}" no longer exists.`);
+  }
+}
+
+function requireNotCommunity(name: string): void {
+  if (name === COMMUNITY_PLAYLIST) {
+    throw new ValidationError(`The "${COMMUNITY_PLAYLIST}" playlist receives community submissions and can't be renamed or deleted.`);
+  }
+}
+
+/**
+ * Playlist folder names in display order
+ */
+export async function listPlaylistFolders(): Promise<string[]> {
+  return (await loadFolders()).names;
+}
+
+/**
+ * Create an empty playlist at the end of the order
+ */
+export async function createPlaylist(name: string): Promise<void> {
+  requireValidName(name);
+  const { names, manifest } = await loadFolders();
+  const existing = findFolder(names, name);
+  if (existing) {
+    throw new ValidationError(`A playlist called "${existing}" already exists.`);
+  }
+
+  const { basePath, options } = getStorage();
+  await createDirOnDreamhost(`${basePath}/${name}`, options);
+  await mkdir(join(getLocalMusicDir(), name), { recursive: true }).catch(() => { });
+
+  await saveManifest({ order: [...manifest.order, name] });
+  await publishChanges();
+}
+
+/**
+ * Rename a playlist folder, keeping its position in the order
+ */
+export async function renamePlaylist(from: string, to: string): Promise<void> {
+  requireValidName(to);
+  requireNotCommunity(from);
+  const { names, manifest } = await loadFolders();
+  requireExisting(names, from);
+
+  const existing = findFolder(names.filter(name => name !== from), to);
+  if (existing) {
+    throw new ValidationError(`A playlist called "${existing}" already exists.`);
+  }
+  if (to === from) return;
+
+  const { basePath, options } = getStorage();
+  await moveOnDreamhost(`${basePath}/${from}`, `${basePath}/${to}`, options);
+
+  try {
+    await rename(join(getLocalMusicDir(), from), join(getLocalMusicDir(), to));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') log.warn('Failed to rename local playlist folder', { error: error.message });
+  }
+
+  await saveManifest(renamePlaylistInManifest(manifest, from, to));
+  renamePlaylistInTrackIndex(from, to);
+  renamePlaylistInTrash(from, to);
+  getRoleStore().renamePlaylist(from, to);
+  await publishChanges();
+}
+
+/**
+ * Delete a playlist folder - only when it holds no files
+ */
+export async function deletePlaylist(name: string): Promise<void> {
+  requireNotCommunity(name);
+  const { names, manifest } = await loadFolders();
+  requireExisting(names, name);
+
+  const { basePath, options } = getStorage();
+  const contents = await listOnDreamhost(`${basePath}/${name}`, options);
+  if (contents.length > 0) {
+    throw new ValidationError(`"${name}" still has ${contents.length} item${contents.length !== 1 ? 's' : ''} in it. Move or delete its songs first.`);
+  }
+
+  await removeEmptyDirOnDreamhost(`${basePath}/${name}`, options);
+  try {
+    await rmdir(join(getLocalMusicDir(), name));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') log.warn('Failed to remove local playlist folder', { error: error.message });
+  }
+
+  await saveManifest(removePlaylistFromManifest(manifest, name));
+  await publishChanges();
+}
+
+/**
+ * Move a playlist up (negative offset) or down in the display order
+ * @returns the new order
+ */
+export async function movePlaylist(name: string, offset: number): Promise<string[]> {
+  const { names, manifest } = await loadFolders();
+  requireExisting(names, name);
+
+  const moved = movePlaylistInManifest(manifest, name, offset);
+  if (moved.order.join('/') !== manifest.order.join('/')) {
+    await saveManifest(moved);
+    await publishChanges();
+  }
+  return orderPlaylistNames(names, moved);
+}
@@ -3,41 +3,80 @@
  * Handles displaying playlists and songs
  */
 
-import { sendMessage, deleteMessage, createInlineKeyboard, fetchPlaylists, validatePlaylistName, isAdmin } from '../../utils/telegram-bot';
-import { MAX_BUTTONS_PER_MESSAGE, MAX_TRACK_NAME_LENGTH, TRACK_NAME_TRUNCATE_LENGTH, DEFAULT_SITE_URL } from '../../constants';
+import { sendMessage, createInlineKeyboard, fetchPlaylists, clearPlaylistCache, validatePlaylistName, escapeMarkdown } from '../../utils/telegram-bot';
+import { getTrackId, getTrackLink } from '../../utils/tracks';
+import { callbackButton, type InlineButton } from '../utils/callback-data';
+import { buildPaginatedKeyboard, paginate, paginationRow, showMenuMessage } from '../utils/paginated-keyboard';
+import { KEYBOARD_PAGE_SIZE, MAX_TRACK_NAME_LENGTH, TRACK_NAME_TRUNCATE_LENGTH, TRACK_LIST_PAGE_SIZE, DEFAULT_SITE_URL } from '../../constants';
 import { logBotActivity } from '../utils/logger';
+import { hasPermission } from './permissions';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
 
 export interface PlaylistServiceConfig {
   botToken: string;
   chatId: number;
   userId?: number;
   username?: string;
-  isAdminUser?: boolean;
 }
 
+export interface TrackLookup {
+  playlistName: string;
+  track: any;
+  fileName: string; // File name without the playlist path
+}
+
+/**
+ * A track's stable ID (derived for playlist data generated before tracks had IDs)
+ */
+export function getIdOfTrack(playlistName: string, track: any): string {
+  return track.id || getTrackId(playlistName, track.fileName);
+}
+
+/**
+ * Find a track by its stable ID across all playlists
+ * @param fresh Bypass the playlist cache (for confirming destructive actions)
+ */
+export async function findTrackById(trackId: string, fresh: boolean = false): Promise<TrackLookup | null> {
+  if (fresh) {
+    clearPlaylistCache();
+  }
+
+  const siteUrl = process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL;
+  const playlists = await fetchPlaylists(siteUrl);
+  for (const playlist of playlists) {
+    for (const track of playlist.tracks || []) {
+      if (track.fileName && getIdOfTrack(playlist.name, track) === trackId) {
+        return { playlistName: playlist.name, track, fileName: track.fileName.split('/').pop() || '' };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Playlist picker, edited in place when a message ID is given
+ * @param adding Pick a playlist to add a song to (only playlists the user may add to are listed)
+ */
 export async function showPlaylists(
   config: PlaylistServiceConfig,
   messageId?: number,
-  deletePrevious: boolean = true
+  page: number = 0,
+  adding: boolean = false
 ): Promise<void> {
-  const { botToken, chatId, userId, username, isAdminUser = false } = config;
+  const { botToken, chatId, userId, username } = config;
 
   try {
-    // Delete previous message if requested
-    if (deletePrevious && messageId) {
-      try {
-        await deleteMessage(botToken, chatId, messageId);
-      } catch (error) {
-        // Ignore errors - message might already be deleted or not exist
-      }
-    }
-
     const siteUrl = process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL;
-    const playlists = await fetchPlaylists(siteUrl);
+    const allPlaylists = await fetchPlaylists(siteUrl);
+    const playlists = adding
+      ? allPlaylists.filter(playlist => hasPermission(userId, 'add_to_any_playlist', playlist.name))
+      : allPlaylists;
 
     if (playlists.length === 0) {
-      console.error(`[bot] No playlists found. Site URL: ${siteUrl}, Playlists array length: ${playlists.length}`);
-      await sendMessage(botToken, chatId, '📋 No playlists found. The playlists may still be loading. Please try again in a moment.');
+      log.error('No playlists found', { siteUrl, playlists: playlists.length });
+      await showMenuMessage(botToken, chatId, '📋 No playlists found. The playlists may still be loading. Please try again in a moment.', undefined, messageId);
       return;
     }
 
@@ -47,51 +86,52 @@ export async function showPlaylists(
       username,
       chatId,
       action: 'VIEW_PLAYLISTS',
-      details: { playlistCount: playlists.length, isAdmin: isAdminUser },
+      details: { playlistCount: playlists.length, page, adding },
       status: 'info',
     });
 
-    const buttons: Array<Array<{ text: string; callback_data: string }>> = [];
-    const maxButtons = Math.min(playlists.length, MAX_BUTTONS_PER_MESSAGE);
-    for (let i = 0; i < maxButtons; i++) {
-      const playlist = playlists[i];
-      const trackCount = playlist.tracks?.length || 0;
-      const encodedPlaylistName = encodeURIComponent(playlist.name);
-      buttons.push([{
-        text: `📁 ${playlist.name} (${trackCount} tracks)`,
-        callback_data: `playlist_${encodedPlaylistName}`
-      }]);
-    }
-
-    buttons.push([{ text: '🏠 Back to Main Menu', callback_data: 'back_to_main' }]);
-    const keyboard = createInlineKeyboard(buttons);
-    const text = '📋 Select a playlist to view songs:';
+    const { keyboard } = buildPaginatedKeyboard({
+      items: playlists,
+      page,
+      renderItem: (playlist: any) => [
+        adding
+          ? callbackButton(`📁 ${playlist.name} (${playlist.tracks?.length || 0} tracks)`, 'add_to_playlist', { playlistName: playlist.name })
+          : callbackButton(`📁 ${playlist.name} (${playlist.tracks?.length || 0} tracks)`, 'playlist', { playlistName: playlist.name }),
+      ],
+      pageButton: (target, text) => callbackButton(text, 'playlists_page', { page: target, ...(adding && { adding }) }),
+      footer: [[callbackButton('🏠 Back to Main Menu', 'back_to_main')]],
+    });
 
-    await sendMessage(botToken, chatId, text, keyboard);
+    await showMenuMessage(botToken, chatId, adding ? '➕ Select a playlist to add a song to:' : '📋 Select a playlist to view songs:', keyboard, messageId);
   } catch (error: any) {
-    console.error('Error showing playlists:', error);
+    log.error('Error showing playlists', { error });
     await sendMessage(botToken, chatId, '❌ Error loading playlists. Please try again later.');
   }
 }
 
+function getDisplayName(track: any): string {
+  const trackName: string = track.trackName || track.fileName?.split('/').pop() || 'Unknown';
+  return trackName.length > MAX_TRACK_NAME_LENGTH
+    ? trackName.substring(0, TRACK_NAME_TRUNCATE_LENGTH) + '...'
+    : trackName;
+}
+
+/**
+ * One page of a playlist's songs: a plain list, or buttons opening each song's card for users who may
+ * delete, move, copy or rename the playlist's songs
+ */
 export async function showPlaylistSongs(
   config: PlaylistServiceConfig,
   playlistName: string,
   messageId?: number,
-  deletePrevious: boolean = true
+  page: number = 0
 ): Promise<void> {
-  const { botToken, chatId, userId, username, isAdminUser = false } = config;
+  const { botToken, chatId, userId, username } = config;
+  const canDelete = hasPermission(userId, 'delete_songs', playlistName);
+  const canManage = hasPermission(userId, 'manage_tracks', playlistName);
+  const backButton = [callbackButton('⬅️ Back to Playlists', 'back_to_playlists')];
 
   try {
-    // Delete previous message if requested
-    if (deletePrevious && messageId) {
-      try {
-        await deleteMessage(botToken, chatId, messageId);
-      } catch (error) {
-        // Ignore errors
-      }
-    }
-
     if (!validatePlaylistName(playlistName)) {
       await sendMessage(botToken, chatId, '❌ Invalid playlist name.');
       return;
@@ -102,7 +142,7 @@ export async function showPlaylistSongs(
     const playlist = playlists.find(p => p.name === playlistName);
 
     if (!playlist || !playlist.tracks || playlist.tracks.length === 0) {
-      await sendMessage(botToken, chatId, `📁 Playlist "${playlistName}" is empty.`);
+      await showMenuMessage(botToken, chatId, `📁 Playlist "${playlistName}" is empty.`, createInlineKeyboard([backButton]), messageId);
       return;
     }
 
@@ -112,81 +152,104 @@ export async function showPlaylistSongs(
       username,
       chatId,
       action: 'VIEW_PLAYLIST_SONGS',
-      details: { playlist: playlistName, trackCount: playlist.tracks.length, isAdmin: isAdminUser },
+      details: { playlist: playlistName, trackCount: playlist.tracks.length, page, canDelete, canManage },
       status: 'info',
     });
 
     const tracks = playlist.tracks;
-    
-    // For non-admins, show tracks as text output
-    if (!isAdminUser) {
-      const header = `📁 **${playlistName}**\n\n🎵 ${tracks.length} track${tracks.length !== 1 ? 's' : ''}\n\n`;
-      const maxMessageLength = 4000; // Telegram limit is 4096, leave some buffer
-      
-      let tracksText = header;
-      const trackLines: string[] = [];
-      
-      tracks.forEach((track: any, index: number) => {
-        const trackNumber = track.trackNumber || (index + 1);
-        const trackName = track.trackName || track.fileName?.split('/').pop() || 'Unknown';
-        trackLines.push(`${trackNumber}. ${trackName}`);
-      });
-      
-      // Build message(s), splitting if too long
-      let currentMessage = header;
-      const messages: string[] = [];
-      
-      for (const line of trackLines) {
-        const testMessage = currentMessage + line + '\n';
-        if (testMessage.length > maxMessageLength) {
-          // Save current message and start new one
-          messages.push(currentMessage.trim());
-          currentMessage = line + '\n';
-        } else {
-          currentMessage = testMessage;
-        }
-      }
-      
-      // Add final message
-      if (currentMessage.trim().length > header.length) {
-        messages.push(currentMessage.trim());
-      }
-      
-      // Send all messages, only last one gets the back button
-      for (let i = 0; i < messages.length; i++) {
-        const isLast = i === messages.length - 1;
-        const buttons = isLast ? [[{ text: '⬅️ Back to Playlists', callback_data: 'back_to_playlists' }]] : undefined;
-        const keyboard = buttons ? createInlineKeyboard(buttons) : undefined;
-        await sendMessage(botToken, chatId, messages[i], keyboard);
+    const header = `📁 **${escapeMarkdown(playlistName)}**\n\n🎵 ${tracks.length} track${tracks.length !== 1 ? 's' : ''}`;
+    const pageButton = (target: number, text: string) => callbackButton(text, 'playlist_page', { playlistName, page: target });
+
+    // Without track admin permissions, show tracks as text output
+    if (!canDelete && !canManage) {
+      const current = paginate(tracks, page, TRACK_LIST_PAGE_SIZE);
+      const lines = current.items.map((track: any, index: number) =>
+        `${track.trackNumber || (current.start + index + 1)}. ${track.trackName || track.fileName?.split('/').pop() || 'Unknown'}`
+      );
+
+      const buttons: InlineButton[][] = [];
+      const navigation = paginationRow(current.page, current.totalPages, pageButton);
+      if (navigation.length > 0) {
+        buttons.push(navigation);
       }
+      buttons.push(backButton);
+
+      await showMenuMessage(botToken, chatId, `${header}\n\n${lines.join('\n')}`, createInlineKeyboard(buttons), messageId);
       return;
     }
-    
-    // For admins, show delete buttons
-    const buttons: Array<Array<{ text: string; callback_data: string }>> = [];
-    const maxButtons = Math.min(tracks.length, MAX_BUTTONS_PER_MESSAGE);
-    for (let i = 0; i < maxButtons; i++) {
-      const track = tracks[i];
-      const displayName = track.trackName.length > MAX_TRACK_NAME_LENGTH
-        ? track.trackName.substring(0, TRACK_NAME_TRUNCATE_LENGTH) + '...'
-        : track.trackName;
-
-      const encodedPlaylistName = encodeURIComponent(playlistName);
-      buttons.push([{
-        text: `🗑️ ${displayName}`,
-        callback_data: `delete_song_${encodedPlaylistName}_${i}`
-      }]);
-    }
 
-    buttons.push([{ text: '⬅️ Back to Playlists', callback_data: 'back_to_playlists' }]);
-    const keyboard = createInlineKeyboard(buttons);
-    const text = `📁 **${playlistName}**\n\n🎵 ${tracks.length} track${tracks.length !== 1 ? 's' : ''}\n\nTap a song to delete it.`;
+    // Track admins open each song's card, which has the delete, move, copy and rename actions
+    const { keyboard, page: current } = buildPaginatedKeyboard({
+      items: tracks,
+      page,
+      renderItem: (track: any, index) => [
+        callbackButton(`🎵 ${getDisplayName(track)}`, 'song_card', {
+          trackId: getIdOfTrack(playlistName, track),
+          page: Math.floor(index / KEYBOARD_PAGE_SIZE),
+        }),
+      ],
+      pageButton,
+      footer: [backButton],
+    });
 
-    await sendMessage(botToken, chatId, text, keyboard);
+    const pageInfo = current.totalPages > 1 ? ` (page ${current.page + 1} of ${current.totalPages})` : '';
+    await showMenuMessage(botToken, chatId, `${header}${pageInfo}\n\nTap a song to manage it.`, keyboard, messageId);
   } catch (error: any) {
-    console.error('Error showing playlist songs:', error);
+    log.error('Error showing playlist songs', { error });
     await sendMessage(botToken, chatId, '❌ Error loading playlist songs. Please try again later.');
   }
 }
 
+/**
+ * Song card with a web player link; users who manage the playlist's tracks also get move, copy and rename
+ * buttons, and users who may delete from it a delete button
+ * Edited in place when a message ID is given; listPage is the playlist page the card was opened from
+ */
+export async function showSongCard(config: PlaylistServiceConfig, trackId: string, messageId?: number, listPage?: number): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
 
+  try {
+    const found = await findTrackById(trackId);
+    if (!found) {
+      await sendMessage(botToken, chatId, '❌ Song not found. It may have been moved or deleted.');
+      return;
+    }
+    const { track, playlistName } = found;
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'VIEW_SONG',
+      details: { playlist: playlistName, trackName: track.trackName, trackId },
+      status: 'info',
+    });
+
+    const buttons: InlineButton[][] = [[callbackButton('▶️ Listen', 'listen', { trackId })]];
+    if (hasPermission(userId, 'manage_tracks', playlistName)) {
+      buttons.push([
+        callbackButton('🔀 Move', 'track_transfer_menu', { trackId, mode: 'move', page: 0 }),
+        callbackButton('📋 Copy', 'track_transfer_menu', { trackId, mode: 'copy', page: 0 }),
+        callbackButton('✏️ Rename', 'track_rename', { trackId }),
+      ]);
+    }
+    if (hasPermission(userId, 'delete_songs', playlistName)) {
+      buttons.push([callbackButton('🗑️ Delete', 'delete_song', { trackId, page: listPage ?? 0 })]);
+    }
+    if (listPage !== undefined) {
+      buttons.push([callbackButton(`⬅️ Back to ${playlistName}`, 'playlist_page', { playlistName, page: listPage })]);
+    }
+
+    const link = getTrackLink(process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL, trackId);
+    await showMenuMessage(
+      botToken,
+      chatId,
+      `🎵 **${escapeMarkdown(track.trackName)}**\n\n📁 Playlist: ${escapeMarkdown(playlistName)}\n🎵 Track #${track.trackNumber}\n\n🌐 ${link}`,
+      createInlineKeyboard(buttons),
+      messageId
+    );
+  } catch (error) {
+    log.error('Error viewing song', { error });
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { QuotaUsageStore, resolveQuotaLimits, getQuotaRemaining, addPendingUsage, getQuotaStatus, reserveQuota, releaseQuota, type QuotaSettings } from './quotas';
+import type { PublishableTrack } from './track-publisher';
+import { parseQuotaChange, applyQuotaChange } from '../commands/quota';
+
+describe('quotas', () => {
+    const HOUR = 60 * 60 * 1000;
+    const settings: QuotaSettings = {
+        default: { dailyTracks: 5, weeklyTracks: 20, totalMb: 100 },
+        roles: { curator: { dailyTracks: null } },
+        users: { '7': { totalMb: 10 } },
+    };
+
+    describe('resolveQuotaLimits', () => {
+        it('prefers user overrides, then the role, then the default', () => {
+            expect(resolveQuotaLimits(settings, 1)).toEqual({ dailyTracks: 5, weeklyTracks: 20, totalMb: 100 });
+            expect(resolveQuotaLimits(settings, 1, 'curator')).toEqual({ dailyTracks: null, weeklyTracks: 20, totalMb: 100 });
+            expect(resolveQuotaLimits(settings, 7, 'curator')).toEqual({ dailyTracks: null, weeklyTracks: 20, totalMb: 10 });
+        });
+    });
+
+    describe('QuotaUsageStore', () => {
+        it('counts tracks in rolling windows and bytes forever', () => {
+            const store = new QuotaUsageStore();
+            const now = Date.now();
+            store.record(1, 2, 1000, now - 30 * HOUR);
+            store.record(1, 3, 500, now - HOUR);
+
+            expect(store.get(1, undefined, now)).toEqual({ daily: 3, weekly: 5, totalBytes: 1500 });
+            expect(store.get(1, undefined, now + 8 * 24 * HOUR)).toEqual({ daily: 0, weekly: 0, totalBytes: 1500 });
+        });
+
+        it('reports when an exhausted window frees up', () => {
+            const store = new QuotaUsageStore();
+            const now = Date.now();
+            store.record(1, 5, 0, now - HOUR);
+
+            const limits = { dailyTracks: 5, weeklyTracks: null, totalMb: null };
+            expect(store.get(1, limits, now).nextFreeAt).toBe(now + 23 * HOUR);
+        });
+    });
+
+    describe('getQuotaRemaining', () => {
+        it('takes the tighter track window and leaves unlimited ones out', () => {
+            const usage = { daily: 2, weekly: 19, totalBytes: 50 * 1024 * 1024 };
+            expect(getQuotaRemaining(settings.default, usage)).toEqual({ remainingTracks: 1, remainingBytes: 50 * 1024 * 1024 });
+            expect(getQuotaRemaining({ dailyTracks: null, weeklyTracks: null, totalMb: null }, usage)).toEqual({ remainingTracks: null, remainingBytes: null });
+        });
+    });
+
+    describe('addPendingUsage', () => {
+        it('counts submissions waiting for review as used', () => {
+            const usage = addPendingUsage({ daily: 1, weekly: 4, totalBytes: 100 }, { tracks: 4, bytes: 50 });
+            expect(usage).toEqual({ daily: 5, weekly: 8, totalBytes: 150, pendingTracks: 4 });
+            expect(getQuotaRemaining(settings.default, usage).remainingTracks).toBe(0);
+        });
+
+        it('leaves usage alone without pending tracks', () => {
+            const usage = { daily: 1, weekly: 4, totalBytes: 100 };
+            expect(addPendingUsage(usage, { tracks: 0, bytes: 0 })).toBe(usage);
+        });
+    });
+
+    describe('reserveQuota', () => {
+        let dir: string | undefined;
+
+        afterEach(() => {
+            vi.unstubAllEnvs();
+            if (dir) rmSync(dir, { recursive: true, force: true });
+            dir = undefined;
+        });
+
+        it('lets only one of two parallel submissions take the last track', async () => {
+            dir = mkdtempSync(join(tmpdir(), 'quotas-'));
+            vi.stubEnv('BOT_DATA_DIR', dir);
+            vi.stubEnv('BOT_SESSION_STORE', 'memory');
+            vi.stubEnv('QUOTA_DAILY_TRACKS', '1');
+            const track = (name: string): PublishableTrack[] => {
+                const filePath = join(dir!, name);
+                writeFileSync(filePath, 'audio');
+                return [{ filePath, fileName: name }];
+            };
+            const first = track('first.mp3');
+            const second = track('second.mp3');
+
+            const reservations = await Promise.all([
+                reserveQuota(5, 'community', first),
+                reserveQuota(5, 'community', second),
+            ]);
+
+            expect(reservations.map(reservation => reservation.cut)).toEqual([0, 1]);
+            expect([first[0], second[0]].filter(candidate => candidate.error === 'Over your quota')).toHaveLength(1);
+            expect(getQuotaStatus(5, 'community').remainingTracks).toBe(0);
+
+            reservations.forEach(releaseQuota);
+            expect(getQuotaStatus(5, 'community').remainingTracks).toBe(1);
+        });
+    });
+
+    describe('/setquota', () => {
+        it('parses targets, limits and values', () => {
+            expect(parseQuotaChange('default daily 10')).toEqual({ target: 'default', limit: 'dailyTracks', value: 10 });
+            expect(parseQuotaChange('curator weekly unlimited')).toEqual({ target: 'curator', limit: 'weeklyTracks', value: null });
+            expect(parseQuotaChange('123 mb default')).toEqual({ target: 123, limit: 'totalMb', value: undefined });
+            expect(parseQuotaChange('default mb default')).toMatch(/default limits/);
+            expect(parseQuotaChange('curator yearly 3')).toMatch(/daily/);
+            expect(parseQuotaChange('curator daily 0')).toMatch(/at least 1/);
+        });
+
+        it('sets and removes overrides', () => {
+            const withRole = applyQuotaChange(settings, { target: 'curator', limit: 'totalMb', value: 500 });
+            expect(withRole.roles.curator).toEqual({ dailyTracks: null, totalMb: 500 });
+
+            const withoutUser = applyQuotaChange(settings, { target: 7, limit: 'totalMb', value: undefined });
+            expect(withoutUser.users['7']).toEqual({});
+            expect(settings.users['7']).toEqual({ totalMb: 10 });
+        });
+    });
+});
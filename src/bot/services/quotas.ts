@@ -0,0 +1,311 @@
+/**
+ * Submission quotas
+ * Limits how many songs a user may add per day and per week (rolling windows) and how much
+ * storage their songs may take in total. Limits come from the bot settings: a default, overridden
+ * per role and then per user; usage is recorded once tracks are published, and submissions waiting
+ * for moderation count as used until they are approved or rejected. Tracks a submission is about to
+ * upload are reserved first, so a user's parallel submissions can't all spend the same quota
+ */
+
+import { stat } from 'fs/promises';
+import { getBotDataPath } from '../utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+import { getBotSettings } from './bot-settings';
+import { getHighestRole, type Role } from './permissions';
+import { getModerationStore } from './moderation';
+import type { PublishableTrack, TrackResult } from './track-publisher';
+
+export interface QuotaLimits {
+  dailyTracks: number | null; // null = unlimited
+  weeklyTracks: number | null;
+  totalMb: number | null;
+}
+
+export type QuotaLimit = keyof QuotaLimits;
+
+/**
+ * Only the limits that differ from the level below
+ */
+export type QuotaOverrides = Partial<QuotaLimits>;
+
+export interface QuotaSettings {
+  default: QuotaLimits;
+  roles: Partial<Record<Role, QuotaOverrides>>;
+  users: Record<string, QuotaOverrides>;
+}
+
+export interface QuotaUsage {
+  daily: number; // Tracks added in the last 24 hours
+  weekly: number; // Tracks added in the last 7 days
+  totalBytes: number;
+  pendingTracks?: number; // Of the above, tracks still waiting for moderation
+  reservedTracks?: number; // Of the above, tracks of submissions being uploaded right now
+  nextFreeAt?: number; // When the oldest track in an exhausted window stops counting
+}
+
+export interface QuotaStatus {
+  limits: QuotaLimits;
+  usage: QuotaUsage;
+  remainingTracks: number | null; // null = unlimited
+  remainingBytes: number | null;
+}
+
+export interface QuotaReservation {
+  userId: number;
+  tracks: number;
+  bytes: number;
+  status: QuotaStatus; // What was left before reserving
+  cut: number; // Tracks that didn't fit
+}
+
+interface UsageRecord {
+  totalBytes: number;
+  recent: Array<{ at: number; tracks: number }>; // Only the last week is kept
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const MB = 1024 * 1024;
+
+export const QUOTA_LIMITS: QuotaLimit[] = ['dailyTracks', 'weeklyTracks', 'totalMb'];
+
+/**
+ * Limits for a user: their own overrides, then their highest role's, then the default
+ */
+export function resolveQuotaLimits(settings: QuotaSettings, userId: number, role?: Role): QuotaLimits {
+  const userOverrides = settings.users[String(userId)] || {};
+  const roleOverrides = (role && settings.roles[role]) || {};
+  const pick = (limit: QuotaLimit) =>
+    userOverrides[limit] !== undefined ? userOverrides[limit]!
+      : roleOverrides[limit] !== undefined ? roleOverrides[limit]!
+        : settings.default[limit];
+
+  return { dailyTracks: pick('dailyTracks'), weeklyTracks: pick('weeklyTracks'), totalMb: pick('totalMb') };
+}
+
+export function getQuotaRemaining(limits: QuotaLimits, usage: QuotaUsage): Pick<QuotaStatus, 'remainingTracks' | 'remainingBytes'> {
+  const trackLimits = [
+    limits.dailyTracks !== null ? limits.dailyTracks - usage.daily : null,
+    limits.weeklyTracks !== null ? limits.weeklyTracks - usage.weekly : null,
+  ].filter((remaining): remaining is number => remaining !== null);
+
+  return {
+    remainingTracks: trackLimits.length > 0 ? Math.max(0, Math.min(...trackLimits)) : null,
+    remainingBytes: limits.totalMb !== null ? Math.max(0, limits.totalMb * MB - usage.totalBytes) : null,
+  };
+}
+
+export class QuotaUsageStore {
+  private records: Record<string, UsageRecord>;
+  private reserved: Record<string, { tracks: number; bytes: number }> = {}; // In memory only: reservations end with their job
+  private filePath?: string;
+
+  /**
+   * @param filePath JSON file to persist usage in (omit to keep it in memory only)
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.records = filePath ? readJsonFile<Record<string, UsageRecord>>(filePath, {}) : {};
+  }
+
+  /**
+   * Usage as of now
+   * @param limits Used to work out when an exhausted window frees up
+   */
+  get(userId: number, limits?: QuotaLimits, now: number = Date.now()): QuotaUsage {
+    const record = this.records[String(userId)] || { totalBytes: 0, recent: [] };
+    const since = (windowMs: number) => record.recent.filter(entry => entry.at > now - windowMs);
+    const day = since(DAY_MS);
+    const week = since(WEEK_MS);
+    const count = (entries: UsageRecord['recent']) => entries.reduce((sum, entry) => sum + entry.tracks, 0);
+
+    const usage: QuotaUsage = { daily: count(day), weekly: count(week), totalBytes: record.totalBytes };
+
+    // The later of the exhausted windows decides when another track fits
+    const freeTimes: number[] = [];
+    if (limits?.dailyTracks !== null && limits?.dailyTracks !== undefined && usage.daily >= limits.dailyTracks && day.length > 0) {
+      freeTimes.push(day[0].at + DAY_MS);
+    }
+    if (limits?.weeklyTracks !== null && limits?.weeklyTracks !== undefined && usage.weekly >= limits.weeklyTracks && week.length > 0) {
+      freeTimes.push(week[0].at + WEEK_MS);
+    }
+    if (freeTimes.length > 0) usage.nextFreeAt = Math.max(...freeTimes);
+
+    return usage;
+  }
+
+  record(userId: number, tracks: number, bytes: number, now: number = Date.now()): void {
+    if (tracks <= 0) return;
+    const key = String(userId);
+    const record = this.records[key] || { totalBytes: 0, recent: [] };
+    this.records[key] = {
+      totalBytes: record.totalBytes + bytes,
+      recent: [...record.recent.filter(entry => entry.at > now - WEEK_MS), { at: now, tracks }],
+    };
+    this.persist();
+  }
+
+  /**
+   * Tracks and bytes reserved by submissions that haven't been published yet
+   */
+  getReserved(userId: number): { tracks: number; bytes: number } {
+    return this.reserved[String(userId)] || { tracks: 0, bytes: 0 };
+  }
+
+  reserve(userId: number, tracks: number, bytes: number): void {
+    const current = this.getReserved(userId);
+    this.reserved[String(userId)] = { tracks: current.tracks + tracks, bytes: current.bytes + bytes };
+  }
+
+  release(userId: number, tracks: number, bytes: number): void {
+    const current = this.getReserved(userId);
+    const remaining = { tracks: Math.max(0, current.tracks - tracks), bytes: Math.max(0, current.bytes - bytes) };
+    if (remaining.tracks === 0) {
+      delete this.reserved[String(userId)];
+    } else {
+      this.reserved[String(userId)] = remaining;
+    }
+  }
+
+  private persist(): void {
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.records);
+    }
+  }
+}
+
+let storeInstance: QuotaUsageStore | null = null;
+
+export function getQuotaUsageStore(): QuotaUsageStore {
+  if (!storeInstance) {
+    storeInstance = new QuotaUsageStore(
+      process.env.BOT_SESSION_STORE === 'memory' ? undefined : getBotDataPath('quota-usage.json')
+    );
+  }
+  return storeInstance;
+}
+
+/**
+ * Count tracks that aren't recorded yet in both windows and towards storage
+ */
+function addUnrecordedUsage(
+  usage: QuotaUsage,
+  unrecorded: { tracks: number; bytes: number },
+  field: 'pendingTracks' | 'reservedTracks'
+): QuotaUsage {
+  if (unrecorded.tracks === 0) return usage;
+  return {
+    ...usage,
+    daily: usage.daily + unrecorded.tracks,
+    weekly: usage.weekly + unrecorded.tracks,
+    totalBytes: usage.totalBytes + unrecorded.bytes,
+    [field]: unrecorded.tracks,
+  };
+}
+
+/**
+ * Reserve quota for submissions waiting for moderation: they count in both windows and towards
+ * storage until approval records them for real (or rejection drops them)
+ */
+export function addPendingUsage(usage: QuotaUsage, pending: { tracks: number; bytes: number }): QuotaUsage {
+  return addUnrecordedUsage(usage, pending, 'pendingTracks');
+}
+
+/**
+ * A user's limits and what's left of them when adding to a playlist
+ */
+export function getQuotaStatus(userId: number, playlist?: string): QuotaStatus {
+  const limits = resolveQuotaLimits(getBotSettings().quotas, userId, getHighestRole(userId, playlist));
+  const store = getQuotaUsageStore();
+  const usage = addUnrecordedUsage(
+    addPendingUsage(store.get(userId, limits), getModerationStore().getPendingUsage(userId)),
+    store.getReserved(userId),
+    'reservedTracks'
+  );
+  return { limits, usage, ...getQuotaRemaining(limits, usage) };
+}
+
+async function getFileSize(filePath: string): Promise<number> {
+  return stat(filePath).then(stats => stats.size, () => 0);
+}
+
+/**
+ * Mark the tracks that don't fit in the remaining quota as failed (in tracklist order) and reserve
+ * the rest until releaseQuota, so the user's other submissions see them as used
+ */
+export async function reserveQuota(userId: number, playlist: string, tracks: PublishableTrack[]): Promise<QuotaReservation> {
+  const sizes = await Promise.all(tracks.map(track => track.error ? 0 : getFileSize(track.filePath)));
+
+  // No awaits from here on: reading what's left and reserving it can't interleave with another job
+  const status = getQuotaStatus(userId, playlist);
+  let tracksLeft = status.remainingTracks ?? Infinity;
+  let bytesLeft = status.remainingBytes ?? Infinity;
+  const reservation: QuotaReservation = { userId, tracks: 0, bytes: 0, status, cut: 0 };
+
+  tracks.forEach((track, index) => {
+    if (track.error) return;
+    if (tracksLeft < 1 || sizes[index] > bytesLeft) {
+      track.error = 'Over your quota';
+      reservation.cut++;
+      return;
+    }
+    tracksLeft--;
+    bytesLeft -= sizes[index];
+    reservation.tracks++;
+    reservation.bytes += sizes[index];
+  });
+
+  getQuotaUsageStore().reserve(userId, reservation.tracks, reservation.bytes);
+  return reservation;
+}
+
+/**
+ * End a reservation once its tracks were recorded (published), handed to moderation or dropped
+ */
+export function releaseQuota(reservation: QuotaReservation): void {
+  getQuotaUsageStore().release(reservation.userId, reservation.tracks, reservation.bytes);
+}
+
+/**
+ * Count the tracks that made it into a playlist against the submitter's quota
+ */
+export async function recordPublishedTracks(userId: number | undefined, tracks: PublishableTrack[], results: TrackResult[]): Promise<void> {
+  if (userId === undefined) return;
+
+  const published = tracks.filter((_, index) => results[index] && !results[index].error);
+  const sizes = await Promise.all(published.map(track => getFileSize(track.filePath)));
+  getQuotaUsageStore().record(userId, published.length, sizes.reduce((sum, size) => sum + size, 0));
+}
+
+/**
+ * Time until a moment, e.g. "45m", "5h" or "2d"
+ */
+export function formatWaitTime(until: number): string {
+  const minutes = Math.max(1, Math.ceil((until - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.ceil(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.ceil(hours / 24)}d`;
+}
+
+export function formatMegabytes(bytes: number): string {
+  return (bytes / MB).toFixed(1).replace(/\.0$/, '');
+}
+
+/**
+ * Why a user can't add more songs right now
+ */
+export function describeQuotaExceeded(status: QuotaStatus): string {
+  if (status.remainingTracks === 0) {
+    const { pendingTracks, nextFreeAt } = status.usage;
+    const waiting = pendingTracks
+      ? ` ${pendingTracks} of your songs ${pendingTracks === 1 ? 'is' : 'are'} still waiting for review and count towards it.`
+      : '';
+    const wait = nextFreeAt ? ` You can add another in ${formatWaitTime(nextFreeAt)}.` : '';
+    return `You've reached your song limit for now.${waiting}${wait} Send /quota to see your limits.`;
+  }
+  if (status.remainingBytes === 0) {
+    return `Your songs already take up all ${status.limits.totalMb} MB of your storage quota.`;
+  }
+  return `That's more than the ${formatMegabytes(status.remainingBytes ?? 0)} MB of storage you have left. Send /quota to see your limits.`;
+}
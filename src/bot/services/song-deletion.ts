@@ -1,11 +1,20 @@
 /**
  * Song deletion service
+ * Deleted songs go to the trash and can be restored until the retention period runs out
  */
 
-import { sendMessage, validatePlaylistName } from '../../utils/telegram-bot';
-import { deleteFromDreamhost } from '../../utils/upload-to-dreamhost';
-import { DEFAULT_FTP_HOST, DEFAULT_FTP_PATH } from '../../constants';
+import { sendMessage, createInlineKeyboard, validatePlaylistName } from '../../utils/telegram-bot';
+import { moveToTrash, restoreFromTrash, purgeFromTrash, purgeExpiredTrash, listTrash, getTrashRetentionDays, type TrashEntry } from './trash';
+import { refreshPlaylists } from './track-publisher';
+import { forgetTrackAudio } from './track-audio';
+import { getTrackId } from '../../utils/tracks';
+import { callbackButton, type InlineButton } from '../utils/callback-data';
+import { showMenuMessage } from '../utils/paginated-keyboard';
 import { logBotActivity } from '../utils/logger';
+import { hasPermission } from './permissions';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('storage');
 
 export interface SongDeletionConfig {
   botToken: string;
@@ -47,65 +56,35 @@ export async function deleteSong(
     }
 
     const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
-    await sendMessage(botToken, chatId, '🗑️ Deleting song...');
-
-    const ftpHost = process.env.DREAMHOST_FTP_HOST || DEFAULT_FTP_HOST;
-    const ftpUser = process.env.DREAMHOST_FTP_USER;
-    const ftpPassword = process.env.DREAMHOST_FTP_PASSWORD;
-    const basePath = process.env.DREAMHOST_FTP_PATH?.replace(/\/[^/]+$/, '') || DEFAULT_FTP_PATH;
-    const useSFTP = process.env.DREAMHOST_USE_SFTP === 'true';
-    const ftpPath = `${basePath}/${playlistName}`;
-
-    if (!ftpUser || !ftpPassword) {
-      throw new Error('FTP credentials not configured');
-    }
+    await sendMessage(botToken, chatId, '🗑️ Moving song to trash...');
 
-    await deleteFromDreamhost(sanitizedFileName, {
-      host: ftpHost,
-      user: ftpUser,
-      password: ftpPassword,
-      remotePath: ftpPath,
-      useSFTP: useSFTP,
-    });
+    const entry = await moveToTrash(playlistName, sanitizedFileName, { userId, username });
+    forgetTrackAudio(getTrackId(playlistName, fileName));
 
-    // Also delete local copy if it exists
-    try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      const localFilePath = path.join(process.cwd(), 'public', 'music', playlistName, sanitizedFileName);
-      try {
-        await fs.unlink(localFilePath);
-      } catch (localError: any) {
-        if (localError.code !== 'ENOENT') {
-          console.warn(`Failed to delete local file:`, localError);
-        }
-      }
-    } catch (error) {
-      // Ignore local file deletion errors
-    }
-
-    // Wait for FTP server to process deletion
+    // Wait for FTP server to process the move
     await new Promise(resolve => setTimeout(resolve, 2000));
+    await refreshPlaylists();
 
-    // Regenerate playlists locally
-    try {
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
-      await execAsync('npm run generate-playlists');
-    } catch (error) {
-      console.error('Failed to regenerate playlists locally:', error);
-    }
+    const undoButtons = createInlineKeyboard([
+      [callbackButton('↩️ Undo', 'trash_restore', { trashId: entry.id })],
+    ]);
+    await sendMessage(
+      botToken,
+      chatId,
+      `✅ Song moved to trash from "${playlistName}" playlist.\n\nIt can be restored for ${getTrashRetentionDays()} days (or with /undo).`,
+      undoButtons
+    );
+
+    // Webhook mode has no background purge, so expired trash is also cleared here
+    purgeExpiredTrash().catch(error => log.warn('Trash purge failed', { error: error.message }));
 
-    await sendMessage(botToken, chatId, `✅ Song deleted from "${playlistName}" playlist.`);
-    
     logBotActivity({
       timestamp: new Date().toISOString(),
       userId,
       username,
       chatId,
       action: 'SONG_DELETION_SUCCESS',
-      details: { fileName, playlist: playlistName },
+      details: { fileName, playlist: playlistName, trashId: entry.id },
       status: 'success',
     });
   } catch (error: any) {
@@ -130,4 +109,130 @@ export async function deleteSong(
   }
 }
 
+const TRASH_LIST_LIMIT = 20;
+
+function getSongLabel(entry: TrashEntry): string {
+  return entry.fileName.replace(/\.[^/.]+$/, '');
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Move a trashed song back into its playlist
+ */
+export async function restoreSong(config: SongDeletionConfig, trashId: string): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
+
+  try {
+    const entry = await restoreFromTrash(trashId);
+    if (!entry) {
+      await sendMessage(botToken, chatId, '⌛ This song is no longer in the trash.');
+      return;
+    }
+
+    await refreshPlaylists();
+    await sendMessage(botToken, chatId, `♻️ "${getSongLabel(entry)}" restored to the "${entry.playlist}" playlist.`);
 
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'SONG_RESTORED',
+      details: { fileName: entry.fileName, playlist: entry.playlist, trashId },
+      status: 'success',
+    });
+  } catch (error: any) {
+    await sendMessage(botToken, chatId, `❌ Failed to restore the song: ${error.message}`);
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'SONG_RESTORE_FAILED',
+      details: { trashId, errorMessage: error.message },
+      status: 'error',
+      error: error.stack || error.message,
+    });
+  }
+}
+
+/**
+ * Permanently delete a trashed song
+ */
+export async function purgeTrashedSong(config: SongDeletionConfig, trashId: string): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
+
+  try {
+    const entry = await purgeFromTrash(trashId);
+    if (!entry) {
+      await sendMessage(botToken, chatId, '⌛ This song is no longer in the trash.');
+      return;
+    }
+
+    await sendMessage(botToken, chatId, `🔥 "${getSongLabel(entry)}" permanently deleted.`);
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'SONG_PURGED',
+      details: { fileName: entry.fileName, playlist: entry.playlist, trashId },
+      status: 'success',
+    });
+  } catch (error: any) {
+    await sendMessage(botToken, chatId, `❌ Failed to delete the song: ${error.message}`);
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'SONG_PURGE_FAILED',
+      details: { trashId, errorMessage: error.message },
+      status: 'error',
+      error: error.stack || error.message,
+    });
+  }
+}
+
+/**
+ * Trash browser: newest entries with restore/purge buttons
+ */
+export async function showTrash(config: SongDeletionConfig, messageId?: number): Promise<void> {
+  const { botToken, chatId, userId } = config;
+
+  await purgeExpiredTrash().catch(error => log.warn('Trash purge failed', { error: error.message }));
+  const entries = listTrash().filter(entry => hasPermission(userId, 'delete_songs', entry.playlist));
+
+  const lines = entries.slice(0, TRASH_LIST_LIMIT).map((entry, index) => {
+    const by = entry.deletedBy?.username ? ` by @${entry.deletedBy.username}` : '';
+    return `${index + 1}. ${getSongLabel(entry)} (${entry.playlist}, ${formatAge(entry.deletedAt)}${by})`;
+  });
+
+  const buttons: InlineButton[][] = entries
+    .slice(0, TRASH_LIST_LIMIT)
+    .map((entry, index) => [
+      callbackButton(`♻️ Restore ${index + 1}`, 'trash_restore', { trashId: entry.id }),
+      callbackButton(`🔥 Delete ${index + 1}`, 'trash_purge', { trashId: entry.id }),
+    ]);
+  buttons.push([callbackButton('⬅️ Back', 'restricted_access')]);
+
+  let text = entries.length === 0
+    ? '🗑️ **Trash**\n\nThe trash is empty.'
+    : `🗑️ **Trash**\n\n${lines.join('\n')}`;
+  if (entries.length > TRASH_LIST_LIMIT) {
+    text += `\n\n...and ${entries.length - TRASH_LIST_LIMIT} more`;
+  }
+  text += `\n\nSongs are permanently deleted ${getTrashRetentionDays()} days after being trashed.`;
+
+  await showMenuMessage(botToken, chatId, text, createInlineKeyboard(buttons), messageId);
+}
@@ -1,25 +1,97 @@
 /**
  * Song processing service
- * Handles download and upload of songs
+ * Handles download and upload of songs (from links or files sent to the bot)
  */
 
-import { downloadSongAsFile } from '../../utils/download-song';
-import { uploadToDreamhost } from '../../utils/upload-to-dreamhost';
-import { validatePlaylistName } from '../../utils/telegram-bot';
-import { COMMUNITY_PLAYLIST, DEFAULT_FTP_HOST, DEFAULT_FTP_PATH, DEFAULT_SITE_URL } from '../../constants';
+import { downloadSongsAsFiles, downloadTelegramFile, type DownloadedSongs, type DownloadedTrack } from '../../utils/download-song';
+import { readAudioMetadata } from '../../utils/audio-metadata';
+import { DuplicateTrackError, QuotaExceededError } from '../../types/errors';
+import { loadTrackIndex, findDuplicate, hashFile, type DuplicateCandidate, type DuplicateMatch } from './track-index';
+import { publishTracks, formatTrackSummary, type PublishableTrack } from './track-publisher';
+import { getModerationStore, notifyModerators } from './moderation';
+import { getBotSettings } from './bot-settings';
+import { hasPermission } from './permissions';
+import { getQuotaStatus, reserveQuota, releaseQuota, recordPublishedTracks, describeQuotaExceeded, type QuotaReservation } from './quotas';
+import { getMaxAttachmentSize, type TelegramAudioFile } from '../../utils/audio-attachment';
+import type { DownloadProgressEvent } from '../../utils/download-progress';
+import { validatePlaylistName, sendMessage, createInlineKeyboard, escapeMarkdown } from '../../utils/telegram-bot';
+import { SUPPORTED_AUDIO_FORMATS, COMMUNITY_PLAYLIST } from '../../constants';
 import { logBotActivity } from '../utils/logger';
+import { callbackButton } from '../utils/callback-data';
+import { SubmissionProgress } from './submission-progress';
+import { getSupportedSourcesText } from '../../utils/source-providers';
 
 export interface SongProcessorConfig {
   botToken: string;
   chatId: number;
   userId?: number;
   username?: string;
+  jobId?: string; // Lets an admin re-queue the submission from the duplicate warning
+  allowDuplicate?: boolean; // Admin override: skip the duplicate check
 }
 
+export type SubmissionStage = 'downloading' | 'uploading';
+
+export interface SongSubmissionHooks {
+  onStageChange?: (stage: SubmissionStage, details?: { attempt?: number }) => void;
+}
+
+interface SubmissionSource {
+  details: Record<string, any>; // Logged with every submission event
+  retryHint: string; // Appended to the error message shown to the user
+  download: (onProgress: (event: DownloadProgressEvent) => void) => Promise<DownloadedSongs>;
+}
+
+/**
+ * Download a song (or every track of an album/playlist) from a link and add it to a playlist
+ */
 export async function processSongSubmission(
   config: SongProcessorConfig,
   url: string,
-  playlistName?: string
+  playlistName?: string,
+  hooks: SongSubmissionHooks = {}
+): Promise<void> {
+  const maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '52428800');
+
+  await runSubmission(config, playlistName, hooks, {
+    details: { url },
+    retryHint: `Please make sure you're sharing a valid ${getSupportedSourcesText()} link.`,
+    // The admin-configured cap on tracks per submission stops album/playlist downloads early
+    download: (onProgress) => downloadSongsAsFiles(
+      url,
+      process.env.SPOTIPY_CLIENT_ID,
+      process.env.SPOTIPY_CLIENT_SECRET,
+      maxFileSize,
+      onProgress,
+      getBotSettings().maxTracksPerSubmission
+    ),
+  });
+}
+
+/**
+ * Add an audio file sent directly to the bot to a playlist
+ */
+export async function processFileSubmission(
+  config: SongProcessorConfig,
+  file: TelegramAudioFile,
+  playlistName?: string,
+  hooks: SongSubmissionHooks = {}
+): Promise<void> {
+  await runSubmission(config, playlistName, hooks, {
+    details: { fileName: file.fileName, fileSize: file.fileSize },
+    retryHint: `Please make sure you're sending a ${SUPPORTED_AUDIO_FORMATS.join(', ')} file.`,
+    download: (onProgress) => downloadTelegramFile(config.botToken, file, getMaxAttachmentSize(), onProgress),
+  });
+}
+
+/**
+ * Shared submission pipeline: quota check → download → duplicate and quota checks → (moderation or) upload → playlist refresh
+ */
+async function runSubmission(
+  config: SongProcessorConfig,
+  playlistName: string | undefined,
+  hooks: SongSubmissionHooks,
+  source: SubmissionSource
 ): Promise<void> {
   const { botToken, chatId, userId, username } = config;
   const targetPlaylist = playlistName || COMMUNITY_PLAYLIST;
@@ -30,97 +102,115 @@ export async function processSongSubmission(
     username,
     chatId,
     action: 'SONG_SUBMISSION_STARTED',
-    details: { url, playlist: targetPlaylist },
+    details: { ...source.details, playlist: targetPlaylist },
     status: 'info',
   });
 
-  let tempFilePath: string | undefined;
+  let tempDir: string | undefined;
+  let reservation: QuotaReservation | undefined;
+  const progress = new SubmissionProgress(botToken, chatId);
 
   try {
-    // Send initial processing message
-    const { sendMessage } = await import('../../utils/telegram-bot');
-    await sendMessage(botToken, chatId, '🎵 Processing your song... This may take a minute.');
+    // Don't download anything for a user who has no quota left
+    const quota = userId !== undefined ? getQuotaStatus(userId, targetPlaylist) : undefined;
+    if (quota && (quota.remainingTracks === 0 || quota.remainingBytes === 0)) {
+      throw new QuotaExceededError(describeQuotaExceeded(quota));
+    }
 
-    // Download the song
-    const spotifyClientId = process.env.SPOTIPY_CLIENT_ID;
-    const spotifyClientSecret = process.env.SPOTIPY_CLIENT_SECRET;
-    const maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '52428800');
+    // Send initial status message (edited in place as the song moves through each stage)
+    await progress.start();
 
-    const { filePath, fileName, title } = await downloadSongAsFile(
-      url,
-      spotifyClientId,
-      spotifyClientSecret,
-      maxFileSize
-    );
-    tempFilePath = filePath;
+    // Download the song (or every track of an album/playlist)
+    hooks.onStageChange?.('downloading');
+    const downloaded = await source.download((event) => {
+      if (event.stage === 'transcoding') {
+        progress.setStage('transcode');
+      } else {
+        progress.updateDownload(event);
+      }
+    });
+    tempDir = downloaded.tempDir;
+
+    // Apply the admin-configured cap on tracks per submission (it may have changed during the download)
+    const { maxTracksPerSubmission } = getBotSettings();
+    const tracks: PublishableTrack[] = downloaded.tracks.slice(0, maxTracksPerSubmission);
+    const truncated = downloaded.truncated || downloaded.tracks.length > tracks.length;
 
     // Validate playlist name if provided
     if (playlistName && !validatePlaylistName(playlistName)) {
       throw new Error('Invalid playlist name');
     }
 
-    // Upload to Dreamhost
-    const ftpHost = process.env.DREAMHOST_FTP_HOST || DEFAULT_FTP_HOST;
-    const ftpUser = process.env.DREAMHOST_FTP_USER;
-    const ftpPassword = process.env.DREAMHOST_FTP_PASSWORD;
-    const basePath = process.env.DREAMHOST_FTP_PATH?.replace(/\/[^/]+$/, '') || DEFAULT_FTP_PATH;
-    const useSFTP = process.env.DREAMHOST_USE_SFTP === 'true';
-    const ftpPath = `${basePath}/${targetPlaylist}`;
+    // Fingerprint tracks and skip songs the library already has (unless an admin overrode the check)
+    const index = config.allowDuplicate ? [] : loadTrackIndex();
+    const duplicates: DuplicateMatch[] = [];
+    for (const track of tracks) {
+      if (track.error) continue;
+      const fingerprint = await fingerprintTrack(track);
+      Object.assign(track, fingerprint);
 
-    if (!ftpUser || !ftpPassword) {
-      throw new Error('FTP credentials not configured');
+      const match = findDuplicate(index, fingerprint);
+      if (match) {
+        track.error = `Already in the "${match.track.playlist}" playlist`;
+        duplicates.push(match);
+      }
     }
 
-    // Upload using the file path (streams internally)
-    await uploadToDreamhost(filePath, fileName, {
-      host: ftpHost,
-      user: ftpUser,
-      password: ftpPassword,
-      remotePath: ftpPath,
-      useSFTP: useSFTP,
-    });
-
-    // Also save a local copy for localhost testing
-    const fs = await import('fs/promises');
-    const path = await import('path');
-    const localCommunityDir = path.join(process.cwd(), 'public', 'music', COMMUNITY_PLAYLIST);
-    await fs.mkdir(localCommunityDir, { recursive: true });
-    const localFilePath = path.join(localCommunityDir, fileName);
-
-    // Copy file instead of writing buffer
-    await fs.copyFile(filePath, localFilePath);
-
-    // Regenerate playlists locally
-    try {
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
-      await execAsync('npm run generate-playlists');
-    } catch (error) {
-      console.error('Failed to regenerate playlists locally:', error);
+    if (duplicates.length > 0 && tracks.every(track => track.error)) {
+      const matches = duplicates.map(({ track }) => ({ playlist: track.playlist, fileName: track.fileName }));
+      throw new DuplicateTrackError(
+        tracks.length === 1
+          ? `This song is already in the "${matches[0].playlist}" playlist (${matches[0].fileName}).`
+          : `All ${tracks.length} tracks are already in the library.`,
+        matches
+      );
     }
 
-    // Trigger playlist update (if site URL is configured)
-    const siteUrl = process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL;
-    if (siteUrl) {
-      try {
-        await fetch(`${siteUrl}/api/update-playlists`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        });
-      } catch (error) {
-        console.error('Failed to update playlists:', error);
+    // Re-read the quota (the user's other submissions may have used some during the download), drop
+    // the tracks that don't fit and reserve the rest until they're published or handed to moderation
+    if (userId !== undefined) {
+      reservation = await reserveQuota(userId, targetPlaylist, tracks);
+      if (reservation.cut > 0 && tracks.every(track => track.error)) {
+        throw new QuotaExceededError(describeQuotaExceeded(reservation.status));
       }
     }
 
-    // Send success message
+    // In moderation mode, community submissions wait for an admin instead of going live
+    if (requiresModeration(config, targetPlaylist)) {
+      await holdForModeration(config, targetPlaylist, tracks, progress);
+      return;
+    }
+
+    // Upload tracks in tracklist order, then refresh the playlists
+    hooks.onStageChange?.('uploading', { attempt: 1 });
+    let trackDetail: string | undefined;
+    const results = await publishTracks(tracks, targetPlaylist, {
+      onTrackStart: (index, total, label) => {
+        trackDetail = total > 1 ? `⬆️ Track ${index + 1}/${total}: ${label}` : undefined;
+        progress.setStage('upload', trackDetail);
+      },
+      onRetry: (attempt) => {
+        hooks.onStageChange?.('uploading', { attempt });
+        progress.setStage('upload', `${trackDetail ? `${trackDetail}\n` : ''}🔁 Retrying upload (attempt ${attempt})...`);
+      },
+      onRefresh: () => progress.setStage('refresh'),
+    });
+
+    const added = results.filter(result => !result.error);
+    if (added.length === 0) {
+      throw new Error(results[0]?.error || 'No tracks could be added.');
+    }
+    await recordPublishedTracks(userId, tracks, results);
+
+    // Send success message (a per-track summary for albums/playlists)
+    await progress.complete();
     const playlistDisplay = playlistName || COMMUNITY_PLAYLIST;
     await sendMessage(
       botToken,
       chatId,
-      `✅ Success! Your song "${title || fileName}" has been added to the "${playlistDisplay}" playlist.\n\nIt will be available on the site shortly.`
+      results.length === 1 && !truncated
+        ? `✅ Success! Your song "${escapeMarkdown(added[0].title)}" has been added to the "${escapeMarkdown(playlistDisplay)}" playlist.\n\nIt will be available on the site shortly.`
+        : formatTrackSummary(results, playlistDisplay, truncated ? maxTracksPerSubmission : undefined)
     );
 
     logBotActivity({
@@ -130,29 +220,49 @@ export async function processSongSubmission(
       chatId,
       action: 'SONG_SUBMISSION_SUCCESS',
       details: {
-        fileName,
-        title: title || fileName,
+        tracks: results.map(({ fileName, error }) => ({ fileName, ...(error && { error }) })),
+        added: added.length,
+        failed: results.length - added.length,
+        truncated,
         playlist: playlistDisplay,
-        // fileSizeMB: Math.round(buffer.length / 1024 / 1024), // Buffer no longer available
       },
       status: 'success',
     });
   } catch (error: any) {
     const { ErrorHandler } = await import('../../services/error-handler');
-    const { sendMessage } = await import('../../utils/telegram-bot');
+    await progress.fail();
+
+    if (error instanceof DuplicateTrackError) {
+      await reportDuplicate(config, error, targetPlaylist);
+      throw error;
+    }
+
+    if (error instanceof QuotaExceededError) {
+      logBotActivity({
+        timestamp: new Date().toISOString(),
+        userId,
+        username,
+        chatId,
+        action: 'SONG_SUBMISSION_OVER_QUOTA',
+        details: { ...source.details, playlist: targetPlaylist, errorMessage: error.message },
+        status: 'info',
+      });
+      await sendMessage(botToken, chatId, `📊 ${error.message}`);
+      throw error;
+    }
 
     const userMessage = ErrorHandler.handle(error, {
       userId,
       username,
       chatId,
       action: 'SONG_SUBMISSION_FAILED',
-      details: { url, playlist: targetPlaylist },
+      details: { ...source.details, playlist: targetPlaylist },
     });
 
     await sendMessage(
       botToken,
       chatId,
-      `❌ Error: ${userMessage}\n\nPlease make sure you're sharing a valid YouTube or Spotify link.`
+      `❌ Error: ${userMessage}\n\n${source.retryHint}`
     );
 
     logBotActivity({
@@ -161,20 +271,22 @@ export async function processSongSubmission(
       username,
       chatId,
       action: 'SONG_SUBMISSION_FAILED',
-      details: { url, playlist: targetPlaylist, errorMessage: error.message },
+      details: { ...source.details, playlist: targetPlaylist, errorMessage: error.message },
       status: 'error',
       error: error.stack || error.message,
     });
 
     throw error;
   } finally {
-    // Clean up temp file and directory
-    if (tempFilePath) {
+    // Published tracks are recorded and held ones count as pending by now; failed ones free their quota
+    if (reservation) {
+      releaseQuota(reservation);
+    }
+
+    // Remove the temp directory and all its contents
+    if (tempDir) {
       try {
         const fs = await import('fs/promises');
-        const path = await import('path');
-        const tempDir = path.dirname(tempFilePath);
-        // Remove the temp directory and all its contents
         await fs.rm(tempDir, { recursive: true, force: true }).catch(() => { });
       } catch (cleanupError) {
         console.error('Failed to clean up temp file:', cleanupError);
@@ -183,4 +295,93 @@ export async function processSongSubmission(
   }
 }
 
+/**
+ * Content hash and duration of a downloaded track for duplicate detection
+ */
+async function fingerprintTrack(track: DownloadedTrack): Promise<DuplicateCandidate> {
+  const [contentHash, metadata] = await Promise.all([
+    hashFile(track.filePath).catch(() => undefined),
+    readAudioMetadata(track.filePath),
+  ]);
+  return {
+    title: track.title || track.fileName,
+    ...(contentHash && { contentHash }),
+    ...(metadata?.durationSeconds && { durationSeconds: metadata.durationSeconds }),
+  };
+}
+
+/**
+ * Moderation applies while it's switched on, unless the submitter may skip it for the playlist
+ */
+function requiresModeration(config: SongProcessorConfig, targetPlaylist: string): boolean {
+  if (!getBotSettings().moderationEnabled) return false;
+  return !hasPermission(config.userId, 'skip_moderation', targetPlaylist);
+}
+
+/**
+ * Park the tracks in the pending area and ask the admins to review them
+ */
+async function holdForModeration(
+  config: SongProcessorConfig,
+  targetPlaylist: string,
+  tracks: PublishableTrack[],
+  progress: SubmissionProgress
+): Promise<void> {
+  const { botToken, chatId, userId, username } = config;
+  const submission = await getModerationStore().add({
+    chatId,
+    userId,
+    username,
+    playlist: targetPlaylist,
+    tracks: tracks.filter(track => !track.error),
+  });
+
+  await progress.hold('Waiting for admin approval');
+  await notifyModerators(botToken, submission);
+
+  const count = submission.tracks.length;
+  await sendMessage(
+    botToken,
+    chatId,
+    count === 1
+      ? `🛂 Thanks! "${escapeMarkdown(submission.tracks[0].title || submission.tracks[0].fileName)}" was sent to the admins for review. I'll let you know once it's been checked.`
+      : `🛂 Thanks! ${count} tracks were sent to the admins for review. I'll let you know once they've been checked.`
+  );
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: 'SONG_SUBMISSION_PENDING',
+    details: { submissionId: submission.id, playlist: targetPlaylist, tracks: submission.tracks.map(track => track.fileName) },
+    status: 'info',
+  });
+}
+
+/**
+ * Tell the user their submission is already in the library; moderators get an "Add anyway" button
+ */
+async function reportDuplicate(config: SongProcessorConfig, error: DuplicateTrackError, targetPlaylist: string): Promise<void> {
+  const { botToken, chatId, userId, username, jobId } = config;
+  const canOverride = !!jobId && hasPermission(userId, 'moderate', targetPlaylist);
+
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId,
+    username,
+    chatId,
+    action: 'SONG_SUBMISSION_DUPLICATE',
+    details: { matches: error.matches },
+    status: 'info',
+  });
 
+  await sendMessage(
+    botToken,
+    chatId,
+    `🔁 ${error.message}`,
+    canOverride
+      ? createInlineKeyboard([[callbackButton('➕ Add anyway', 'dup_override', { jobId })]])
+      : undefined
+  );
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SongJobQueue, type JobRunner } from './song-queue';
+
+vi.mock('../utils/logger', () => ({ logBotActivity: vi.fn() }));
+
+function deferredRunner() {
+    const pending: Array<() => void> = [];
+    const runner: JobRunner = () => new Promise<void>(resolve => pending.push(resolve));
+    return { runner, pending };
+}
+
+describe('SongJobQueue', () => {
+    it('limits the number of jobs running at once', () => {
+        const { runner, pending } = deferredRunner();
+        const queue = new SongJobQueue({ workers: 2, maxJobsPerUser: 10, runner });
+
+        const results = [1, 2, 3].map(chatId => queue.enqueue({ chatId, url: 'https://youtu.be/x' }));
+
+        expect(pending).toHaveLength(2);
+        expect(results.map(r => r.accepted && r.position)).toEqual([0, 0, 1]);
+        expect(queue.getStats()).toMatchObject({ downloading: 2, queued: 1 });
+    });
+
+    it('starts the next job when a worker frees up', async () => {
+        const { runner, pending } = deferredRunner();
+        const queue = new SongJobQueue({ workers: 1, maxJobsPerUser: 10, runner });
+
+        queue.enqueue({ chatId: 1, url: 'https://youtu.be/a' });
+        queue.enqueue({ chatId: 2, url: 'https://youtu.be/b' });
+        pending[0]();
+        await vi.waitFor(() => expect(pending).toHaveLength(2));
+
+        expect(queue.getStats()).toMatchObject({ done: 1, downloading: 1 });
+    });
+
+    it('rejects jobs over the per-user limit', () => {
+        const { runner } = deferredRunner();
+        const queue = new SongJobQueue({ workers: 1, maxJobsPerUser: 2, runner });
+
+        queue.enqueue({ chatId: 1, userId: 7, url: 'https://youtu.be/a' });
+        queue.enqueue({ chatId: 1, userId: 7, url: 'https://youtu.be/b' });
+        const result = queue.enqueue({ chatId: 1, userId: 7, url: 'https://youtu.be/c' });
+
+        expect(result).toEqual({ accepted: false, reason: 'user_limit', activeJobs: 2 });
+    });
+
+    it('marks jobs as failed when the runner throws', async () => {
+        const runner: JobRunner = async () => { throw new Error('boom'); };
+        const queue = new SongJobQueue({ workers: 1, maxJobsPerUser: 1, runner });
+
+        const result = queue.enqueue({ chatId: 1, url: 'https://youtu.be/a' });
+
+        await vi.waitFor(() => expect(queue.getStats().failed).toBe(1));
+        expect(result.accepted && queue.getJob(result.job.id)?.error).toBe('boom');
+    });
+
+    it('resolves whenIdle once every queued and running job has finished', async () => {
+        const { runner, pending } = deferredRunner();
+        const queue = new SongJobQueue({ workers: 1, maxJobsPerUser: 10, runner });
+        await queue.whenIdle();
+
+        queue.enqueue({ chatId: 1, url: 'https://youtu.be/a' });
+        queue.enqueue({ chatId: 2, url: 'https://youtu.be/b' });
+        let idle = false;
+        const waiting = queue.whenIdle().then(() => { idle = true; });
+
+        pending[0]();
+        await vi.waitFor(() => expect(pending).toHaveLength(2));
+        expect(idle).toBe(false);
+
+        pending[1]();
+        await waiting;
+        expect(queue.getStats()).toMatchObject({ done: 2, running: 0 });
+    });
+});
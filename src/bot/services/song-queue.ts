@@ -0,0 +1,278 @@
+/**
+ * Song submission job queue
+ * Runs downloads/uploads with a fixed number of workers and per-user limits,
+ * persisting queued jobs so they survive a bot restart
+ */
+
+import { randomUUID } from 'crypto';
+import { processSongSubmission, processFileSubmission, type SubmissionStage } from './song-processor';
+import type { TelegramAudioFile } from '../../utils/audio-attachment';
+import { getBotDataPath } from '../utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+import { logBotActivity } from '../utils/logger';
+import { runWithCorrelationId } from '../../utils/logger';
+import { DEFAULT_QUEUE_WORKERS, DEFAULT_MAX_JOBS_PER_USER, MAX_FINISHED_JOBS_KEPT } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export type JobState = 'queued' | SubmissionStage | 'done' | 'failed';
+
+export interface SongJob {
+  id: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+  url?: string;
+  file?: TelegramAudioFile; // Set instead of url for files sent directly to the bot
+  playlistName?: string;
+  allowDuplicate?: boolean; // Admin override of the duplicate check
+  state: JobState;
+  attempt: number;
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+export type NewSongJob = Pick<SongJob, 'chatId' | 'userId' | 'username' | 'url' | 'file' | 'playlistName' | 'allowDuplicate'>;
+
+export type EnqueueResult =
+  | { accepted: true; job: SongJob; position: number }
+  | { accepted: false; reason: 'user_limit'; activeJobs: number };
+
+/**
+ * Executes a job; reports stage changes through setState
+ */
+export type JobRunner = (
+  job: SongJob,
+  setState: (state: SubmissionStage, details?: { attempt?: number }) => void
+) => Promise<void>;
+
+export interface SongQueueOptions {
+  workers: number;
+  maxJobsPerUser: number;
+  filePath?: string; // Omit to keep jobs in memory only
+  runner: JobRunner;
+}
+
+const ACTIVE_STATES: JobState[] = ['queued', 'downloading', 'uploading'];
+
+export class SongJobQueue {
+  private jobs: SongJob[] = [];
+  private running = 0;
+  private idleWaiters: Array<() => void> = [];
+  private options: SongQueueOptions;
+
+  constructor(options: SongQueueOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Load persisted jobs and resume processing
+   * Jobs interrupted mid-download/upload start over from the queue
+   */
+  restore(): number {
+    if (!this.options.filePath) return 0;
+
+    this.jobs = readJsonFile<SongJob[]>(this.options.filePath, []);
+    let resumed = 0;
+    for (const job of this.jobs) {
+      if (job.state === 'downloading' || job.state === 'uploading') {
+        job.state = 'queued';
+        job.updatedAt = Date.now();
+      }
+      if (job.state === 'queued') {
+        resumed++;
+      }
+    }
+
+    this.persist();
+    this.pump();
+    return resumed;
+  }
+
+  /**
+   * Add a submission to the queue
+   * @returns position 0 if a worker picks it up immediately, otherwise jobs ahead of it
+   */
+  enqueue(input: NewSongJob): EnqueueResult {
+    const userKey = this.getUserKey(input);
+    const activeJobs = this.getActiveJobs(userKey).length;
+    if (activeJobs >= this.options.maxJobsPerUser) {
+      return { accepted: false, reason: 'user_limit', activeJobs };
+    }
+
+    const now = Date.now();
+    const job: SongJob = {
+      ...input,
+      id: randomUUID(),
+      state: 'queued',
+      attempt: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.push(job);
+    const queuedAhead = this.jobs.filter(j => j.state === 'queued' && j.id !== job.id).length;
+    const position = this.running < this.options.workers ? queuedAhead : queuedAhead + 1;
+    this.persist();
+    this.pump();
+
+    return { accepted: true, job, position };
+  }
+
+  /**
+   * Jobs that are queued or in progress for a user (keyed by user ID, falling back to chat ID)
+   */
+  getActiveJobs(userKey: number): SongJob[] {
+    return this.jobs.filter(job => this.getUserKey(job) === userKey && ACTIVE_STATES.includes(job.state));
+  }
+
+  getJob(id: string): SongJob | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  getStats(): Record<JobState, number> & { workers: number; running: number } {
+    const stats = { queued: 0, downloading: 0, uploading: 0, done: 0, failed: 0 };
+    for (const job of this.jobs) {
+      stats[job.state]++;
+    }
+    return { ...stats, workers: this.options.workers, running: this.running };
+  }
+
+  /**
+   * Resolves once no job is queued or running (right away if the queue is idle)
+   */
+  whenIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private isIdle(): boolean {
+    return this.running === 0 && !this.jobs.some(job => job.state === 'queued');
+  }
+
+  private getUserKey(job: Pick<SongJob, 'userId' | 'chatId'>): number {
+    return job.userId ?? job.chatId;
+  }
+
+  /**
+   * Start queued jobs while workers are free (FIFO)
+   */
+  private pump(): void {
+    while (this.running < this.options.workers) {
+      const next = this.jobs.find(job => job.state === 'queued');
+      if (!next) break;
+
+      this.running++;
+      this.runJob(next).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+
+    if (this.isIdle()) {
+      this.idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+
+  /**
+   * Run a job under its own correlation ID so its download, upload and refresh logs can be grouped
+   */
+  private runJob(job: SongJob): Promise<void> {
+    return runWithCorrelationId(`job-${job.id}`, async () => {
+      this.updateJob(job, { state: 'downloading', attempt: 1 });
+
+      try {
+        await this.options.runner(job, (state, details) => {
+          this.updateJob(job, { state, attempt: details?.attempt ?? job.attempt });
+        });
+        this.updateJob(job, { state: 'done' });
+      } catch (error: any) {
+        this.updateJob(job, { state: 'failed', error: error.message || String(error) });
+      }
+
+      this.pruneFinished();
+    });
+  }
+
+  private updateJob(job: SongJob, changes: Partial<SongJob>): void {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+    this.persist();
+
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId: job.userId,
+      username: job.username,
+      chatId: job.chatId,
+      action: 'SONG_JOB_STATE',
+      details: { jobId: job.id, state: job.state, attempt: job.attempt, ...(job.error && { error: job.error }) },
+      status: job.state === 'failed' ? 'error' : job.state === 'done' ? 'success' : 'info',
+    });
+  }
+
+  /**
+   * Keep only the most recent finished jobs
+   */
+  private pruneFinished(): void {
+    const finished = this.jobs.filter(job => !ACTIVE_STATES.includes(job.state));
+    if (finished.length <= MAX_FINISHED_JOBS_KEPT) return;
+
+    const toDrop = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS_KEPT).map(job => job.id));
+    this.jobs = this.jobs.filter(job => !toDrop.has(job.id));
+    this.persist();
+  }
+
+  private persist(): void {
+    if (this.options.filePath) {
+      writeJsonFile(this.options.filePath, this.jobs);
+    }
+  }
+}
+
+let queueInstance: SongJobQueue | null = null;
+
+/**
+ * Get the song queue, creating it (and resuming persisted jobs) on first use
+ * Worker count and per-user limit come from SONG_QUEUE_WORKERS / SONG_QUEUE_MAX_PER_USER
+ */
+export function getSongQueue(botToken: string): SongJobQueue {
+  if (!queueInstance) {
+    const workers = parseInt(process.env.SONG_QUEUE_WORKERS || '', 10) || DEFAULT_QUEUE_WORKERS;
+    const maxJobsPerUser = parseInt(process.env.SONG_QUEUE_MAX_PER_USER || '', 10) || DEFAULT_MAX_JOBS_PER_USER;
+
+    queueInstance = new SongJobQueue({
+      workers,
+      maxJobsPerUser,
+      filePath: getBotDataPath('song-jobs.json'),
+      runner: (job, setState) => {
+        const config = {
+          botToken,
+          chatId: job.chatId,
+          userId: job.userId,
+          username: job.username,
+          jobId: job.id,
+          allowDuplicate: job.allowDuplicate,
+        };
+        const hooks = { onStageChange: setState };
+        return job.file
+          ? processFileSubmission(config, job.file, job.playlistName, hooks)
+          : processSongSubmission(config, job.url || '', job.playlistName, hooks);
+      },
+    });
+
+    const resumed = queueInstance.restore();
+    if (resumed > 0) {
+      log.info(`Resumed ${resumed} queued song job(s)`);
+    }
+  }
+  return queueInstance;
+}
+
+/**
+ * Wait for the song jobs of this process to finish (resolves right away if the queue was never used)
+ * Webhook mode has no long-running process, so the request that queued a song must outlive it
+ */
+export function waitForSongJobs(): Promise<void> {
+  return queueInstance ? queueInstance.whenIdle() : Promise.resolve();
+}
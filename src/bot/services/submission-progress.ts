@@ -0,0 +1,158 @@
+/**
+ * Submission progress reporter
+ * Keeps a single status message up to date while a song moves through
+ * download → transcode → upload → playlist refresh
+ */
+
+import { sendMessage, editMessageText } from '../../utils/telegram-bot';
+import type { DownloadProgress } from '../../utils/download-progress';
+import { PROGRESS_EDIT_INTERVAL } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export type ProgressStage = 'download' | 'transcode' | 'upload' | 'refresh';
+
+const STAGES: Array<{ stage: ProgressStage; label: string }> = [
+  { stage: 'download', label: 'Download' },
+  { stage: 'transcode', label: 'Transcode' },
+  { stage: 'upload', label: 'Upload' },
+  { stage: 'refresh', label: 'Playlist refresh' },
+];
+
+type Outcome = 'running' | 'done' | 'failed' | 'held';
+
+export class SubmissionProgress {
+  private botToken: string;
+  private chatId: number;
+  private minEditInterval: number;
+  private messageId: number | undefined;
+  private stage: ProgressStage = 'download';
+  private download: DownloadProgress | null = null;
+  private detail: string | null = null;
+  private outcome: Outcome = 'running';
+  private heldMessage = '';
+  private lastText = '';
+  private lastEditAt = 0;
+  private editChain: Promise<void> = Promise.resolve();
+
+  constructor(botToken: string, chatId: number, minEditInterval: number = PROGRESS_EDIT_INTERVAL) {
+    this.botToken = botToken;
+    this.chatId = chatId;
+    this.minEditInterval = minEditInterval;
+  }
+
+  /**
+   * Send the initial status message
+   */
+  async start(): Promise<void> {
+    this.lastText = this.render();
+    this.lastEditAt = Date.now();
+    this.messageId = await sendMessage(this.botToken, this.chatId, this.lastText);
+  }
+
+  /**
+   * Move to a new stage (always shown immediately)
+   */
+  setStage(stage: ProgressStage, detail?: string): void {
+    this.stage = stage;
+    this.detail = detail || null;
+    this.flush(true);
+  }
+
+  /**
+   * Update download progress (throttled to respect Telegram edit limits)
+   */
+  updateDownload(progress: DownloadProgress): void {
+    this.download = progress;
+    this.flush(false);
+  }
+
+  /**
+   * Mark every stage as finished
+   */
+  async complete(): Promise<void> {
+    this.outcome = 'done';
+    this.detail = null;
+    this.flush(true);
+    await this.editChain;
+  }
+
+  /**
+   * Stop before upload (e.g. waiting for moderation), finishing the message with a note
+   */
+  async hold(message: string): Promise<void> {
+    this.stage = 'upload';
+    this.outcome = 'held';
+    this.heldMessage = message;
+    this.detail = null;
+    this.flush(true);
+    await this.editChain;
+  }
+
+  /**
+   * Mark the current stage as failed
+   */
+  async fail(): Promise<void> {
+    this.outcome = 'failed';
+    this.detail = null;
+    this.flush(true);
+    await this.editChain;
+  }
+
+  private render(): string {
+    const currentIndex = STAGES.findIndex(s => s.stage === this.stage);
+    const lines = STAGES.map(({ label }, index) => {
+      if (index < currentIndex || this.outcome === 'done') return `✅ ${label}`;
+      if (index > currentIndex || this.outcome === 'held') return `▫️ ${label}`;
+      return this.outcome === 'failed' ? `❌ ${label}` : `⏳ ${label}`;
+    });
+
+    const header = this.outcome === 'done'
+      ? '🎵 Song processed!'
+      : this.outcome === 'failed'
+        ? '🎵 Song processing failed.'
+        : this.outcome === 'held'
+          ? `🎵 ${this.heldMessage}`
+          : '🎵 Processing your song...';
+
+    let text = `${header}\n\n${lines.join('\n')}`;
+
+    if (this.outcome === 'running') {
+      if (this.stage === 'download' && this.download) {
+        const parts = [`${Math.floor(this.download.percent)}%`];
+        if (this.download.totalSize) parts.push(`of ${this.download.totalSize}`);
+        if (this.download.speed) parts.push(`• ${this.download.speed}`);
+        if (this.download.eta) parts.push(`• ETA ${this.download.eta}`);
+        text += `\n\n⬇️ ${parts.join(' ')}`;
+      } else if (this.detail) {
+        text += `\n\n${this.detail}`;
+      }
+    }
+
+    return text;
+  }
+
+  private flush(force: boolean): void {
+    if (this.messageId === undefined) return;
+
+    const now = Date.now();
+    if (!force && now - this.lastEditAt < this.minEditInterval) return;
+
+    const text = this.render();
+    if (text === this.lastText) return;
+
+    this.lastText = text;
+    this.lastEditAt = now;
+    const messageId = this.messageId;
+
+    // Serialize edits so they land in order; a failed edit never breaks the submission
+    this.editChain = this.editChain
+      .then(() => editMessageText(this.botToken, this.chatId, messageId, text))
+      .catch((error) => {
+        if (!String(error?.message).includes('message is not modified')) {
+          log.warn('Failed to update progress message', { error: error?.message || error });
+        }
+      });
+  }
+}
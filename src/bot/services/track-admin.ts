@@ -0,0 +1,199 @@
+/**
+ * Track management menus (curators and up)
+ * Move, copy and rename a song from its song card
+ */
+
+import { sendMessage, createInlineKeyboard } from '../../utils/telegram-bot';
+import { AppError } from '../../types/errors';
+import { getTrackId } from '../../utils/tracks';
+import { transferTrack, renameTrack, type TrackLocation, type TrackTransferMode } from './track-transfer';
+import { listPlaylistFolders } from './playlist-folders';
+import { findTrackById } from './playlist-service';
+import { hasPermission } from './permissions';
+import { sessionManager } from '../session/session';
+import { buildPaginatedKeyboard, showMenuMessage } from '../utils/paginated-keyboard';
+import { callbackButton } from '../utils/callback-data';
+import { logBotActivity } from '../utils/logger';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export interface TrackAdminConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+const TRANSFER_LABELS: Record<TrackTransferMode, { verb: string; progress: string; done: string; emoji: string }> = {
+  move: { verb: 'Move', progress: 'Moving', done: 'Moved', emoji: '🔀' },
+  copy: { verb: 'Copy', progress: 'Copying', done: 'Copied', emoji: '📋' },
+};
+
+/**
+ * Look up a track for a change, telling the admin if it's gone
+ */
+async function findTrackOrReport(config: TrackAdminConfig, trackId: string): Promise<TrackLocation & { trackName: string } | null> {
+  const found = await findTrackById(trackId, true);
+  if (!found) {
+    await sendMessage(config.botToken, config.chatId, '❌ Song not found. It may have been moved or deleted.');
+    return null;
+  }
+  return { playlist: found.playlistName, fileName: found.fileName, trackName: found.track.trackName || found.fileName };
+}
+
+/**
+ * Run a track change, logging it and telling the admin if it failed
+ * @returns the new location, or null if the change failed
+ */
+async function runTrackChange(
+  config: TrackAdminConfig,
+  action: string,
+  details: Record<string, unknown>,
+  change: () => Promise<TrackLocation>
+): Promise<TrackLocation | null> {
+  const { botToken, chatId, userId, username } = config;
+
+  try {
+    const location = await change();
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action,
+      details: { ...details, to: `${location.playlist}/${location.fileName}` },
+      status: 'success',
+    });
+    return location;
+  } catch (error: any) {
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: `${action}_FAILED`,
+      details: { ...details, errorMessage: error.message },
+      status: 'error',
+      error: error.stack || error.message,
+    });
+    const message = error instanceof AppError ? error.message : `Failed to update the song: ${error.message}`;
+    await sendMessage(botToken, chatId, `❌ ${message}`);
+    return null;
+  }
+}
+
+function songCardKeyboard(location: TrackLocation) {
+  return createInlineKeyboard([
+    [callbackButton('🎵 View Song', 'song_card', { trackId: getTrackId(location.playlist, location.fileName) })],
+  ]);
+}
+
+/**
+ * Playlist picker for moving or copying a track, edited over the song card
+ */
+export async function showTransferTargets(
+  config: TrackAdminConfig,
+  trackId: string,
+  mode: TrackTransferMode,
+  messageId?: number,
+  page: number = 0
+): Promise<void> {
+  const { botToken, chatId } = config;
+  const found = await findTrackById(trackId);
+  if (!found) {
+    await sendMessage(botToken, chatId, '❌ Song not found. It may have been moved or deleted.');
+    return;
+  }
+
+  let targets: string[];
+  try {
+    targets = (await listPlaylistFolders()).filter(name => name !== found.playlistName);
+  } catch (error: any) {
+    log.error('Error listing playlist folders', { error });
+    await sendMessage(botToken, chatId, '❌ Error loading playlists. Please try again later.');
+    return;
+  }
+
+  const { verb, emoji } = TRANSFER_LABELS[mode];
+  const { keyboard } = buildPaginatedKeyboard({
+    items: targets,
+    page,
+    renderItem: name => [callbackButton(`📁 ${name}`, 'track_transfer', { trackId, mode, playlistName: name })],
+    pageButton: (target, text) => callbackButton(text, 'track_transfer_menu', { trackId, mode, page: target }),
+    footer: [[callbackButton('❌ Cancel', 'song_card', { trackId })]],
+  });
+
+  const text = targets.length === 0
+    ? `${emoji} There are no other playlists to ${verb.toLowerCase()} "${found.track.trackName}" to.`
+    : `${emoji} **${verb} "${found.track.trackName}"**\n\nFrom "${found.playlistName}" to:`;
+  await showMenuMessage(botToken, chatId, text, keyboard, messageId);
+}
+
+/**
+ * Move or copy a track into the chosen playlist
+ */
+export async function transferTrackTo(
+  config: TrackAdminConfig,
+  trackId: string,
+  mode: TrackTransferMode,
+  playlistName: string,
+  messageId?: number
+): Promise<void> {
+  const source = await findTrackOrReport(config, trackId);
+  if (!source) return;
+
+  const { progress, done, emoji } = TRANSFER_LABELS[mode];
+  await showMenuMessage(config.botToken, config.chatId, `${emoji} ${progress} "${source.trackName}" to "${playlistName}"...`, undefined, messageId);
+
+  const location = await runTrackChange(
+    config,
+    mode === 'move' ? 'TRACK_MOVED' : 'TRACK_COPIED',
+    { from: `${source.playlist}/${source.fileName}` },
+    () => transferTrack(source, playlistName, mode)
+  );
+  if (location) {
+    await sendMessage(config.botToken, config.chatId, `✅ ${done} "${source.trackName}" to "${playlistName}".`, songCardKeyboard(location));
+  }
+}
+
+/**
+ * Ask for a track's new name (answered through handleTrackNameInput)
+ */
+export async function promptRenameTrack(config: TrackAdminConfig, trackId: string, messageId?: number): Promise<void> {
+  const found = await findTrackById(trackId);
+  if (!found) {
+    await sendMessage(config.botToken, config.chatId, '❌ Song not found. It may have been moved or deleted.');
+    return;
+  }
+
+  sessionManager.set(config.chatId, { type: 'waiting_for_track_name', trackId });
+  const keyboard = createInlineKeyboard([[callbackButton('❌ Cancel', 'song_card', { trackId })]]);
+  await showMenuMessage(config.botToken, config.chatId, `✏️ Send the new name for "${found.track.trackName}".`, keyboard, messageId);
+}
+
+/**
+ * Rename a track to the name the admin typed
+ */
+export async function handleTrackNameInput(config: TrackAdminConfig, text: string): Promise<void> {
+  const session = sessionManager.get(config.chatId);
+  sessionManager.delete(config.chatId);
+  if (!session?.trackId) return;
+
+  const source = await findTrackOrReport(config, session.trackId);
+  if (!source) return;
+  if (!hasPermission(config.userId, 'manage_tracks', source.playlist)) {
+    await sendMessage(config.botToken, config.chatId, '❌ You do not have permission to perform this action.');
+    return;
+  }
+
+  const location = await runTrackChange(
+    config,
+    'TRACK_RENAMED',
+    { from: `${source.playlist}/${source.fileName}` },
+    () => renameTrack(source, text)
+  );
+  if (location) {
+    await sendMessage(config.botToken, config.chatId, `✅ Renamed "${source.trackName}" to "${location.fileName.replace(/\.[^/.]+$/, '')}".`, songCardKeyboard(location));
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFileIdCache, getAudioMetadata } from './track-audio';
+import { pickRandomTrack } from '../commands/random';
+
+describe('track audio', () => {
+    describe('getAudioMetadata', () => {
+        it('uses the artist, title and duration of the track', () => {
+            expect(getAudioMetadata({ trackName: 'Song', artist: 'Band', duration: '03:05', fileName: '/music/community/song.mp3' })).toEqual({
+                title: 'Song',
+                performer: 'Band',
+                duration: 185,
+                fileName: 'song.mp3',
+            });
+        });
+
+        it('splits "Artist - Title" names when there is no artist', () => {
+            expect(getAudioMetadata({ trackName: 'Band - Song', fileName: 'a.mp3' })).toMatchObject({ title: 'Song', performer: 'Band' });
+            expect(getAudioMetadata({ fileName: '/music/rock/plain.mp3' })).toEqual({ title: 'plain', fileName: 'plain.mp3' });
+        });
+    });
+
+    describe('AudioFileIdCache', () => {
+        it('stores and forgets file IDs per track', () => {
+            const cache = new AudioFileIdCache();
+            cache.set('track1', 'file-abc');
+            expect(cache.get('track1')).toBe('file-abc');
+            cache.delete('track1');
+            expect(cache.get('track1')).toBeUndefined();
+        });
+    });
+
+    describe('pickRandomTrack', () => {
+        const playlists = [
+            { name: 'community', tracks: [{ id: 'a', fileName: '/music/community/a.mp3' }] },
+            { name: 'Rock', tracks: [{ id: 'b', fileName: '/music/rock/b.mp3' }, { id: 'c', fileName: '/music/rock/c.mp3' }] },
+        ];
+
+        it('picks across all playlists', () => {
+            expect(pickRandomTrack(playlists, undefined, () => 0)?.trackId).toBe('a');
+            expect(pickRandomTrack(playlists, undefined, () => 0.99)?.trackId).toBe('c');
+        });
+
+        it('limits the pick to one playlist', () => {
+            expect(pickRandomTrack(playlists, 'rock', () => 0)).toMatchObject({ trackId: 'b', playlistName: 'Rock' });
+            expect(pickRandomTrack(playlists, 'jazz')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,202 @@
+/**
+ * Track audio
+ * Sends playlist tracks as Telegram audio messages. Telegram returns a file_id for every upload,
+ * which is cached per track so later sends of the same track skip the upload
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { sendAudio, sendMessage, type AudioMetadata } from '../../utils/telegram-bot';
+import { parseDuration } from '../../utils/tracks';
+import { getBotDataPath } from '../utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+import { logBotActivity } from '../utils/logger';
+import { DEFAULT_SITE_URL, TELEGRAM_MAX_UPLOAD_SIZE } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export interface TrackAudioConfig {
+  botToken: string;
+  chatId: number;
+  userId?: number;
+  username?: string;
+}
+
+export interface AudioTrack {
+  trackId: string;
+  playlistName: string;
+  track: any;
+}
+
+interface CachedFileId {
+  fileId: string;
+  cachedAt: number;
+}
+
+export class AudioFileIdCache {
+  private entries: Record<string, CachedFileId>;
+  private filePath?: string;
+
+  /**
+   * @param filePath JSON file to persist file IDs in (omit to keep them in memory only)
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.entries = filePath ? readJsonFile<Record<string, CachedFileId>>(filePath, {}) : {};
+  }
+
+  get(trackId: string): string | undefined {
+    return this.entries[trackId]?.fileId;
+  }
+
+  set(trackId: string, fileId: string): void {
+    this.entries[trackId] = { fileId, cachedAt: Date.now() };
+    this.persist();
+  }
+
+  delete(trackId: string): void {
+    if (!this.entries[trackId]) return;
+    delete this.entries[trackId];
+    this.persist();
+  }
+
+  private persist(): void {
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.entries);
+    }
+  }
+}
+
+let cacheInstance: AudioFileIdCache | null = null;
+
+function getFileIdCache(): AudioFileIdCache {
+  if (!cacheInstance) {
+    cacheInstance = new AudioFileIdCache(
+      process.env.BOT_SESSION_STORE === 'memory' ? undefined : getBotDataPath('audio-file-ids.json')
+    );
+  }
+  return cacheInstance;
+}
+
+/**
+ * Drop a track's cached file_id (e.g. when the track is deleted, so a new file under the
+ * same name is uploaded again)
+ */
+export function forgetTrackAudio(trackId: string): void {
+  getFileIdCache().delete(trackId);
+}
+
+/**
+ * Title, performer and duration for the audio message
+ * Track names in "Artist - Title" form are split when there's no separate artist
+ */
+export function getAudioMetadata(track: any): AudioMetadata {
+  const fileName: string = track.fileName?.split('/').pop() || 'track.mp3';
+  const name: string = track.trackName || fileName.replace(/\.[^/.]+$/, '');
+  const separator = name.indexOf(' - ');
+  const [performer, title] = track.artist
+    ? [track.artist, name]
+    : separator > 0
+      ? [name.slice(0, separator), name.slice(separator + 3)]
+      : [undefined, name];
+
+  const duration = track.duration ? parseDuration(track.duration) : 0;
+  return {
+    title,
+    ...(performer && { performer }),
+    ...(duration > 0 && { duration }),
+    fileName,
+  };
+}
+
+/**
+ * Read the track from the local public folder, or download it from the site
+ */
+async function loadTrackFile(track: any): Promise<Buffer> {
+  const path: string = track.fileName.startsWith('/') ? track.fileName : `/music/${track.fileName}`;
+
+  try {
+    return await readFile(join(process.cwd(), 'public', path));
+  } catch {
+    // No local copy - fall back to the site
+  }
+
+  const siteUrl = (process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL).replace(/\/+$/, '');
+  const response = await fetch(`${siteUrl}${path.split('/').map(encodeURIComponent).join('/')}`);
+  if (!response.ok) {
+    throw new Error(`Failed to download track (HTTP ${response.status})`);
+  }
+
+  const size = Number(response.headers.get('content-length') || 0);
+  if (size > TELEGRAM_MAX_UPLOAD_SIZE) {
+    throw new Error('Track is too large to send through Telegram.');
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Send a track as an audio message, reusing its cached file_id when there is one
+ */
+export async function sendTrackAudio(
+  config: TrackAudioConfig,
+  { trackId, playlistName, track }: AudioTrack,
+  caption?: string,
+  replyMarkup?: any
+): Promise<boolean> {
+  const { botToken, chatId, userId, username } = config;
+  const cache = getFileIdCache();
+  const metadata = { ...getAudioMetadata(track), ...(caption && { caption }) };
+
+  const cachedFileId = cache.get(trackId);
+  if (cachedFileId) {
+    try {
+      await sendAudio(botToken, chatId, cachedFileId, metadata, replyMarkup);
+      logTrackSent(config, trackId, playlistName, true);
+      return true;
+    } catch (error: any) {
+      // The file_id is no longer valid - upload again
+      log.warn(`Cached audio for track ${trackId} failed, re-uploading`, { error: error.message });
+      cache.delete(trackId);
+    }
+  }
+
+  try {
+    const file = await loadTrackFile(track);
+    if (file.length > TELEGRAM_MAX_UPLOAD_SIZE) {
+      throw new Error('Track is too large to send through Telegram.');
+    }
+
+    const sent = await sendAudio(botToken, chatId, file, metadata, replyMarkup);
+    if (sent.fileId) {
+      cache.set(trackId, sent.fileId);
+    }
+    logTrackSent(config, trackId, playlistName, false);
+    return true;
+  } catch (error: any) {
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      userId,
+      username,
+      chatId,
+      action: 'TRACK_SEND_FAILED',
+      details: { trackId, playlist: playlistName, errorMessage: error.message },
+      status: 'error',
+      error: error.stack || error.message,
+    });
+    await sendMessage(botToken, chatId, '❌ Sorry, this song could not be sent right now. Please try again later.');
+    return false;
+  }
+}
+
+function logTrackSent(config: TrackAudioConfig, trackId: string, playlistName: string, cached: boolean): void {
+  logBotActivity({
+    timestamp: new Date().toISOString(),
+    userId: config.userId,
+    username: config.username,
+    chatId: config.chatId,
+    action: 'TRACK_SENT',
+    details: { trackId, playlist: playlistName, cached },
+    status: 'success',
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { normalizeTitle, findDuplicate, buildTrackIndex, type TrackFingerprint } from './track-index';
+
+describe('track-index', () => {
+    describe('normalizeTitle', () => {
+        it('matches sanitized file names with original titles', () => {
+            expect(normalizeTitle('Artist_-_Song.mp3')).toBe('artist song');
+            expect(normalizeTitle('Artist - Song (Official Video)')).toBe('artist song');
+            expect(normalizeTitle('Artíst - Sóng [Lyrics]')).toBe('artist song');
+        });
+    });
+
+    describe('findDuplicate', () => {
+        const index: TrackFingerprint[] = [
+            { playlist: 'community', fileName: 'Artist_-_Song.mp3', title: 'Artist_-_Song', contentHash: 'abc', durationSeconds: 200 },
+        ];
+
+        it('matches identical content', () => {
+            expect(findDuplicate(index, { title: 'Something else', contentHash: 'abc' })).toMatchObject({ reason: 'content' });
+        });
+
+        it('matches the same title with a similar duration', () => {
+            expect(findDuplicate(index, { title: 'Artist - Song', durationSeconds: 202 })).toMatchObject({ reason: 'title' });
+        });
+
+        it('does not match the same title with a different duration', () => {
+            expect(findDuplicate(index, { title: 'Artist - Song', durationSeconds: 260 })).toBeNull();
+        });
+
+        it('never matches titles that normalize to nothing', () => {
+            expect(findDuplicate([{ playlist: 'p', fileName: '_.mp3', title: '_' }], { title: '日本' })).toBeNull();
+        });
+    });
+
+    describe('buildTrackIndex', () => {
+        let dir: string | undefined;
+
+        afterEach(() => {
+            if (dir) rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('hashes files and reuses hashes of unchanged files', async () => {
+            dir = mkdtempSync(join(tmpdir(), 'track-index-'));
+            const filePath = join(dir, 'song.mp3');
+            writeFileSync(filePath, 'audio');
+
+            const scanned = [{ playlist: 'community', filePath, fileName: 'song.mp3', title: 'song', durationSeconds: 90 }];
+            const [first] = await buildTrackIndex(scanned);
+            expect(first.contentHash).toMatch(/^[0-9a-f]{64}$/);
+            expect(first.durationSeconds).toBe(90);
+
+            const [second] = await buildTrackIndex(scanned, [{ ...first, contentHash: 'cached' }]);
+            expect(second.contentHash).toBe('cached');
+        });
+    });
+});
@@ -0,0 +1,195 @@
+/**
+ * Track fingerprint index
+ * Built by generate-playlists from the scanned music library and consulted before
+ * uploading a submission, so the same song isn't added again under a different file name
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import type { ScannedTrack } from '../../utils/playlist-generator';
+import { getBotDataPath } from '../utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+import { DUPLICATE_DURATION_TOLERANCE } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+export interface TrackFingerprint {
+  playlist: string;
+  fileName: string;
+  title: string;
+  contentHash?: string;
+  durationSeconds?: number;
+  size?: number;
+  modifiedAt?: number;
+}
+
+export interface DuplicateCandidate {
+  title: string;
+  contentHash?: string;
+  durationSeconds?: number;
+}
+
+export interface DuplicateMatch {
+  track: TrackFingerprint;
+  reason: 'content' | 'title';
+}
+
+// Noise that differs between uploads of the same song
+const TITLE_NOISE = /[([](official\s*(music\s*)?(video|audio)|lyrics?(\s*video)?|audio|hd|hq|visuali[sz]er)[)\]]/gi;
+
+function getIndexPath(): string {
+  return getBotDataPath('track-index.json');
+}
+
+/**
+ * Normalize a title for comparison
+ * "Artist - Song (Official Video)" and "Artist_-_Song.mp3" both become "artist song"
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .replace(/\.[a-z0-9]{2,4}$/i, '')
+    .replace(TITLE_NOISE, ' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find an indexed track that matches the candidate
+ * Identical content always matches; otherwise the normalized title must match
+ * and the durations (when both are known) must be within DUPLICATE_DURATION_TOLERANCE seconds
+ */
+export function findDuplicate(index: TrackFingerprint[], candidate: DuplicateCandidate): DuplicateMatch | null {
+  if (candidate.contentHash) {
+    const track = index.find(entry => entry.contentHash === candidate.contentHash);
+    if (track) return { track, reason: 'content' };
+  }
+
+  const titleKey = normalizeTitle(candidate.title);
+  if (!titleKey) return null;
+
+  const track = index.find(entry => {
+    if (normalizeTitle(entry.title) !== titleKey) return false;
+    if (entry.durationSeconds === undefined || candidate.durationSeconds === undefined) return true;
+    return Math.abs(entry.durationSeconds - candidate.durationSeconds) <= DUPLICATE_DURATION_TOLERANCE;
+  });
+  return track ? { track, reason: 'title' } : null;
+}
+
+/**
+ * SHA-256 of a file's contents
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Fingerprint scanned tracks, reusing hashes of files that haven't changed since the last build
+ */
+export async function buildTrackIndex(scanned: ScannedTrack[], previous: TrackFingerprint[] = []): Promise<TrackFingerprint[]> {
+  const previousByFile = new Map(previous.map(entry => [`${entry.playlist}/${entry.fileName}`, entry]));
+  const index: TrackFingerprint[] = [];
+
+  for (const track of scanned) {
+    const fingerprint: TrackFingerprint = {
+      playlist: track.playlist,
+      fileName: track.fileName,
+      title: track.title,
+      ...(track.durationSeconds && { durationSeconds: track.durationSeconds }),
+    };
+
+    try {
+      const stats = await stat(track.filePath);
+      const cached = previousByFile.get(`${track.playlist}/${track.fileName}`);
+      const unchanged = cached?.contentHash && cached.size === stats.size && cached.modifiedAt === stats.mtimeMs;
+
+      fingerprint.contentHash = unchanged ? cached!.contentHash : await hashFile(track.filePath);
+      fingerprint.size = stats.size;
+      fingerprint.modifiedAt = stats.mtimeMs;
+    } catch (error: any) {
+      log.warn(`Could not hash ${track.filePath}`, { error: error.message });
+    }
+
+    index.push(fingerprint);
+  }
+
+  return index;
+}
+
+export function loadTrackIndex(): TrackFingerprint[] {
+  return readJsonFile<TrackFingerprint[]>(getIndexPath(), []);
+}
+
+export function saveTrackIndex(index: TrackFingerprint[]): void {
+  writeJsonFile(getIndexPath(), index);
+}
+
+/**
+ * Record a freshly uploaded track so it's caught before the next full rebuild
+ */
+export function addToTrackIndex(fingerprint: TrackFingerprint): void {
+  const index = loadTrackIndex().filter(entry =>
+    !(entry.playlist === fingerprint.playlist && entry.fileName === fingerprint.fileName)
+  );
+  index.push(fingerprint);
+  saveTrackIndex(index);
+}
+
+/**
+ * Drop a deleted track from the index
+ * @returns the removed fingerprint, so it can be restored with the track
+ */
+export function removeFromTrackIndex(playlist: string, fileName: string): TrackFingerprint | undefined {
+  const index = loadTrackIndex();
+  const position = index.findIndex(entry =>
+    entry.playlist === playlist && entry.fileName.toLowerCase() === fileName.toLowerCase()
+  );
+  if (position === -1) return undefined;
+
+  const [removed] = index.splice(position, 1);
+  saveTrackIndex(index);
+  return removed;
+}
+
+/**
+ * Follow a playlist rename so its tracks keep their fingerprints
+ */
+export function renamePlaylistInTrackIndex(from: string, to: string): void {
+  const index = loadTrackIndex();
+  if (!index.some(entry => entry.playlist === from)) return;
+  saveTrackIndex(index.map(entry => entry.playlist === from ? { ...entry, playlist: to } : entry));
+}
+
+/**
+ * Follow a track that was moved, copied or renamed so its fingerprint stays indexed
+ * @param copy Keep the original entry as well
+ */
+export function relocateInTrackIndex(
+  from: { playlist: string; fileName: string },
+  to: { playlist: string; fileName: string },
+  copy: boolean = false
+): void {
+  const index = loadTrackIndex();
+  const source = index.find(entry =>
+    entry.playlist === from.playlist && entry.fileName.toLowerCase() === from.fileName.toLowerCase()
+  );
+  if (!source) return;
+
+  const relocated: TrackFingerprint = {
+    ...source,
+    playlist: to.playlist,
+    fileName: to.fileName,
+    title: to.fileName.replace(/\.[^/.]+$/, ''),
+  };
+  saveTrackIndex([...(copy ? index : index.filter(entry => entry !== source)), relocated]);
+}
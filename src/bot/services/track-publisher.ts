@@ -0,0 +1,168 @@
+/**
+ * Track publisher
+ * Uploads downloaded tracks to DreamHost, keeps the local copy and duplicate index
+ * in sync, and refreshes the playlists - shared by direct and moderated submissions
+ */
+
+import { copyFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { uploadToDreamhost, isTransientFTPError } from '../../utils/upload-to-dreamhost';
+import { retryWithBackoff } from '../../utils/retry';
+import { addToTrackIndex } from './track-index';
+import { createLogger } from '../../utils/logger';
+import { escapeMarkdown } from '../../utils/telegram-bot';
+import { COMMUNITY_PLAYLIST, DEFAULT_FTP_HOST, DEFAULT_FTP_PATH, DEFAULT_SITE_URL, UPLOAD_MAX_RETRIES, UPLOAD_RETRY_BASE_DELAY } from '../../constants';
+
+const log = createLogger('publish');
+
+export interface PublishableTrack {
+  filePath: string;
+  fileName: string;
+  title?: string;
+  error?: string; // Tracks that already failed are reported, not uploaded
+  contentHash?: string;
+  durationSeconds?: number;
+}
+
+export interface TrackResult {
+  title: string;
+  fileName: string;
+  error?: string;
+}
+
+export interface PublishHooks {
+  onTrackStart?: (index: number, total: number, label: string) => void;
+  onRetry?: (attempt: number) => void;
+  onRefresh?: () => void;
+}
+
+/**
+ * Upload tracks in order; one failed track doesn't stop the rest
+ * A single-track publish rethrows its upload error. Playlists are refreshed if anything was added.
+ */
+export async function publishTracks(
+  tracks: PublishableTrack[],
+  targetPlaylist: string,
+  hooks: PublishHooks = {}
+): Promise<TrackResult[]> {
+  const ftpHost = process.env.DREAMHOST_FTP_HOST || DEFAULT_FTP_HOST;
+  const ftpUser = process.env.DREAMHOST_FTP_USER;
+  const ftpPassword = process.env.DREAMHOST_FTP_PASSWORD;
+  const basePath = process.env.DREAMHOST_FTP_PATH?.replace(/\/[^/]+$/, '') || DEFAULT_FTP_PATH;
+  const useSFTP = process.env.DREAMHOST_USE_SFTP === 'true';
+  const ftpPath = `${basePath}/${targetPlaylist}`;
+
+  if (!ftpUser || !ftpPassword) {
+    throw new Error('FTP credentials not configured');
+  }
+
+  const localCommunityDir = join(process.cwd(), 'public', 'music', COMMUNITY_PLAYLIST);
+  await mkdir(localCommunityDir, { recursive: true });
+
+  const results: TrackResult[] = [];
+  for (const [index, track] of tracks.entries()) {
+    const label = track.title || track.fileName;
+    if (track.error) {
+      results.push({ title: label, fileName: track.fileName, error: track.error });
+      continue;
+    }
+
+    hooks.onTrackStart?.(index, tracks.length, label);
+
+    try {
+      // Upload using the file path (streams internally), retrying transient FTP errors
+      await retryWithBackoff(
+        () => uploadToDreamhost(track.filePath, track.fileName, {
+          host: ftpHost,
+          user: ftpUser,
+          password: ftpPassword,
+          remotePath: ftpPath,
+          useSFTP: useSFTP,
+        }),
+        {
+          retries: UPLOAD_MAX_RETRIES,
+          baseDelay: UPLOAD_RETRY_BASE_DELAY,
+          shouldRetry: isTransientFTPError,
+          onRetry: (error, attempt, delay) => {
+            log.warn(`Upload attempt ${attempt} failed, retrying in ${delay}ms`, { fileName: track.fileName, error: error.message });
+            hooks.onRetry?.(attempt + 1);
+          },
+        }
+      );
+
+      // Also save a local copy for localhost testing
+      await copyFile(track.filePath, join(localCommunityDir, track.fileName));
+      results.push({ title: label, fileName: track.fileName });
+
+      addToTrackIndex({
+        playlist: targetPlaylist,
+        fileName: track.fileName,
+        title: track.fileName.replace(/\.[^/.]+$/, ''),
+        ...(track.contentHash && { contentHash: track.contentHash }),
+        ...(track.durationSeconds && { durationSeconds: track.durationSeconds }),
+      });
+    } catch (error: any) {
+      if (tracks.length === 1) throw error;
+      log.error(`Failed to upload track "${label}"`, { fileName: track.fileName, error: error.message });
+      results.push({ title: label, fileName: track.fileName, error: error.message || String(error) });
+    }
+  }
+
+  if (results.some(result => !result.error)) {
+    hooks.onRefresh?.();
+    await refreshPlaylists();
+  }
+
+  return results;
+}
+
+/**
+ * Regenerate playlists locally and ask the site to rescan
+ */
+export async function refreshPlaylists(): Promise<void> {
+  try {
+    const { exec } = await import('child_process');
+    const { promisify } = await import('util');
+    const execAsync = promisify(exec);
+    await execAsync('npm run generate-playlists');
+  } catch (error) {
+    log.error('Failed to regenerate playlists locally', { error });
+  }
+
+  // Trigger playlist update (if site URL is configured)
+  const siteUrl = process.env.PUBLIC_SITE_URL || DEFAULT_SITE_URL;
+  if (siteUrl) {
+    try {
+      await fetch(`${siteUrl}/api/update-playlists`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    } catch (error) {
+      log.error('Failed to update playlists', { error });
+    }
+  }
+}
+
+/**
+ * Per-track summary for multi-track submissions
+ */
+export function formatTrackSummary(
+  results: TrackResult[],
+  playlistName: string,
+  trackLimit?: number // Set when the link had more tracks than the per-submission limit
+): string {
+  const added = results.filter(result => !result.error).length;
+  const lines = results.map((result, index) =>
+    result.error
+      ? `${index + 1}. ❌ ${escapeMarkdown(result.title)} - ${escapeMarkdown(result.error)}`
+      : `${index + 1}. ✅ ${escapeMarkdown(result.title)}`
+  );
+
+  let text = `✅ Added ${added} of ${results.length} track${results.length !== 1 ? 's' : ''} to the "${escapeMarkdown(playlistName)}" playlist.\n\n${lines.join('\n')}`;
+  if (trackLimit !== undefined) {
+    text += `\n\n⚠️ The link has more than ${trackLimit} track${trackLimit !== 1 ? 's' : ''}; only the first ${trackLimit} were taken (limit per submission).`;
+  }
+  return `${text}\n\nThey will be available on the site shortly.`;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { searchTracks, scoreTrackName, normalizeSearchText } from './track-search';
+
+const playlists = [
+    {
+        name: 'community',
+        tracks: [
+            { id: 'a', trackName: 'Moonlight Sonata', fileName: '/music/community/moonlight-sonata.mp3' },
+            { id: 'b', trackName: 'Dark Side Blues', fileName: '/music/community/dark-side-blues.mp3' },
+        ],
+    },
+    {
+        name: 'rock',
+        tracks: [
+            { id: 'c', trackName: 'Moon', fileName: '/music/rock/moon.mp3' },
+            { trackName: 'Café del Mar', fileName: '/music/rock/cafe-del-mar.mp3' },
+        ],
+    },
+];
+
+describe('track search', () => {
+    it('normalizes case, accents and punctuation', () => {
+        expect(normalizeSearchText('  Café—Del_Mar! ')).toBe('cafe del mar');
+    });
+
+    it('ranks exact and prefix matches first', () => {
+        expect(searchTracks(playlists, 'moon', 10).map(result => result.trackId)).toEqual(['c', 'a']);
+    });
+
+    it('matches words in any order and tolerates typos', () => {
+        expect(searchTracks(playlists, 'blues dark', 10)[0].trackId).toBe('b');
+        expect(searchTracks(playlists, 'sonatta', 10)[0].trackId).toBe('a');
+    });
+
+    it('derives IDs for tracks without one', () => {
+        const [result] = searchTracks(playlists, 'cafe', 10);
+        expect(result.playlistName).toBe('rock');
+        expect(result.trackId).toMatch(/^[0-9a-z]+$/);
+    });
+
+    it('ignores unrelated names and empty queries', () => {
+        expect(scoreTrackName('Dark Side Blues', 'xyz')).toBe(0);
+        expect(searchTracks(playlists, '  ', 10)).toEqual([]);
+    });
+
+    it('respects the limit', () => {
+        expect(searchTracks(playlists, 'o', 1)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Track search
+ * Fuzzy-matches track names across all playlists, tolerating word order, partial words and typos
+ */
+
+import { getIdOfTrack } from './playlist-service';
+
+export interface TrackSearchResult {
+  trackId: string;
+  playlistName: string;
+  track: any;
+  score: number;
+}
+
+/**
+ * Lowercase, strip accents and collapse punctuation into single spaces
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a query word matches a word of the name (0 = not at all)
+ */
+function scoreWord(queryWord: string, word: string): number {
+  if (word === queryWord) return 1;
+  if (word.startsWith(queryWord)) return 0.9;
+  if (word.includes(queryWord)) return 0.7;
+
+  // Allow one typo in short words and two in long ones, comparing against the word's prefix
+  const allowed = queryWord.length >= 6 ? 2 : queryWord.length >= 3 ? 1 : 0;
+  if (allowed > 0 && editDistance(queryWord, word.slice(0, queryWord.length + 1)) <= allowed) {
+    return 0.5;
+  }
+  return 0;
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let position = 0;
+  for (const char of haystack) {
+    if (char === needle[position]) position++;
+    if (position === needle.length) return true;
+  }
+  return needle.length === 0;
+}
+
+/**
+ * Score a track name against a normalized query (0 = no match)
+ */
+export function scoreTrackName(name: string, query: string): number {
+  const normalized = normalizeSearchText(name);
+  if (!normalized || !query) return 0;
+
+  if (normalized === query) return 100;
+  if (normalized.startsWith(query)) return 90;
+  if (normalized.includes(query)) return 80;
+
+  // Every query word has to match some word of the name
+  const words = normalized.split(' ');
+  let total = 0;
+  for (const queryWord of query.split(' ')) {
+    const best = Math.max(...words.map(word => scoreWord(queryWord, word)));
+    if (best === 0) {
+      total = 0;
+      break;
+    }
+    total += best;
+  }
+  if (total > 0) {
+    return Math.round(40 + 30 * total / query.split(' ').length);
+  }
+
+  // Last resort: letters in order ("dsb" finds "Dark Side Blues")
+  return query.length >= 3 && isSubsequence(query.replace(/ /g, ''), normalized.replace(/ /g, '')) ? 20 : 0;
+}
+
+/**
+ * Best matches across the given playlists, highest score first
+ */
+export function searchTracks(playlists: any[], query: string, limit: number): TrackSearchResult[] {
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) return [];
+
+  const results: TrackSearchResult[] = [];
+  for (const playlist of playlists) {
+    for (const track of playlist.tracks || []) {
+      const name = track.trackName || track.fileName?.split('/').pop()?.replace(/\.[^/.]+$/, '') || '';
+      const score = scoreTrackName(name, normalizedQuery);
+      if (score > 0 && track.fileName) {
+        results.push({
+          trackId: getIdOfTrack(playlist.name, track),
+          playlistName: playlist.name,
+          track,
+          score,
+        });
+      }
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || String(a.track.trackName).localeCompare(String(b.track.trackName)))
+    .slice(0, limit);
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { toTrackFileName } from './track-transfer';
+
+describe('toTrackFileName', () => {
+    it('sanitizes the name and keeps the original extension', () => {
+        expect(toTrackFileName('Band - New Song!', 'old_name.MP3')).toBe('Band_-_New_Song.mp3');
+        expect(toTrackFileName('  spaced  ', 'a.ogg')).toBe('spaced.ogg');
+    });
+
+    it('drops an extension typed by the admin', () => {
+        expect(toTrackFileName('renamed.mp3', 'a.ogg')).toBe('renamed.ogg');
+    });
+
+    it('rejects names with nothing usable left', () => {
+        expect(toTrackFileName('!!!', 'a.mp3')).toBeNull();
+        expect(toTrackFileName('', 'a.mp3')).toBeNull();
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Track transfers
+ * Moves, copies and renames track files on the storage backend (and their local copies),
+ * keeping the duplicate index and audio cache in step, then refreshes the playlists
+ */
+
+import { copyFile, mkdir, rename } from 'fs/promises';
+import { dirname, extname, join } from 'path';
+import { moveOnDreamhost, copyOnDreamhost, listOnDreamhost } from '../../utils/upload-to-dreamhost';
+import { validatePlaylistName, clearPlaylistCache } from '../../utils/telegram-bot';
+import { getTrackId } from '../../utils/tracks';
+import { ValidationError } from '../../types/errors';
+import { getStorage } from '../utils/storage';
+import { refreshPlaylists } from './track-publisher';
+import { relocateInTrackIndex } from './track-index';
+import { forgetTrackAudio } from './track-audio';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('storage');
+
+export type TrackTransferMode = 'move' | 'copy';
+
+export interface TrackLocation {
+  playlist: string;
+  fileName: string;
+}
+
+function getLocalTrackPath({ playlist, fileName }: TrackLocation): string {
+  return join(process.cwd(), 'public', 'music', playlist, fileName);
+}
+
+/**
+ * Remote names are lowercase (uploads are normalized by sanitizeFileName)
+ */
+function getRemoteTrackPath(basePath: string, { playlist, fileName }: TrackLocation): string {
+  return `${basePath}/${playlist}/${fileName.toLowerCase()}`;
+}
+
+/**
+ * File name for a renamed track, keeping the original extension
+ * @returns null if nothing usable is left of the name
+ */
+export function toTrackFileName(name: string, originalFileName: string): string | null {
+  const base = name
+    .trim()
+    .replace(/\.[a-z0-9]{2,4}$/i, '')
+    .replace(/[^a-zA-Z0-9._-]/g, '_')
+    .replace(/_{2,}/g, '_')
+    .replace(/^[_.]+|_+$/g, '')
+    .substring(0, 200);
+  return base ? base + extname(originalFileName).toLowerCase() : null;
+}
+
+async function requireFreeName(basePath: string, target: TrackLocation, options: ReturnType<typeof getStorage>['options']): Promise<void> {
+  const entries = await listOnDreamhost(`${basePath}/${target.playlist}`, options);
+  if (entries.some(entry => entry.name.toLowerCase() === target.fileName.toLowerCase())) {
+    throw new ValidationError(`"${target.playlist}" already has a song called "${target.fileName}".`);
+  }
+}
+
+/**
+ * Move or copy the local file (a missing local copy isn't an error - it only exists for localhost testing)
+ */
+async function relocateLocalFile(from: TrackLocation, to: TrackLocation, copy: boolean): Promise<void> {
+  try {
+    await mkdir(dirname(getLocalTrackPath(to)), { recursive: true });
+    await (copy ? copyFile : rename)(getLocalTrackPath(from), getLocalTrackPath(to));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') log.warn(`Failed to ${copy ? 'copy' : 'move'} local copy`, { error: error.message });
+  }
+}
+
+async function relocateTrack(from: TrackLocation, to: TrackLocation, copy: boolean): Promise<void> {
+  const { basePath, options } = getStorage();
+  await requireFreeName(basePath, to, options);
+
+  const fromPath = getRemoteTrackPath(basePath, from);
+  const toPath = getRemoteTrackPath(basePath, to);
+  await (copy ? copyOnDreamhost : moveOnDreamhost)(fromPath, toPath, options);
+
+  await relocateLocalFile(from, to, copy);
+  relocateInTrackIndex(from, to, copy);
+  if (!copy) {
+    forgetTrackAudio(getTrackId(from.playlist, from.fileName));
+  }
+
+  // Refresh the same way a new submission does
+  await refreshPlaylists();
+  clearPlaylistCache();
+}
+
+/**
+ * Move or copy a track into another playlist
+ * @returns where the track now lives
+ */
+export async function transferTrack(from: TrackLocation, targetPlaylist: string, mode: TrackTransferMode): Promise<TrackLocation> {
+  if (!validatePlaylistName(targetPlaylist)) {
+    throw new ValidationError('Invalid playlist name.');
+  }
+  if (targetPlaylist === from.playlist) {
+    throw new ValidationError(`The song is already in "${targetPlaylist}".`);
+  }
+
+  const to = { playlist: targetPlaylist, fileName: from.fileName };
+  await relocateTrack(from, to, mode === 'copy');
+  return to;
+}
+
+/**
+ * Rename a track's file (its title in the player comes from the file name)
+ * @returns where the track now lives
+ */
+export async function renameTrack(from: TrackLocation, newName: string): Promise<TrackLocation> {
+  const fileName = toTrackFileName(newName, from.fileName);
+  if (!fileName) {
+    throw new ValidationError('Song names need at least one letter or number.');
+  }
+
+  const to = { playlist: from.playlist, fileName };
+  if (fileName.toLowerCase() === from.fileName.toLowerCase()) {
+    return from;
+  }
+  await relocateTrack(from, to, false);
+  return to;
+}
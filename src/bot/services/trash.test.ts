@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { getExpiredTrash, type TrashEntry } from './trash';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(id: string, deletedAt: number): TrashEntry {
+    return { id, playlist: 'community', fileName: `${id}.mp3`, trashedName: `${id}-${id}.mp3`, deletedAt, hasLocalCopy: false };
+}
+
+describe('trash', () => {
+    describe('getExpiredTrash', () => {
+        const now = 100 * DAY;
+
+        it('returns entries past the retention period', () => {
+            const entries = [entry('old', now - 31 * DAY), entry('edge', now - 30 * DAY), entry('new', now - 2 * DAY)];
+            expect(getExpiredTrash(entries, 30, now).map(e => e.id)).toEqual(['old', 'edge']);
+        });
+
+        it('expires everything with a zero-day retention', () => {
+            expect(getExpiredTrash([entry('a', now)], 0, now)).toHaveLength(1);
+        });
+    });
+});
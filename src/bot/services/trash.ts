@@ -0,0 +1,245 @@
+/**
+ * Trash for deleted songs
+ * Deleting a song moves it into a hidden trash folder on the storage backend (and its local
+ * copy into the bot data dir) so it can be restored; entries are purged after the retention period
+ */
+
+import { randomBytes } from 'crypto';
+import { copyFile, mkdir, rename, rm, unlink } from 'fs/promises';
+import { join } from 'path';
+import { moveOnDreamhost, deleteFromDreamhost } from '../../utils/upload-to-dreamhost';
+import { removeFromTrackIndex, addToTrackIndex, type TrackFingerprint } from './track-index';
+import { getBotDataPath } from '../utils/data-dir';
+import { getStorage } from '../utils/storage';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+import { DEFAULT_TRASH_RETENTION_DAYS, TRASH_FOLDER, TRASH_PURGE_INTERVAL } from '../../constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('storage');
+
+export interface TrashEntry {
+  id: string;
+  playlist: string;
+  fileName: string; // Name in the playlist folder
+  trashedName: string; // Name in the trash folder (prefixed with the ID so names never collide)
+  deletedAt: number;
+  deletedBy?: { userId?: number; username?: string };
+  hasLocalCopy: boolean;
+  fingerprint?: TrackFingerprint; // Duplicate-index entry, put back on restore
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+function getTrashIndexPath(): string {
+  return getBotDataPath('trash.json');
+}
+
+function getLocalTrashDir(): string {
+  return getBotDataPath('trash');
+}
+
+function getLocalPlaylistPath(playlist: string, fileName: string): string {
+  return join(process.cwd(), 'public', 'music', playlist, fileName);
+}
+
+function loadTrash(): TrashEntry[] {
+  return readJsonFile<TrashEntry[]>(getTrashIndexPath(), []);
+}
+
+function saveTrash(entries: TrashEntry[]): void {
+  writeJsonFile(getTrashIndexPath(), entries);
+}
+
+/**
+ * Remote names are lowercase (uploads are normalized by sanitizeFileName)
+ */
+function getRemotePlaylistPath(basePath: string, playlist: string, fileName: string): string {
+  return `${basePath}/${playlist}/${fileName.toLowerCase()}`;
+}
+
+function getRemoteTrashPath(basePath: string, trashedName: string): string {
+  return `${basePath}/${TRASH_FOLDER}/${trashedName}`;
+}
+
+/**
+ * Move a local file, falling back to copy + delete across devices
+ * @returns false if the source doesn't exist
+ */
+async function moveLocalFile(fromPath: string, toPath: string): Promise<boolean> {
+  try {
+    await rename(fromPath, toPath);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return false;
+    if (error.code !== 'EXDEV') throw error;
+    await copyFile(fromPath, toPath);
+    await unlink(fromPath);
+    return true;
+  }
+}
+
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Trash entries, most recently deleted first
+ */
+export function listTrash(): TrashEntry[] {
+  return loadTrash().sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+export function getTrashEntry(id: string): TrashEntry | undefined {
+  return loadTrash().find(entry => entry.id === id);
+}
+
+/**
+ * Follow a playlist rename so trashed songs are restored into the renamed folder
+ */
+export function renamePlaylistInTrash(from: string, to: string): void {
+  const entries = loadTrash();
+  if (!entries.some(entry => entry.playlist === from)) return;
+  saveTrash(entries.map(entry => entry.playlist === from
+    ? { ...entry, playlist: to, ...(entry.fingerprint && { fingerprint: { ...entry.fingerprint, playlist: to } }) }
+    : entry));
+}
+
+/**
+ * Entries older than the retention period
+ */
+export function getExpiredTrash(entries: TrashEntry[], retentionDays: number, now: number = Date.now()): TrashEntry[] {
+  return entries.filter(entry => now - entry.deletedAt >= retentionDays * DAY_MS);
+}
+
+/**
+ * Move a song from its playlist into the trash
+ */
+export async function moveToTrash(
+  playlist: string,
+  fileName: string,
+  deletedBy?: TrashEntry['deletedBy']
+): Promise<TrashEntry> {
+  const { basePath, options } = getStorage();
+  const id = randomBytes(6).toString('hex');
+  const trashedName = `${id}-${fileName.toLowerCase()}`;
+
+  await moveOnDreamhost(
+    getRemotePlaylistPath(basePath, playlist, fileName),
+    getRemoteTrashPath(basePath, trashedName),
+    options
+  );
+
+  await mkdir(getLocalTrashDir(), { recursive: true });
+  let hasLocalCopy = false;
+  try {
+    hasLocalCopy = await moveLocalFile(getLocalPlaylistPath(playlist, fileName), join(getLocalTrashDir(), trashedName));
+  } catch (error: any) {
+    log.warn('Failed to move local copy to trash', { error: error.message });
+  }
+
+  const fingerprint = removeFromTrackIndex(playlist, fileName);
+  const entry: TrashEntry = {
+    id,
+    playlist,
+    fileName,
+    trashedName,
+    deletedAt: Date.now(),
+    ...(deletedBy && { deletedBy }),
+    hasLocalCopy,
+    ...(fingerprint && { fingerprint }),
+  };
+  saveTrash([...loadTrash(), entry]);
+  return entry;
+}
+
+/**
+ * Move a trashed song back into its playlist
+ * @returns the restored entry, or null if it is no longer in the trash
+ */
+export async function restoreFromTrash(id: string): Promise<TrashEntry | null> {
+  const entry = getTrashEntry(id);
+  if (!entry) return null;
+
+  const { basePath, options } = getStorage();
+  await moveOnDreamhost(
+    getRemoteTrashPath(basePath, entry.trashedName),
+    getRemotePlaylistPath(basePath, entry.playlist, entry.fileName),
+    options
+  );
+
+  if (entry.hasLocalCopy) {
+    try {
+      await mkdir(join(process.cwd(), 'public', 'music', entry.playlist), { recursive: true });
+      await moveLocalFile(join(getLocalTrashDir(), entry.trashedName), getLocalPlaylistPath(entry.playlist, entry.fileName));
+    } catch (error: any) {
+      log.warn('Failed to restore local copy from trash', { error: error.message });
+    }
+  }
+
+  if (entry.fingerprint) {
+    addToTrackIndex(entry.fingerprint);
+  }
+
+  saveTrash(loadTrash().filter(other => other.id !== id));
+  return entry;
+}
+
+/**
+ * Permanently delete a trashed song
+ * @returns the purged entry, or null if it is no longer in the trash
+ */
+export async function purgeFromTrash(id: string): Promise<TrashEntry | null> {
+  const entry = getTrashEntry(id);
+  if (!entry) return null;
+
+  const { basePath, options } = getStorage();
+  try {
+    await deleteFromDreamhost(entry.trashedName, { ...options, remotePath: `${basePath}/${TRASH_FOLDER}` });
+  } catch (error: any) {
+    // Already gone is as good as deleted
+    if (!error.message?.includes('not found')) throw error;
+  }
+
+  await rm(join(getLocalTrashDir(), entry.trashedName), { force: true }).catch(() => { });
+
+  saveTrash(loadTrash().filter(other => other.id !== id));
+  return entry;
+}
+
+/**
+ * Purge every entry past the retention period
+ * @returns the number of entries purged
+ */
+export async function purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+  let purged = 0;
+  for (const entry of getExpiredTrash(loadTrash(), getTrashRetentionDays(), now)) {
+    try {
+      if (await purgeFromTrash(entry.id)) purged++;
+    } catch (error: any) {
+      log.warn(`Failed to purge "${entry.fileName}" from trash`, { error: error.message });
+    }
+  }
+  return purged;
+}
+
+/**
+ * Purge expired trash now and then periodically (polling mode)
+ */
+export function startTrashPurge(intervalMs: number = TRASH_PURGE_INTERVAL): void {
+  if (purgeTimer) return;
+
+  const purge = () => {
+    purgeExpiredTrash()
+      .then(count => {
+        if (count > 0) log.info(`Purged ${count} expired song${count !== 1 ? 's' : ''} from trash`);
+      })
+      .catch(error => log.warn('Trash purge failed', { error: error.message }));
+  };
+
+  purge();
+  purgeTimer = setInterval(purge, intervalMs);
+  purgeTimer.unref?.();
+}
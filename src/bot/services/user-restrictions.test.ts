@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RestrictionStore, parseDuration } from './user-restrictions';
+import { parseRestrictionArgs } from '../commands/bans';
+import { DEFAULT_MUTE_DURATION } from '../../constants';
+
+describe('user restrictions', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('parseDuration', () => {
+        it('reads minutes, hours, days and weeks', () => {
+            expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+            expect(parseDuration('2H')).toBe(2 * 60 * 60 * 1000);
+            expect(parseDuration('1w')).toBe(7 * 24 * 60 * 60 * 1000);
+        });
+
+        it('rejects anything else', () => {
+            expect(parseDuration('spam')).toBeNull();
+            expect(parseDuration('0h')).toBeNull();
+            expect(parseDuration('5')).toBeNull();
+        });
+    });
+
+    describe('RestrictionStore', () => {
+        it('keeps bans until lifted and replaces earlier restrictions', () => {
+            const store = new RestrictionStore();
+            store.set({ userId: 7, type: 'mute', until: Date.now() + 60000 });
+            store.set({ userId: 7, type: 'ban', reason: 'spam' });
+
+            expect(store.list()).toMatchObject([{ userId: 7, type: 'ban', reason: 'spam' }]);
+            expect(store.lift(7)).toBe(true);
+            expect(store.lift(7)).toBe(false);
+            expect(store.get(7)).toBeUndefined();
+        });
+
+        it('forgets mutes once they expire', () => {
+            vi.useFakeTimers();
+            const store = new RestrictionStore();
+            store.set({ userId: 8, type: 'mute', until: Date.now() + 60000 });
+            expect(store.get(8)).toBeDefined();
+
+            vi.advanceTimersByTime(60001);
+            expect(store.get(8)).toBeUndefined();
+            expect(store.list()).toEqual([]);
+        });
+    });
+
+    describe('parseRestrictionArgs', () => {
+        it('reads a user ID, optional duration and reason', () => {
+            expect(parseRestrictionArgs('ban', '12 posting spam')).toEqual({ userId: 12, type: 'ban', reason: 'posting spam' });
+            expect(parseRestrictionArgs('mute', '12 2h')).toEqual({ userId: 12, type: 'mute', durationMs: 2 * 60 * 60 * 1000 });
+            expect(parseRestrictionArgs('mute', '12 flooding')).toEqual({ userId: 12, type: 'mute', durationMs: DEFAULT_MUTE_DURATION, reason: 'flooding' });
+        });
+
+        it('takes the user from the replied-to submission', () => {
+            expect(parseRestrictionArgs('ban', 'spam', 99)).toEqual({ userId: 99, type: 'ban', reason: 'spam' });
+        });
+
+        it('asks for a numeric ID', () => {
+            expect(parseRestrictionArgs('ban', '@someone')).toMatch(/user ID/);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Banned and muted users
+ * Their messages, buttons and inline queries are dropped before any handling. Bans last until
+ * lifted, mutes until they expire; the list is persisted and every change is logged
+ */
+
+import { getBotDataPath } from '../utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../utils/json-file';
+
+export type RestrictionType = 'ban' | 'mute';
+
+export interface UserRestriction {
+  userId: number;
+  type: RestrictionType;
+  until?: number; // Mutes only
+  reason?: string;
+  restrictedBy?: number;
+  restrictedAt: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a mute duration like "30m", "2h", "1d" or "1w"
+ * @returns milliseconds, or null if it isn't a duration
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*([mhdw])$/);
+  if (!match) return null;
+  const amount = parseInt(match[1], 10);
+  return amount > 0 ? amount * DURATION_UNITS[match[2]] : null;
+}
+
+export function isRestrictionActive(restriction: UserRestriction, now: number = Date.now()): boolean {
+  return restriction.until === undefined || restriction.until > now;
+}
+
+export class RestrictionStore {
+  private restrictions: UserRestriction[];
+  private filePath?: string;
+
+  /**
+   * @param filePath JSON file to persist the list in (omit to keep it in memory only)
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.restrictions = filePath ? readJsonFile<UserRestriction[]>(filePath, []) : [];
+  }
+
+  /**
+   * Active restrictions (expired mutes are dropped)
+   */
+  list(): UserRestriction[] {
+    this.pruneExpired();
+    return [...this.restrictions];
+  }
+
+  get(userId: number): UserRestriction | undefined {
+    return this.list().find(restriction => restriction.userId === userId);
+  }
+
+  /**
+   * Ban or mute a user, replacing any restriction they already have
+   */
+  set(restriction: Omit<UserRestriction, 'restrictedAt'>): UserRestriction {
+    const entry = { ...restriction, restrictedAt: Date.now() };
+    this.restrictions = [...this.restrictions.filter(existing => existing.userId !== restriction.userId), entry];
+    this.persist();
+    return entry;
+  }
+
+  /**
+   * @returns false if the user wasn't banned or muted
+   */
+  lift(userId: number): boolean {
+    const remaining = this.list().filter(restriction => restriction.userId !== userId);
+    if (remaining.length === this.restrictions.length) return false;
+    this.restrictions = remaining;
+    this.persist();
+    return true;
+  }
+
+  private pruneExpired(): void {
+    const active = this.restrictions.filter(restriction => isRestrictionActive(restriction));
+    if (active.length === this.restrictions.length) return;
+    this.restrictions = active;
+    this.persist();
+  }
+
+  private persist(): void {
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.restrictions);
+    }
+  }
+}
+
+let storeInstance: RestrictionStore | null = null;
+
+export function getRestrictionStore(): RestrictionStore {
+  if (!storeInstance) {
+    storeInstance = new RestrictionStore(
+      process.env.BOT_SESSION_STORE === 'memory' ? undefined : getBotDataPath('restricted-users.json')
+    );
+  }
+  return storeInstance;
+}
+
+/**
+ * Whether updates from a user should be dropped
+ */
+export function isUserRestricted(userId: number | undefined): boolean {
+  return userId !== undefined && getRestrictionStore().get(userId) !== undefined;
+}
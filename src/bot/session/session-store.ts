@@ -0,0 +1,34 @@
+/**
+ * Session store interface
+ * Implementations decide where session records live (memory, file, ...)
+ */
+
+import type { UserSession } from './session';
+import { MemorySessionStore } from './stores/memory-store';
+import { FileSessionStore } from './stores/file-store';
+import { getBotDataPath } from '../utils/data-dir';
+
+export interface SessionRecord {
+  session: UserSession;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+export interface SessionStore {
+  get(chatId: number): SessionRecord | undefined;
+  set(chatId: number, record: SessionRecord): void;
+  delete(chatId: number): void;
+  entries(): Array<[number, SessionRecord]>;
+  clear(): void;
+}
+
+/**
+ * Create the session store selected by BOT_SESSION_STORE ('file' by default, or 'memory')
+ */
+export function createSessionStore(): SessionStore {
+  if (process.env.BOT_SESSION_STORE === 'memory') {
+    return new MemorySessionStore();
+  }
+  return new FileSessionStore(getBotDataPath('sessions.json'));
+}
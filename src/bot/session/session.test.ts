@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SessionManager } from './session';
+import { MemorySessionStore } from './stores/memory-store';
+
+describe('SessionManager', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('stores sessions with timestamps', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1000);
+        const manager = new SessionManager(new MemorySessionStore(), 500);
+
+        manager.set(1, { type: 'waiting_for_url' });
+
+        expect(manager.get(1)).toEqual({ type: 'waiting_for_url' });
+        expect(manager.getRecord(1)).toMatchObject({ createdAt: 1000, updatedAt: 1000, expiresAt: 1500 });
+    });
+
+    it('keeps createdAt when a flow continues', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1000);
+        const manager = new SessionManager(new MemorySessionStore(), 500);
+
+        manager.set(1, { type: 'selecting_playlist_for_add' });
+        vi.setSystemTime(1200);
+        manager.set(1, { type: 'waiting_for_url', playlistName: 'NEUKO' });
+
+        expect(manager.getRecord(1)).toMatchObject({ createdAt: 1000, updatedAt: 1200, expiresAt: 1700 });
+    });
+
+    it('expires sessions lazily and notifies the handler', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1000);
+        const manager = new SessionManager(new MemorySessionStore(), 500);
+        const handler = vi.fn();
+        manager.setExpiryHandler(handler);
+
+        manager.set(1, { type: 'waiting_for_url' });
+        vi.setSystemTime(1600);
+
+        expect(manager.get(1)).toBeUndefined();
+        expect(handler).toHaveBeenCalledWith(1, { type: 'waiting_for_url' });
+    });
+
+    it('sweeps expired sessions', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1000);
+        const manager = new SessionManager(new MemorySessionStore(), 500);
+
+        manager.set(1, { type: 'waiting_for_url' });
+        manager.set(2, { type: 'waiting_for_url' }, 5000);
+        vi.setSystemTime(1600);
+
+        expect(manager.cleanupExpired()).toBe(1);
+        expect(manager.get(2)).toBeDefined();
+    });
+});
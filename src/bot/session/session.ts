@@ -1,34 +1,144 @@
 /**
  * Bot session management
+ * Sessions expire after a TTL and are swept periodically
  */
 
+import { SESSION_TTL, SESSION_CLEANUP_INTERVAL } from '../../constants';
+import { createSessionStore, type SessionStore, type SessionRecord } from './session-store';
+import type { RestrictionType } from '../services/user-restrictions';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
 export interface UserSession {
-  type: 'waiting_for_url' | 'selecting_playlist_for_add' | 'selecting_playlist_for_delete' | 'selecting_song_to_delete';
+  type:
+    | 'waiting_for_url'
+    | 'selecting_playlist_for_add'
+    | 'selecting_playlist_for_delete'
+    | 'selecting_song_to_delete'
+    | 'waiting_for_playlist_name'
+    | 'waiting_for_playlist_rename'
+    | 'waiting_for_track_name'
+    | 'waiting_for_restriction_target';
   playlistName?: string;
+  trackId?: string;
+  restrictionType?: RestrictionType;
   messageId?: number;
 }
 
-class SessionManager {
-  private sessions: Map<number, UserSession> = new Map();
+export type SessionExpiryHandler = (chatId: number, session: UserSession) => void | Promise<void>;
 
+export class SessionManager {
+  private store: SessionStore;
+  private defaultTTL: number;
+  private expiryHandler: SessionExpiryHandler | null = null;
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(store: SessionStore, defaultTTL: number = SESSION_TTL) {
+    this.store = store;
+    this.defaultTTL = defaultTTL;
+  }
+
+  /**
+   * Get an active session (expired sessions are removed and reported)
+   */
   get(chatId: number): UserSession | undefined {
-    return this.sessions.get(chatId);
+    return this.getRecord(chatId)?.session;
   }
 
-  set(chatId: number, session: UserSession): void {
-    this.sessions.set(chatId, session);
+  /**
+   * Get an active session record including its timestamps
+   */
+  getRecord(chatId: number): SessionRecord | undefined {
+    const record = this.store.get(chatId);
+    if (!record) {
+      return undefined;
+    }
+
+    if (Date.now() >= record.expiresAt) {
+      this.expire(chatId, record);
+      return undefined;
+    }
+
+    return record;
+  }
+
+  /**
+   * Start or update a session
+   * Continuing an existing flow keeps its original createdAt
+   */
+  set(chatId: number, session: UserSession, ttl?: number): void {
+    const now = Date.now();
+    const existing = this.store.get(chatId);
+    const createdAt = existing && now < existing.expiresAt ? existing.createdAt : now;
+
+    this.store.set(chatId, {
+      session,
+      createdAt,
+      updatedAt: now,
+      expiresAt: now + (ttl || this.defaultTTL),
+    });
   }
 
   delete(chatId: number): void {
-    this.sessions.delete(chatId);
+    this.store.delete(chatId);
   }
 
   clear(): void {
-    this.sessions.clear();
+    this.store.clear();
   }
-}
 
-// Singleton instance
-export const sessionManager = new SessionManager();
+  /**
+   * Register a callback for sessions that time out
+   */
+  setExpiryHandler(handler: SessionExpiryHandler | null): void {
+    this.expiryHandler = handler;
+  }
 
+  /**
+   * Remove all expired sessions
+   * @returns number of sessions removed
+   */
+  cleanupExpired(): number {
+    const now = Date.now();
+    let cleaned = 0;
 
+    for (const [chatId, record] of this.store.entries()) {
+      if (now >= record.expiresAt) {
+        this.expire(chatId, record);
+        cleaned++;
+      }
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * Periodically sweep expired sessions (long-running processes only)
+   */
+  startCleanup(intervalMs: number = SESSION_CLEANUP_INTERVAL): void {
+    if (this.cleanupTimer) return;
+    this.cleanupTimer = setInterval(() => this.cleanupExpired(), intervalMs);
+    this.cleanupTimer.unref?.();
+  }
+
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  private expire(chatId: number, record: SessionRecord): void {
+    this.store.delete(chatId);
+
+    if (this.expiryHandler) {
+      Promise.resolve(this.expiryHandler(chatId, record.session)).catch((error) => {
+        log.error('Error handling session expiry', { error });
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const sessionManager = new SessionManager(createSessionStore());
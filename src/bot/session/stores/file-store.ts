@@ -0,0 +1,49 @@
+/**
+ * File-backed session store
+ * Keeps sessions in memory and writes them to a JSON file on every change,
+ * so half-finished flows survive a bot restart
+ */
+
+import type { SessionStore, SessionRecord } from '../session-store';
+import { readJsonFile, writeJsonFile } from '../../utils/json-file';
+
+export class FileSessionStore implements SessionStore {
+  private records: Map<number, SessionRecord> = new Map();
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    const data = readJsonFile<Record<string, SessionRecord>>(filePath, {});
+    for (const [chatId, record] of Object.entries(data)) {
+      this.records.set(Number(chatId), record);
+    }
+  }
+
+  get(chatId: number): SessionRecord | undefined {
+    return this.records.get(chatId);
+  }
+
+  set(chatId: number, record: SessionRecord): void {
+    this.records.set(chatId, record);
+    this.persist();
+  }
+
+  delete(chatId: number): void {
+    if (this.records.delete(chatId)) {
+      this.persist();
+    }
+  }
+
+  entries(): Array<[number, SessionRecord]> {
+    return Array.from(this.records.entries());
+  }
+
+  clear(): void {
+    this.records.clear();
+    this.persist();
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, Object.fromEntries(this.records));
+  }
+}
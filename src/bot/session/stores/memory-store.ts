@@ -0,0 +1,30 @@
+/**
+ * In-memory session store
+ * Sessions are lost when the bot restarts
+ */
+
+import type { SessionStore, SessionRecord } from '../session-store';
+
+export class MemorySessionStore implements SessionStore {
+  private records: Map<number, SessionRecord> = new Map();
+
+  get(chatId: number): SessionRecord | undefined {
+    return this.records.get(chatId);
+  }
+
+  set(chatId: number, record: SessionRecord): void {
+    this.records.set(chatId, record);
+  }
+
+  delete(chatId: number): void {
+    this.records.delete(chatId);
+  }
+
+  entries(): Array<[number, SessionRecord]> {
+    return Array.from(this.records.entries());
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Session timeout notifier
+ * Tells users when a half-finished flow has timed out
+ */
+
+import { sendMessage } from '../../utils/telegram-bot';
+import { logBotActivity } from '../utils/logger';
+import { sessionManager, type UserSession } from './session';
+
+const TIMEOUT_MESSAGES: Record<UserSession['type'], string> = {
+  waiting_for_url: '⌛ Your song request timed out. Use /add to try again.',
+  selecting_playlist_for_add: '⌛ Playlist selection timed out. Use /start to begin again.',
+  selecting_playlist_for_delete: '⌛ Playlist selection timed out. Use /start to begin again.',
+  selecting_song_to_delete: '⌛ Song selection timed out. Use /start to begin again.',
+  waiting_for_playlist_name: '⌛ Creating the playlist timed out. Open Manage Playlists to try again.',
+  waiting_for_playlist_rename: '⌛ Renaming the playlist timed out. Open Manage Playlists to try again.',
+  waiting_for_track_name: '⌛ Renaming the song timed out. Open the song again to retry.',
+  waiting_for_restriction_target: '⌛ Banning timed out. Open Banned Users to try again.',
+};
+
+/**
+ * Register the expiry handler that notifies users (safe to call repeatedly)
+ */
+export function registerSessionTimeoutNotifier(botToken: string): void {
+  sessionManager.setExpiryHandler(async (chatId, session) => {
+    logBotActivity({
+      timestamp: new Date().toISOString(),
+      chatId,
+      action: 'SESSION_EXPIRED',
+      details: { type: session.type, playlist: session.playlistName },
+      status: 'info',
+    });
+
+    await sendMessage(botToken, chatId, TIMEOUT_MESSAGES[session.type]);
+  });
+}
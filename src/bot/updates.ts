@@ -0,0 +1,62 @@
+/**
+ * Update dispatching
+ * Shared by the polling loop and the webhook endpoint
+ */
+
+import type { TelegramUpdate } from '../utils/telegram-bot';
+import { handleMessage } from './handlers/message';
+import { handleCallbackQuery } from './handlers/callback';
+import { handleInlineQuery } from './handlers/inline-query';
+import { registerSessionTimeoutNotifier } from './session/timeout-notifier';
+import { createLogger, runWithCorrelationId } from '../utils/logger';
+
+const log = createLogger('bot');
+
+const processedUpdateIds = new Set<number>();
+
+/**
+ * Mark an update as processed
+ * Returns false if the update was already seen (duplicate delivery)
+ */
+export function markUpdateProcessed(updateId: number): boolean {
+  if (processedUpdateIds.has(updateId)) {
+    return false;
+  }
+
+  processedUpdateIds.add(updateId);
+
+  // Clean up old processed IDs (keep only last 1000 to prevent memory leak)
+  if (processedUpdateIds.size > 1000) {
+    const idsToKeep = Array.from(processedUpdateIds).slice(-500);
+    processedUpdateIds.clear();
+    idsToKeep.forEach(id => processedUpdateIds.add(id));
+  }
+
+  return true;
+}
+
+/**
+ * Route an update to the matching handler
+ * Errors are logged here so a single bad update never breaks the caller
+ */
+export async function dispatchUpdate(botToken: string, update: TelegramUpdate): Promise<void> {
+  // Expired sessions are detected lazily on access, so the notifier must be in place first
+  registerSessionTimeoutNotifier(botToken);
+
+  // Everything logged while handling the update (and work it starts) can be traced back to it
+  await runWithCorrelationId(`update-${update.update_id}`, async () => {
+    if (update.callback_query) {
+      await handleCallbackQuery({ botToken }, update.callback_query).catch((error) => {
+        log.error('Error handling callback query', { error });
+      });
+    } else if (update.inline_query) {
+      await handleInlineQuery({ botToken }, update.inline_query).catch((error) => {
+        log.error('Error handling inline query', { error });
+      });
+    } else if (update.message) {
+      await handleMessage({ botToken }, update.message).catch((error) => {
+        log.error('Error handling message', { error });
+      });
+    }
+  });
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, vi, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, existsSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CallbackTokenStore, callbackData, parseCallbackData } from './callback-data';
+import { CALLBACK_TOKEN_PERSIST_DELAY, CALLBACK_TOKEN_TTL } from '../../constants';
+
+describe('callback data', () => {
+    beforeAll(() => {
+        process.env.BOT_SESSION_STORE = 'memory';
+    });
+
+    describe('CallbackTokenStore', () => {
+        it('issues the same token for the same payload', () => {
+            const store = new CallbackTokenStore();
+            const token = store.issue('playlist', { playlistName: 'rock' });
+            expect(store.issue('playlist', { playlistName: 'rock' })).toBe(token);
+            expect(store.issue('playlist', { playlistName: 'jazz' })).not.toBe(token);
+        });
+
+        it('resolves tokens only for the action they were issued for', () => {
+            const store = new CallbackTokenStore();
+            const token = store.issue('delete_song', { trackId: 'abc' });
+            expect(store.resolve('delete_song', token)).toEqual({ trackId: 'abc' });
+            expect(store.resolve('delete_confirm', token)).toBeUndefined();
+        });
+
+        it('expires tokens after the TTL', () => {
+            const store = new CallbackTokenStore();
+            const token = store.issue('view_song', { trackId: 'abc' }, 0);
+            expect(store.resolve('view_song', token, CALLBACK_TOKEN_TTL)).toEqual({ trackId: 'abc' });
+            expect(store.resolve('view_song', token, CALLBACK_TOKEN_TTL + 1)).toBeUndefined();
+        });
+
+        describe('persistence', () => {
+            afterEach(() => {
+                vi.useRealTimers();
+            });
+
+            it('saves tokens issued together in one delayed write', () => {
+                vi.useFakeTimers();
+                const dir = mkdtempSync(join(tmpdir(), 'callback-tokens-'));
+                const filePath = join(dir, 'tokens.json');
+                try {
+                    const store = new CallbackTokenStore(filePath);
+                    const first = store.issue('playlist', { playlistName: 'rock' });
+                    const second = store.issue('playlist', { playlistName: 'jazz' });
+                    expect(existsSync(filePath)).toBe(false);
+
+                    vi.advanceTimersByTime(CALLBACK_TOKEN_PERSIST_DELAY);
+                    expect(Object.keys(JSON.parse(readFileSync(filePath, 'utf-8')))).toEqual([first, second]);
+                    expect(new CallbackTokenStore(filePath).resolve('playlist', second)).toEqual({ playlistName: 'jazz' });
+                } finally {
+                    rmSync(dir, { recursive: true, force: true });
+                }
+            });
+
+            it('writes pending tokens right away on flush', () => {
+                const dir = mkdtempSync(join(tmpdir(), 'callback-tokens-'));
+                const filePath = join(dir, 'tokens.json');
+                try {
+                    const store = new CallbackTokenStore(filePath);
+                    store.flush();
+                    expect(existsSync(filePath)).toBe(false);
+
+                    const token = store.issue('playlist', { playlistName: 'rock' });
+                    store.flush();
+                    expect(new CallbackTokenStore(filePath).resolve('playlist', token)).toEqual({ playlistName: 'rock' });
+                } finally {
+                    rmSync(dir, { recursive: true, force: true });
+                }
+            });
+        });
+    });
+
+    describe('callbackData', () => {
+        it('uses the bare action when there is no payload', () => {
+            expect(callbackData('back_to_main')).toBe('back_to_main');
+            expect(parseCallbackData('back_to_main')).toEqual({ action: 'back_to_main' });
+        });
+
+        it('carries short payloads inline', () => {
+            const data = callbackData('track_transfer_menu', { trackId: 'a1B2c3D4e5F', mode: 'move', page: 3 });
+            expect(data).toBe('track_transfer_menu:a1B2c3D4e5F|move|3');
+            expect(parseCallbackData(data)).toEqual({
+                action: 'track_transfer_menu',
+                payload: { trackId: 'a1B2c3D4e5F', mode: 'move', page: 3 },
+            });
+        });
+
+        it('leaves unset optional fields out of the payload', () => {
+            expect(parseCallbackData(callbackData('random', {}))?.payload).toEqual({});
+            expect(parseCallbackData(callbackData('playlists_page', { page: 0, adding: true }))?.payload).toEqual({ page: 0, adding: true });
+            expect(parseCallbackData(callbackData('playlists_page', { page: 1 }))?.payload).toEqual({ page: 1 });
+        });
+
+        it('escapes the field separator in strings', () => {
+            const data = callbackData('playlist_page', { playlistName: 'A|B 100%', page: 2 });
+            expect(parseCallbackData(data)?.payload).toEqual({ playlistName: 'A|B 100%', page: 2 });
+        });
+
+        it('rejects malformed inline payloads', () => {
+            expect(parseCallbackData('delete_song:abc')).toBeNull();
+            expect(parseCallbackData('delete_song:abc|x')).toBeNull();
+            expect(parseCallbackData('unknown_action:abc')).toBeNull();
+        });
+
+        it('stays within Telegram\'s 64-byte limit for long payloads', () => {
+            const data = callbackData('playlist', { playlistName: 'Очень длинное название плейлиста '.repeat(5) });
+            expect(data.startsWith('playlist~')).toBe(true);
+            expect(Buffer.byteLength(data)).toBeLessThanOrEqual(64);
+            expect(parseCallbackData(data)?.payload).toEqual({ playlistName: 'Очень длинное название плейлиста '.repeat(5) });
+        });
+
+        it('rejects unknown tokens', () => {
+            expect(parseCallbackData('playlist~unknown')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,308 @@
+/**
+ * Callback data registry
+ * Buttons carry their payload inline as `<action>:<value>|<value>...`, so they keep working on any
+ * instance and after restarts. Telegram limits callback_data to 64 bytes; the rare payload that
+ * doesn't fit (long playlist names) is kept server-side under a short token: `<action>~<token>`
+ */
+
+import { createHash } from 'crypto';
+import { getBotDataPath } from './data-dir';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { CALLBACK_DATA_MAX_BYTES, CALLBACK_TOKEN_PERSIST_DELAY, CALLBACK_TOKEN_TTL } from '../../constants';
+import type { Role } from '../services/permissions';
+import type { RestrictionType } from '../services/user-restrictions';
+
+/**
+ * Every button action and the payload it carries (void = no payload)
+ */
+export interface CallbackPayloads {
+  add_song: void;
+  cancel_add_song: void;
+  view_playlists: void;
+  back_to_main: void;
+  back_to_playlists: void;
+  restricted_access: void;
+  add_song_admin: void;
+  delete_song_menu: void;
+  noop: void; // Page indicators and other display-only buttons
+  playlists_page: { page: number; adding?: boolean };
+  playlist: { playlistName: string };
+  add_to_playlist: { playlistName: string };
+  playlist_page: { playlistName: string; page: number };
+  view_song: { trackId: string };
+  listen: { trackId: string };
+  random: { playlistName?: string };
+  search_page: { query: string; page: number };
+  delete_song: { trackId: string; page: number };
+  delete_confirm: { trackId: string; page: number };
+  delete_cancel: { playlistName: string; page: number };
+  dup_override: { jobId: string };
+  mod_list: void;
+  mod_toggle: void;
+  mod_approve: { submissionId: string };
+  mod_reject: { submissionId: string };
+  trash_list: void;
+  trash_restore: { trashId: string };
+  trash_purge: { trashId: string };
+  playlist_admin: { page: number };
+  playlist_admin_open: { playlistName: string };
+  playlist_create: void;
+  playlist_rename: { playlistName: string };
+  playlist_delete: { playlistName: string };
+  playlist_delete_confirm: { playlistName: string };
+  playlist_move: { playlistName: string; offset: number };
+  song_card: { trackId: string; page?: number }; // page: the playlist page it was opened from
+  track_transfer_menu: { trackId: string; mode: 'move' | 'copy'; page: number };
+  track_transfer: { trackId: string; mode: 'move' | 'copy'; playlistName: string };
+  track_rename: { trackId: string };
+  roles_list: void;
+  role_revoke: { userId: number; role: Role; playlist?: string };
+  bans_list: void;
+  restriction_lift: { userId: number };
+  restriction_prompt: { type: RestrictionType };
+}
+
+export type CallbackAction = keyof CallbackPayloads;
+
+type PayloadArgs<A extends CallbackAction> = CallbackPayloads[A] extends void ? [] : [CallbackPayloads[A]];
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+type PayloadAction = { [A in CallbackAction]: CallbackPayloads[A] extends void ? never : A }[CallbackAction];
+
+/**
+ * Field order and type of each inline payload (optional fields are left empty when unset)
+ */
+const PAYLOAD_FIELDS: { [A in PayloadAction]: Array<[keyof CallbackPayloads[A] & string, FieldType]> } = {
+  playlists_page: [['page', 'number'], ['adding', 'boolean']],
+  playlist: [['playlistName', 'string']],
+  add_to_playlist: [['playlistName', 'string']],
+  playlist_page: [['page', 'number'], ['playlistName', 'string']],
+  view_song: [['trackId', 'string']],
+  listen: [['trackId', 'string']],
+  random: [['playlistName', 'string']],
+  search_page: [['page', 'number'], ['query', 'string']],
+  delete_song: [['trackId', 'string'], ['page', 'number']],
+  delete_confirm: [['trackId', 'string'], ['page', 'number']],
+  delete_cancel: [['page', 'number'], ['playlistName', 'string']],
+  dup_override: [['jobId', 'string']],
+  mod_approve: [['submissionId', 'string']],
+  mod_reject: [['submissionId', 'string']],
+  trash_restore: [['trashId', 'string']],
+  trash_purge: [['trashId', 'string']],
+  playlist_admin: [['page', 'number']],
+  playlist_admin_open: [['playlistName', 'string']],
+  playlist_rename: [['playlistName', 'string']],
+  playlist_delete: [['playlistName', 'string']],
+  playlist_delete_confirm: [['playlistName', 'string']],
+  playlist_move: [['offset', 'number'], ['playlistName', 'string']],
+  song_card: [['trackId', 'string'], ['page', 'number']],
+  track_transfer_menu: [['trackId', 'string'], ['mode', 'string'], ['page', 'number']],
+  track_transfer: [['trackId', 'string'], ['mode', 'string'], ['playlistName', 'string']],
+  track_rename: [['trackId', 'string']],
+  role_revoke: [['userId', 'number'], ['role', 'string'], ['playlist', 'string']],
+  restriction_lift: [['userId', 'number']],
+  restriction_prompt: [['type', 'string']],
+};
+
+const FIELD_SEPARATOR = '|';
+
+function escapeValue(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\|/g, '%7C');
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/%7C/g, '|').replace(/%25/g, '%');
+}
+
+/**
+ * Encode a payload as `<value>|<value>...` in its action's field order
+ */
+function encodePayload(action: PayloadAction, payload: Record<string, unknown>): string {
+  return PAYLOAD_FIELDS[action]
+    .map(([field, type]) => {
+      const value = payload[field];
+      if (value === undefined || value === null || value === false) return '';
+      return type === 'string' ? escapeValue(String(value)) : type === 'boolean' ? '1' : String(value);
+    })
+    .join(FIELD_SEPARATOR);
+}
+
+/**
+ * Decode an inline payload (null if it doesn't match the action's fields)
+ */
+function decodePayload(action: string, encoded: string): Record<string, unknown> | null {
+  const fields = PAYLOAD_FIELDS[action as PayloadAction] as Array<[string, FieldType]> | undefined;
+  const values = encoded.split(FIELD_SEPARATOR);
+  if (!fields || values.length !== fields.length) return null;
+
+  const payload: Record<string, unknown> = {};
+  for (const [index, [field, type]] of fields.entries()) {
+    const value = values[index];
+    if (value === '') continue;
+    if (type === 'number') {
+      const number = Number(value);
+      if (!Number.isInteger(number)) return null;
+      payload[field] = number;
+    } else if (type === 'boolean') {
+      payload[field] = true;
+    } else {
+      payload[field] = unescapeValue(value);
+    }
+  }
+  return payload;
+}
+
+export interface InlineButton {
+  text: string;
+  callback_data: string;
+}
+
+export interface ParsedCallback {
+  action: string;
+  payload?: unknown;
+}
+
+interface TokenRecord {
+  action: string;
+  payload: unknown;
+  issuedAt: number;
+}
+
+export class CallbackTokenStore {
+  private records: Record<string, TokenRecord>;
+  private filePath?: string;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param filePath JSON file to persist tokens in (omit to keep them in memory only)
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.records = filePath ? readJsonFile<Record<string, TokenRecord>>(filePath, {}) : {};
+  }
+
+  /**
+   * Store a payload and return its token
+   * Tokens are derived from the content, so re-rendering the same menu reuses them
+   */
+  issue(action: string, payload: unknown, now: number = Date.now()): string {
+    const token = createHash('sha1')
+      .update(`${action}:${JSON.stringify(payload)}`)
+      .digest('base64url')
+      .slice(0, 12);
+
+    const existing = this.records[token];
+    // Only save new tokens or ones halfway to expiry
+    if (!existing || now - existing.issuedAt > CALLBACK_TOKEN_TTL / 2) {
+      this.records[token] = { action, payload, issuedAt: now };
+      this.schedulePersist();
+    }
+    return token;
+  }
+
+  /**
+   * Look up a token issued for the given action
+   */
+  resolve(action: string, token: string, now: number = Date.now()): unknown | undefined {
+    const record = this.records[token];
+    if (!record || record.action !== action || now - record.issuedAt > CALLBACK_TOKEN_TTL) {
+      return undefined;
+    }
+    return record.payload;
+  }
+
+  private prune(now: number): void {
+    for (const [token, record] of Object.entries(this.records)) {
+      if (now - record.issuedAt > CALLBACK_TOKEN_TTL) {
+        delete this.records[token];
+      }
+    }
+  }
+
+  /**
+   * Write pending tokens now (and drop expired ones)
+   */
+  flush(now: number = Date.now()): void {
+    if (!this.persistTimer) return; // Nothing issued since the last write
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    if (this.filePath) {
+      this.prune(now);
+      writeJsonFile(this.filePath, this.records);
+    }
+  }
+
+  /**
+   * Batch the tokens issued while rendering menus into one write
+   */
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), CALLBACK_TOKEN_PERSIST_DELAY);
+    this.persistTimer.unref?.();
+  }
+}
+
+let storeInstance: CallbackTokenStore | null = null;
+
+function getTokenStore(): CallbackTokenStore {
+  if (!storeInstance) {
+    const store = new CallbackTokenStore(
+      process.env.BOT_SESSION_STORE === 'memory' ? undefined : getBotDataPath('callback-tokens.json')
+    );
+    process.once('exit', () => store.flush());
+    storeInstance = store;
+  }
+  return storeInstance;
+}
+
+/**
+ * Write tokens issued since the last write now, e.g. before a webhook response ends the
+ * serverless invocation that issued them
+ */
+export function flushCallbackTokens(): void {
+  storeInstance?.flush();
+}
+
+/**
+ * Build the callback_data for an action
+ */
+export function callbackData<A extends CallbackAction>(action: A, ...payload: PayloadArgs<A>): string {
+  if (payload.length === 0) {
+    return action;
+  }
+
+  const inline = `${action}:${encodePayload(action as PayloadAction, payload[0] as Record<string, unknown>)}`;
+  if (Buffer.byteLength(inline) <= CALLBACK_DATA_MAX_BYTES) {
+    return inline;
+  }
+  return `${action}~${getTokenStore().issue(action, payload[0])}`;
+}
+
+/**
+ * Build an inline keyboard button for an action
+ */
+export function callbackButton<A extends CallbackAction>(text: string, action: A, ...payload: PayloadArgs<A>): InlineButton {
+  return { text, callback_data: callbackData(action, ...payload) };
+}
+
+/**
+ * Split callback_data into its action and payload
+ * @returns null if the payload is malformed or the button's token is unknown or expired
+ */
+export function parseCallbackData(data: string): ParsedCallback | null {
+  const match = data.match(/^([a-z_]+)(?:([:~])(.*))?$/s);
+  if (!match) {
+    return null;
+  }
+
+  const [, action, separator, value] = match;
+  if (!separator) {
+    return { action };
+  }
+
+  const payload = separator === ':'
+    ? decodePayload(action, value)
+    : getTokenStore().resolve(action, value);
+  return payload === undefined || payload === null ? null : { action, payload };
+}
@@ -0,0 +1,17 @@
+/**
+ * Bot data directory helper
+ * Resolves where the bot persists runtime state (sessions, queues, ...)
+ */
+
+import { join, isAbsolute } from 'path';
+import { DEFAULT_BOT_DATA_DIR } from '../../constants';
+
+/**
+ * Get the absolute path of a file inside the bot data directory
+ * The directory can be overridden with BOT_DATA_DIR
+ */
+export function getBotDataPath(fileName: string): string {
+  const dataDir = process.env.BOT_DATA_DIR || DEFAULT_BOT_DATA_DIR;
+  const baseDir = isAbsolute(dataDir) ? dataDir : join(process.cwd(), dataDir);
+  return join(baseDir, fileName);
+}
@@ -0,0 +1,40 @@
+/**
+ * JSON file persistence helpers
+ * Used by the file-backed stores that keep bot state across restarts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('bot');
+
+/**
+ * Read a JSON file, returning the fallback if it is missing or corrupt
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return fallback;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error: any) {
+    log.warn(`Failed to read ${filePath}`, { error: error.message || error });
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename)
+ * Failures are logged, not thrown, so callers keep working in memory
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, filePath);
+  } catch (error: any) {
+    log.warn(`Failed to write ${filePath}`, { error: error.message || error });
+  }
+}
@@ -1,7 +1,11 @@
 /**
  * Bot logging utility
+ * Bot activity goes through the shared structured logger (see utils/logger) as "bot" records
+ * named by action
  */
 
+import { createLogger } from '../../utils/logger';
+
 export interface LogEntry {
   timestamp: string;
   userId?: number;
@@ -13,25 +17,22 @@ export interface LogEntry {
   error?: string;
 }
 
+const log = createLogger('bot');
+
 export function logBotActivity(entry: LogEntry): void {
-  const timestamp = new Date().toISOString();
-  const userInfo = entry.userId 
-    ? `User ${entry.userId}${entry.username ? ` (@${entry.username})` : ''}`
-    : 'Unknown user';
-  const chatInfo = `Chat ${entry.chatId}`;
-  const statusEmoji = entry.status === 'success' ? '✅' : entry.status === 'error' ? '❌' : 'ℹ️';
-  
-  const logMessage = `[${timestamp}] ${statusEmoji} ${userInfo} | ${chatInfo} | ${entry.action}`;
-  
-  if (entry.details) {
-    console.log(logMessage, JSON.stringify(entry.details, null, 2));
+  const { action, status, userId, username, chatId, details, error } = entry;
+  const fields = {
+    status,
+    chatId,
+    ...(userId !== undefined && { userId }),
+    ...(username && { username }),
+    ...(details !== undefined && { details }),
+    ...(error && { error }),
+  };
+
+  if (status === 'error') {
+    log.error(action, fields);
   } else {
-    console.log(logMessage);
-  }
-  
-  if (entry.error) {
-    console.error(`[${timestamp}] ERROR:`, entry.error);
+    log.info(action, fields);
   }
 }
-
-
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { paginate, buildPaginatedKeyboard, showMenuMessage } from './paginated-keyboard';
+
+const items = Array.from({ length: 23 }, (_, i) => `item ${i + 1}`);
+const pageButton = (page: number, text: string) => ({ text, callback_data: `page_${page}` });
+
+describe('paginated keyboard', () => {
+    describe('paginate', () => {
+        it('slices out the requested page', () => {
+            const page = paginate(items, 1, 10);
+            expect(page.items).toEqual(items.slice(10, 20));
+            expect(page.start).toBe(10);
+            expect(page.totalPages).toBe(3);
+        });
+
+        it('clamps out-of-range pages', () => {
+            expect(paginate(items, 7, 10).page).toBe(2);
+            expect(paginate(items, -1, 10).page).toBe(0);
+            expect(paginate([], 3, 10)).toMatchObject({ page: 0, totalPages: 1, items: [] });
+        });
+    });
+
+    describe('buildPaginatedKeyboard', () => {
+        const build = (page: number) => buildPaginatedKeyboard({
+            items,
+            page,
+            pageSize: 10,
+            renderItem: (item, index) => [{ text: item, callback_data: `pick_${index}` }],
+            pageButton,
+            footer: [[{ text: 'Back', callback_data: 'back' }]],
+        }).keyboard.inline_keyboard;
+
+        it('renders the page items with absolute indexes, navigation and footer', () => {
+            const rows = build(1);
+            expect(rows).toHaveLength(12);
+            expect(rows[0]).toEqual([{ text: 'item 11', callback_data: 'pick_10' }]);
+            expect(rows[10].map(button => button.text)).toEqual(['◀️ Prev', '📄 2/3', 'Next ▶️']);
+            expect(rows[11]).toEqual([{ text: 'Back', callback_data: 'back' }]);
+        });
+
+        it('leaves out prev on the first page and next on the last', () => {
+            expect(build(0)[10].map(button => button.callback_data)).toEqual(['noop', 'page_1']);
+            expect(build(2)[3].map(button => button.callback_data)).toEqual(['page_1', 'noop']);
+        });
+
+        it('has no navigation row when everything fits on one page', () => {
+            const rows = buildPaginatedKeyboard({
+                items: items.slice(0, 3),
+                page: 0,
+                renderItem: item => [{ text: item, callback_data: item }],
+                pageButton,
+            }).keyboard.inline_keyboard;
+            expect(rows).toHaveLength(3);
+        });
+    });
+
+    describe('showMenuMessage', () => {
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        const telegramError = (description: string) =>
+            new Response(JSON.stringify({ ok: false, description }), { status: 400 });
+
+        it('keeps the old message when Telegram can\'t parse the new text', async () => {
+            const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+                telegramError("Bad Request: can't parse entities: Can't find end of the entity starting at byte offset 42")
+            );
+
+            await expect(showMenuMessage('token', 1, 'Song_Title.mp3', undefined, 5)).rejects.toThrow("can't parse entities");
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(String(fetchMock.mock.calls[0][0])).toContain('/editMessageText');
+        });
+
+        it('replaces a message that can\'t be edited with a new one', async () => {
+            const fetchMock = vi.spyOn(globalThis, 'fetch')
+                .mockResolvedValueOnce(telegramError("Bad Request: message can't be edited"))
+                .mockResolvedValue(new Response(JSON.stringify({ ok: true, result: { message_id: 6 } })));
+
+            await showMenuMessage('token', 1, 'Menu', undefined, 5);
+            expect(fetchMock.mock.calls.map(([url]) => String(url).split('/').pop())).toEqual(['editMessageText', 'deleteMessage', 'sendMessage']);
+        });
+    });
+});
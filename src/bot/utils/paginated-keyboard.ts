@@ -0,0 +1,98 @@
+/**
+ * Paginated inline keyboards
+ * Long lists are split into pages with prev / page indicator / next buttons, and menus are
+ * edited in place so paging doesn't flood the chat with new messages
+ */
+
+import { sendMessage, editMessageText, deleteMessage, createInlineKeyboard } from '../../utils/telegram-bot';
+import { callbackButton, type InlineButton } from './callback-data';
+import { KEYBOARD_PAGE_SIZE } from '../../constants';
+
+export interface Page<T> {
+  items: T[];
+  page: number; // Zero-based, clamped to the available pages
+  totalPages: number;
+  start: number; // Index of the first item on the page
+}
+
+export interface PaginatedKeyboardOptions<T> {
+  items: T[];
+  page: number;
+  pageSize?: number;
+  renderItem: (item: T, index: number) => InlineButton[]; // index is the item's position in the full list
+  pageButton: (page: number, text: string) => InlineButton;
+  footer?: InlineButton[][];
+}
+
+/**
+ * Slice out one page of a list
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number = KEYBOARD_PAGE_SIZE): Page<T> {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(Math.floor(page) || 0, 0), totalPages - 1);
+  const start = current * pageSize;
+  return { items: items.slice(start, start + pageSize), page: current, totalPages, start };
+}
+
+/**
+ * Prev / "2/5" / next row (empty when everything fits on one page)
+ */
+export function paginationRow(
+  page: number,
+  totalPages: number,
+  pageButton: PaginatedKeyboardOptions<unknown>['pageButton']
+): InlineButton[] {
+  if (totalPages <= 1) return [];
+
+  const row: InlineButton[] = [];
+  if (page > 0) {
+    row.push(pageButton(page - 1, '◀️ Prev'));
+  }
+  row.push(callbackButton(`📄 ${page + 1}/${totalPages}`, 'noop'));
+  if (page < totalPages - 1) {
+    row.push(pageButton(page + 1, 'Next ▶️'));
+  }
+  return row;
+}
+
+/**
+ * Inline keyboard for one page of items, followed by the pagination row and footer rows
+ */
+export function buildPaginatedKeyboard<T>(options: PaginatedKeyboardOptions<T>) {
+  const { items, renderItem, pageButton, footer = [] } = options;
+  const page = paginate(items, options.page, options.pageSize);
+
+  const buttons = page.items.map((item, index) => renderItem(item, page.start + index));
+  const navigation = paginationRow(page.page, page.totalPages, pageButton);
+  if (navigation.length > 0) {
+    buttons.push(navigation);
+  }
+  buttons.push(...footer);
+
+  return { keyboard: createInlineKeyboard(buttons), page };
+}
+
+/**
+ * Show a menu by editing the given message, or send a new one
+ * Falls back to a new message when the old one can't be edited (e.g. it is a photo or too old);
+ * text Telegram can't parse would fail as a new message too, so the old one is kept then
+ */
+export async function showMenuMessage(
+  botToken: string,
+  chatId: number,
+  text: string,
+  keyboard?: any,
+  messageId?: number
+): Promise<void> {
+  if (messageId) {
+    try {
+      await editMessageText(botToken, chatId, messageId, text, keyboard);
+      return;
+    } catch (error: any) {
+      if (error.message?.includes('message is not modified')) return;
+      if (error.message?.includes("can't parse entities")) throw error;
+      await deleteMessage(botToken, chatId, messageId).catch(() => { });
+    }
+  }
+  await sendMessage(botToken, chatId, text, keyboard);
+}
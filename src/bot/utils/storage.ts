@@ -0,0 +1,24 @@
+/**
+ * Storage backend settings
+ * Connection options and the folder that holds the playlist folders on DreamHost
+ */
+
+import { DEFAULT_FTP_HOST, DEFAULT_FTP_PATH } from '../../constants';
+
+export function getStorage() {
+  const ftpUser = process.env.DREAMHOST_FTP_USER;
+  const ftpPassword = process.env.DREAMHOST_FTP_PASSWORD;
+  if (!ftpUser || !ftpPassword) {
+    throw new Error('FTP credentials not configured');
+  }
+
+  return {
+    basePath: process.env.DREAMHOST_FTP_PATH?.replace(/\/[^/]+$/, '') || DEFAULT_FTP_PATH,
+    options: {
+      host: process.env.DREAMHOST_FTP_HOST || DEFAULT_FTP_HOST,
+      user: ftpUser,
+      password: ftpPassword,
+      useSFTP: process.env.DREAMHOST_USE_SFTP === 'true',
+    },
+  };
+}
@@ -3,7 +3,7 @@ import type { Track } from '../types/track';
 import { formatTime } from '../utils/tracks';
 import { useAudioElement } from '../hooks/useAudioElement';
 import { audioPlayerReducer, initialState } from './audioReducer';
-import { VOLUME_STORAGE_KEY, DEFAULT_VOLUME } from '../constants';
+import { VOLUME_STORAGE_KEY, DEFAULT_VOLUME, TRACK_LINK_PARAM } from '../constants';
 
 export function useAudioPlayer(tracks: Track[]) {
   // Load volume from localStorage on mount
@@ -38,10 +38,13 @@ export function useAudioPlayer(tracks: Track[]) {
     }
   }, [state.volume]);
 
-  // Initialize playlist on tracks load
+  // Initialize playlist on tracks load (a ?track= link opens that track)
   useEffect(() => {
     if (tracks.length > 0 && !state.currentPlaylistName) {
-      dispatch({ type: 'INITIALIZE_PLAYLIST', tracks });
+      const trackId = typeof window !== 'undefined'
+        ? new URLSearchParams(window.location.search).get(TRACK_LINK_PARAM) ?? undefined
+        : undefined;
+      dispatch({ type: 'INITIALIZE_PLAYLIST', tracks, trackId });
     }
   }, [tracks, state.currentPlaylistName]);
 
@@ -57,15 +60,12 @@ export function useAudioPlayer(tracks: Track[]) {
     return tracks.filter(t => t.playlistName === state.currentPlaylistName);
   }, [tracks, state.currentPlaylistName]);
 
-  // Get current track
-  const currentTrack = currentPlaylistTracks[state.currentTrackIndex] || currentPlaylistTracks[0];
+  const currentTrackIds = useMemo(() => currentPlaylistTracks.map(t => t.id), [currentPlaylistTracks]);
 
-  // Validate track index
-  useEffect(() => {
-    if (currentPlaylistTracks.length > 0 && state.currentTrackIndex >= currentPlaylistTracks.length) {
-      dispatch({ type: 'SET_TRACK_INDEX', index: 0 });
-    }
-  }, [state.currentTrackIndex, currentPlaylistTracks.length]);
+  // Get current track by ID, so it stays selected when other tracks are added or removed
+  // (falls back to the first track if it's gone)
+  const currentTrack = currentPlaylistTracks.find(t => t.id === state.currentTrackId) || currentPlaylistTracks[0];
+  const currentTrackIndex = currentTrack ? currentPlaylistTracks.indexOf(currentTrack) : 0;
 
   // Audio element management
   const audioSrc = currentTrack?.fileName
@@ -82,15 +82,15 @@ export function useAudioPlayer(tracks: Track[]) {
   }, []);
 
   const onEnded = useCallback(() => {
-    if (currentPlaylistTracks.length === 0) return;
+    if (currentTrackIds.length === 0) return;
     dispatch({ type: 'SET_WAS_PLAYING', wasPlaying: true });
     dispatch({ 
       type: 'NEXT_TRACK', 
-      totalTracks: currentPlaylistTracks.length,
+      trackIds: currentTrackIds,
       shuffleMode: state.shuffleMode 
     });
     dispatch({ type: 'SET_CURRENT_TIME', time: 0 });
-  }, [currentPlaylistTracks.length, state.shuffleMode]);
+  }, [currentTrackIds, state.shuffleMode]);
 
   const {
     play: audioPlay,
@@ -125,7 +125,7 @@ export function useAudioPlayer(tracks: Track[]) {
           dispatch({ type: 'SET_WAS_PLAYING', wasPlaying: false });
         });
     }
-  }, [state.currentTrackIndex, currentTrack?.fileName, state.wasPlaying, audioSrc, audioElement]);
+  }, [currentTrack?.id, currentTrack?.fileName, state.wasPlaying, audioSrc, audioElement]);
 
   // Reset time when track changes
   useEffect(() => {
@@ -160,22 +160,22 @@ export function useAudioPlayer(tracks: Track[]) {
   }, [audioElement]);
 
   const nextTrack = useCallback(() => {
-    if (currentPlaylistTracks.length === 0) return;
+    if (currentTrackIds.length === 0) return;
     const wasPlaying = state.isPlaying && !state.isPaused;
     dispatch({ type: 'SET_WAS_PLAYING', wasPlaying });
     dispatch({ 
       type: 'NEXT_TRACK', 
-      totalTracks: currentPlaylistTracks.length,
+      trackIds: currentTrackIds,
       shuffleMode: state.shuffleMode 
     });
-  }, [currentPlaylistTracks.length, state.isPlaying, state.isPaused, state.shuffleMode]);
+  }, [currentTrackIds, state.isPlaying, state.isPaused, state.shuffleMode]);
 
   const previousTrack = useCallback(() => {
-    if (currentPlaylistTracks.length === 0) return;
+    if (currentTrackIds.length === 0) return;
     const wasPlaying = state.isPlaying && !state.isPaused;
     dispatch({ type: 'SET_WAS_PLAYING', wasPlaying });
-    dispatch({ type: 'PREVIOUS_TRACK', totalTracks: currentPlaylistTracks.length });
-  }, [currentPlaylistTracks.length, state.isPlaying, state.isPaused]);
+    dispatch({ type: 'PREVIOUS_TRACK', trackIds: currentTrackIds });
+  }, [currentTrackIds, state.isPlaying, state.isPaused]);
 
   // Memoize getAllPlaylists function to avoid recreating on every render
   const getAllPlaylists = useCallback(() => {
@@ -222,12 +222,13 @@ export function useAudioPlayer(tracks: Track[]) {
   }, [state.isPlaying, state.isPaused, play, pause]);
 
   const selectTrack = useCallback((index: number) => {
-    if (index >= 0 && index < currentPlaylistTracks.length) {
+    const track = currentPlaylistTracks[index];
+    if (track) {
       const wasPlaying = state.isPlaying && !state.isPaused;
       dispatch({ type: 'SET_WAS_PLAYING', wasPlaying });
-      dispatch({ type: 'SET_TRACK_INDEX', index });
+      dispatch({ type: 'SET_TRACK', trackId: track.id });
     }
-  }, [currentPlaylistTracks.length, state.isPlaying, state.isPaused]);
+  }, [currentPlaylistTracks, state.isPlaying, state.isPaused]);
 
   const toggleShuffle = useCallback(() => {
     dispatch({ type: 'TOGGLE_SHUFFLE' });
@@ -235,7 +236,7 @@ export function useAudioPlayer(tracks: Track[]) {
 
   return {
     currentTrack: currentTrack || null,
-    currentTrackIndex: state.currentTrackIndex,
+    currentTrackIndex,
     currentPlaylistName: state.currentPlaylistName,
     isPlaying: state.isPlaying,
     isPaused: state.isPaused,
@@ -349,7 +349,7 @@ export function PlaylistPanel({
               const isFocused = index === focusedIndex;
               return (
                 <div
-                  key={`${track.fileName}-${index}`}
+                  key={track.id}
                   ref={(el) => {
                     trackRefs.current[index] = el;
                   }}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { audioPlayerReducer, initialState } from './audioReducer';
+
+describe('audioPlayerReducer', () => {
+    const trackIds = ['a', 'b', 'c'];
+
+    it('advances by track ID and wraps around', () => {
+        const state = { ...initialState, currentTrackId: 'b' };
+        expect(audioPlayerReducer(state, { type: 'NEXT_TRACK', trackIds }).currentTrackId).toBe('c');
+        expect(audioPlayerReducer({ ...state, currentTrackId: 'c' }, { type: 'NEXT_TRACK', trackIds }).currentTrackId).toBe('a');
+    });
+
+    it('treats no selection as the first track', () => {
+        expect(audioPlayerReducer(initialState, { type: 'NEXT_TRACK', trackIds }).currentTrackId).toBe('b');
+        expect(audioPlayerReducer(initialState, { type: 'PREVIOUS_TRACK', trackIds }).currentTrackId).toBe('c');
+    });
+
+    it('keeps the current track when tracks are inserted before it', () => {
+        const state = { ...initialState, currentTrackId: 'b' };
+        expect(audioPlayerReducer(state, { type: 'NEXT_TRACK', trackIds: ['new', 'a', 'b', 'c'] }).currentTrackId).toBe('c');
+    });
+
+    it('restarts from the top when the current track was removed', () => {
+        const state = { ...initialState, currentTrackId: 'gone' };
+        expect(audioPlayerReducer(state, { type: 'NEXT_TRACK', trackIds }).currentTrackId).toBe('a');
+    });
+
+    it('never repeats the current track in shuffle mode', () => {
+        const state = { ...initialState, currentTrackId: 'a' };
+        for (let i = 0; i < 20; i++) {
+            const next = audioPlayerReducer(state, { type: 'NEXT_TRACK', trackIds, shuffleMode: true });
+            expect(next.currentTrackId).not.toBe('a');
+            expect(next.shuffleHistory).toEqual(['a']);
+        }
+    });
+
+    it('opens a linked track in its own playlist', () => {
+        const tracks = [
+            { id: 'x', trackNumber: 1, trackName: 'X', fileName: '/music/community/x.mp3', duration: '00:10', playlistName: 'community' },
+            { id: 'y', trackNumber: 1, trackName: 'Y', fileName: '/music/rock/y.mp3', duration: '00:10', playlistName: 'rock' },
+        ];
+        const state = audioPlayerReducer(initialState, { type: 'INITIALIZE_PLAYLIST', tracks, trackId: 'y' });
+        expect(state.currentPlaylistName).toBe('rock');
+        expect(state.currentTrackId).toBe('y');
+
+        expect(audioPlayerReducer(initialState, { type: 'INITIALIZE_PLAYLIST', tracks, trackId: 'gone' }).currentPlaylistName).toBe('community');
+    });
+});
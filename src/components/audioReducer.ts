@@ -8,7 +8,7 @@ import { DEFAULT_VOLUME, MIN_VOLUME, MAX_VOLUME, VOLUME_INCREMENT, NEUKO_PLAYLIS
 
 export interface AudioPlayerState {
   currentPlaylistName: string | null;
-  currentTrackIndex: number;
+  currentTrackId: string | null; // null = first track of the playlist
   isPlaying: boolean;
   isPaused: boolean;
   volume: number;
@@ -16,14 +16,14 @@ export interface AudioPlayerState {
   duration: number;
   wasPlaying: boolean;
   shuffleMode: boolean;
-  shuffleHistory: number[];
+  shuffleHistory: string[]; // IDs of recently played tracks
 }
 
 export type AudioPlayerAction =
   | { type: 'SET_PLAYLIST'; playlistName: string | null }
-  | { type: 'SET_TRACK_INDEX'; index: number }
-  | { type: 'NEXT_TRACK'; totalTracks: number; shuffleMode?: boolean }
-  | { type: 'PREVIOUS_TRACK'; totalTracks: number }
+  | { type: 'SET_TRACK'; trackId: string }
+  | { type: 'NEXT_TRACK'; trackIds: string[]; shuffleMode?: boolean }
+  | { type: 'PREVIOUS_TRACK'; trackIds: string[] }
   | { type: 'NEXT_PLAYLIST'; playlists: string[] }
   | { type: 'PREVIOUS_PLAYLIST'; playlists: string[] }
   | { type: 'PLAY' }
@@ -37,11 +37,11 @@ export type AudioPlayerAction =
   | { type: 'UPDATE_TIME'; time: number }
   | { type: 'SET_WAS_PLAYING'; wasPlaying: boolean }
   | { type: 'TOGGLE_SHUFFLE' }
-  | { type: 'INITIALIZE_PLAYLIST'; tracks: Track[] };
+  | { type: 'INITIALIZE_PLAYLIST'; tracks: Track[]; trackId?: string };
 
 export const initialState: AudioPlayerState = {
   currentPlaylistName: null,
-  currentTrackIndex: 0,
+  currentTrackId: null,
   isPlaying: false,
   isPaused: false,
   volume: DEFAULT_VOLUME,
@@ -61,53 +61,63 @@ export function audioPlayerReducer(
       return {
         ...state,
         currentPlaylistName: action.playlistName,
-        currentTrackIndex: 0,
+        currentTrackId: null,
         currentTime: 0,
         wasPlaying: false,
       };
 
-    case 'SET_TRACK_INDEX':
+    case 'SET_TRACK':
       return {
         ...state,
-        currentTrackIndex: action.index,
+        currentTrackId: action.trackId,
         currentTime: 0,
       };
 
-    case 'NEXT_TRACK':
-      if (action.shuffleMode && action.totalTracks > 1) {
+    case 'NEXT_TRACK': {
+      const { trackIds } = action;
+      if (trackIds.length === 0) return state;
+      const position = trackIds.indexOf(state.currentTrackId ?? trackIds[0]);
+
+      if (action.shuffleMode && trackIds.length > 1) {
         // Shuffle mode: pick random track that hasn't been played recently
-        const availableTracks = Array.from({ length: action.totalTracks }, (_, i) => i)
-          .filter(i => i !== state.currentTrackIndex);
-        
+        const currentId = trackIds[Math.max(0, position)];
+        const availableTracks = trackIds.filter(id => id !== currentId);
+
         // If we've played all tracks, reset history
-        const recentHistory = state.shuffleHistory.slice(-Math.min(action.totalTracks - 1, 5));
-        const unplayedTracks = availableTracks.filter(i => !recentHistory.includes(i));
+        const recentHistory = state.shuffleHistory.slice(-Math.min(trackIds.length - 1, 5));
+        const unplayedTracks = availableTracks.filter(id => !recentHistory.includes(id));
         const tracksToChooseFrom = unplayedTracks.length > 0 ? unplayedTracks : availableTracks;
-        
-        const randomIndex = tracksToChooseFrom[Math.floor(Math.random() * tracksToChooseFrom.length)];
-        const newHistory = [...state.shuffleHistory, state.currentTrackIndex].slice(-(action.totalTracks - 1));
-        
+
+        const randomId = tracksToChooseFrom[Math.floor(Math.random() * tracksToChooseFrom.length)];
+        const newHistory = [...state.shuffleHistory, currentId].slice(-(trackIds.length - 1));
+
         return {
           ...state,
-          currentTrackIndex: randomIndex,
+          currentTrackId: randomId,
           currentTime: 0,
           shuffleHistory: newHistory,
         };
       }
       return {
         ...state,
-        currentTrackIndex: (state.currentTrackIndex + 1) % action.totalTracks,
+        // A track that disappeared from the playlist restarts it from the top
+        currentTrackId: position === -1 ? trackIds[0] : trackIds[(position + 1) % trackIds.length],
         currentTime: 0,
       };
+    }
 
-    case 'PREVIOUS_TRACK':
+    case 'PREVIOUS_TRACK': {
+      const { trackIds } = action;
+      if (trackIds.length === 0) return state;
+      const position = trackIds.indexOf(state.currentTrackId ?? trackIds[0]);
       return {
         ...state,
-        currentTrackIndex: state.currentTrackIndex === 0 
-          ? action.totalTracks - 1 
-          : state.currentTrackIndex - 1,
+        currentTrackId: position <= 0
+          ? trackIds[trackIds.length - 1]
+          : trackIds[position - 1],
         currentTime: 0,
       };
+    }
 
     case 'NEXT_PLAYLIST':
       if (action.playlists.length <= 1) return state;
@@ -116,7 +126,7 @@ export function audioPlayerReducer(
       return {
         ...state,
         currentPlaylistName: action.playlists[nextIndex],
-        currentTrackIndex: 0,
+        currentTrackId: null,
         currentTime: 0,
         wasPlaying: false,
       };
@@ -128,7 +138,7 @@ export function audioPlayerReducer(
       return {
         ...state,
         currentPlaylistName: action.playlists[prevIndex],
-        currentTrackIndex: 0,
+        currentTrackId: null,
         currentTime: 0,
         wasPlaying: false,
       };
@@ -208,28 +218,38 @@ export function audioPlayerReducer(
       };
 
     case 'INITIALIZE_PLAYLIST':
-      // Find NEUKO playlist first, otherwise use first track's playlist
-      const neukoPlaylist = action.tracks.find(t => t.playlistName === NEUKO_PLAYLIST);
-      const initialPlaylist = neukoPlaylist?.playlistName || action.tracks[0]?.playlistName || null;
+      // A linked track opens its own playlist
+      const linkedTrack = action.trackId ? action.tracks.find(t => t.id === action.trackId) : undefined;
+      if (linkedTrack) {
+        return {
+          ...state,
+          currentPlaylistName: linkedTrack.playlistName || null,
+          currentTrackId: linkedTrack.id,
+          shuffleHistory: [],
+        };
+      }
+
+      // Start with the first playlist in display order (see the playlist manifest)
+      const initialPlaylist = action.tracks[0]?.playlistName || null;
       
       // If NEUKO playlist, find anthem track
-      let initialTrackIndex = 0;
+      let initialTrackId: string | null = null;
       if (initialPlaylist === NEUKO_PLAYLIST) {
         const playlistTracks = action.tracks.filter(t => t.playlistName === NEUKO_PLAYLIST);
-        const anthemIndex = playlistTracks.findIndex(t => 
+        const anthemTrack = playlistTracks.find(t => 
           t.fileName && (t.fileName.includes(`${ANTHEM_TRACK_NAME}.mp3`) || 
           t.fileName.includes(ANTHEM_TRACK_NAME) || 
           t.fileName.includes(`/${ANTHEM_TRACK_NAME}`))
         );
-        if (anthemIndex !== -1) {
-          initialTrackIndex = anthemIndex;
+        if (anthemTrack) {
+          initialTrackId = anthemTrack.id;
         }
       }
       
       return {
         ...state,
         currentPlaylistName: initialPlaylist,
-        currentTrackIndex: initialTrackIndex,
+        currentTrackId: initialTrackId,
         shuffleHistory: [],
       };
 
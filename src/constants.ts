@@ -25,17 +25,41 @@ export const BUTTON_PRESS_TIMEOUT = 150;
 export const AUDIO_LOAD_TIMEOUT = 5000; // 5 seconds
 export const FTP_TIMEOUT = 30000; // 30 seconds
 export const DOWNLOAD_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+export const DOWNLOAD_TIMEOUT_PER_EXTRA_TRACK = 2 * 60 * 1000; // Added for each further track of an album/playlist
 export const WEBHOOK_CHECK_TIMEOUT = 10000; // 10 seconds
 export const LONG_POLLING_TIMEOUT = 60000; // 60 seconds
+export const METADATA_LOOKUP_TIMEOUT = 20000; // 20 seconds
+export const AUDIO_PROBE_TIMEOUT = 15000; // ffprobe per file
+export const AUDIO_TAG_WRITE_TIMEOUT = 60000; // ffmpeg tag rewrite (audio is copied, not re-encoded)
+export const PROCESS_KILL_GRACE_PERIOD = 5000; // 5 seconds between SIGTERM and SIGKILL
+
+// Downloads
+export const AUDIO_METADATA_HEAD_BYTES = 512 * 1024; // Start of a remote track fetched to read its tags
+export const MAX_DOWNLOAD_REDIRECTS = 5; // Redirects followed by direct HTTP downloads
+
+// External Process Output
+export const PROCESS_MAX_OUTPUT_BYTES = 1024 * 1024; // 1MB captured per stream
+export const PROCESS_STDERR_TAIL_LINES = 20;
 
 // Rate Limiting
-export const RATE_LIMIT_REQUESTS = 10; // requests per window
+export const RATE_LIMIT_REQUESTS = 10; // Bot messages per chat per window
 export const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute in milliseconds
+export const SUBMISSION_RATE_BURST = 5; // Songs a user can queue back to back
+export const SUBMISSION_RATE_REFILL_INTERVAL = 2 * 60 * 1000; // One more every 2 minutes
+export const API_RATE_LIMIT_REQUESTS = 60; // API requests per client per window
+export const API_RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
+export const RATE_LIMIT_CLEANUP_EVERY = 100; // Requests between sweeps of recovered keys
+export const RATE_LIMIT_PERSIST_DELAY = 5000; // RATE_LIMIT_STORE=file saves changes at most this often
+
+// Logging
+export const LOG_FILE_MAX_BYTES = 10 * 1024 * 1024; // Rotate LOG_FILE at 10MB
+export const LOG_FILE_MAX_FILES = 5; // Rotated files kept
 
 // File Paths
 export const MUSIC_DIR = '/music';
 export const DEFAULT_FTP_PATH = '/public/music';
 export const DEFAULT_FTP_HOST = 'files.bloc.rocks';
+export const PLAYLIST_MANIFEST_FILE = '.playlists.json'; // Display order, next to the playlist folders
 
 // Audio Player Configuration
 export const DEFAULT_VOLUME = 1;
@@ -43,6 +67,7 @@ export const VOLUME_INCREMENT = 0.1;
 export const MIN_VOLUME = 0;
 export const MAX_VOLUME = 1;
 export const VOLUME_STORAGE_KEY = 'pirate-radio-volume';
+export const TRACK_LINK_PARAM = 'track'; // Query parameter that opens the player on a specific track
 
 // UI Configuration
 export const CD_PLAYER_SCALE = 0.85; // Scale factor for CD player on desktop
@@ -67,16 +92,46 @@ export const ERROR_MESSAGES = {
   DOWNLOAD_FAILED: 'Could not download the song. Please check that the URL is valid and the song is available.',
   FTP_ERROR: 'Failed to upload the song. Please contact support if this persists.',
   SERVICE_UNAVAILABLE: 'Download service is not available. Please contact support.',
-  INVALID_URL: 'Invalid URL. Please share a valid YouTube or Spotify link.',
+  SOURCE_UNAVAILABLE: 'That song is not available for download (it may be private, removed, age-restricted or region-locked).',
+  SOURCE_RATE_LIMITED: 'The music service is rate limiting downloads right now. Please try again in a few minutes.',
+  INVALID_URL: 'Invalid URL. Please share a valid {sources} link.', // {sources} is filled from the source provider registry
   INVALID_PLAYLIST_NAME: 'Invalid playlist name.',
   RATE_LIMIT_EXCEEDED: 'Rate limit exceeded. Please wait {seconds} seconds before trying again.',
 } as const;
 
 // Telegram Bot Configuration
 export const TELEGRAM_API_URL = 'https://api.telegram.org/bot';
-export const MAX_BUTTONS_PER_MESSAGE = 50;
+export const TELEGRAM_FILE_API_URL = 'https://api.telegram.org/file/bot';
+export const TELEGRAM_MAX_DOWNLOAD_SIZE = 20 * 1024 * 1024; // Bot API getFile limit
+export const TELEGRAM_MAX_UPLOAD_SIZE = 50 * 1024 * 1024; // Bot API limit for files the bot sends
+export const KEYBOARD_PAGE_SIZE = 10; // Item buttons per page of a paginated keyboard
+export const TRACK_LIST_PAGE_SIZE = 30; // Tracks per page of a plain-text track list
+export const SEARCH_MAX_RESULTS = 50; // Also the most results an inline query answer may hold
+export const INLINE_QUERY_CACHE_TIME = 60; // Seconds Telegram may cache inline search results
 export const MAX_TRACK_NAME_LENGTH = 30;
 export const TRACK_NAME_TRUNCATE_LENGTH = 27;
+export const PROGRESS_EDIT_INTERVAL = 3000; // Min ms between progress message edits
+
+// Bot Session Configuration
+export const SESSION_TTL = 15 * 60 * 1000; // 15 minutes
+export const SESSION_CLEANUP_INTERVAL = 60 * 1000; // 1 minute
+export const DEFAULT_BOT_DATA_DIR = '.bot-data';
+export const CALLBACK_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days - buttons on older messages stop working after this
+export const CALLBACK_TOKEN_PERSIST_DELAY = 1000; // Tokens issued within this window are saved together
+export const CALLBACK_DATA_MAX_BYTES = 64; // Telegram's limit on callback_data
+export const DEFAULT_MUTE_DURATION = 24 * 60 * 60 * 1000; // 24 hours, when /mute is given no duration
+
+// Song Job Queue Configuration
+export const DEFAULT_QUEUE_WORKERS = 2;
+export const DEFAULT_MAX_JOBS_PER_USER = 3;
+export const UPLOAD_MAX_RETRIES = 3;
+export const UPLOAD_RETRY_BASE_DELAY = 2000; // 2 seconds, doubled per retry
+export const MAX_FINISHED_JOBS_KEPT = 50;
+export const DEFAULT_MAX_TRACKS_PER_SUBMISSION = 20; // Album/playlist links
+export const DUPLICATE_DURATION_TOLERANCE = 3; // Seconds two durations may differ and still be the same song
+export const TRASH_FOLDER = '.trash'; // Next to the playlist folders; hidden so it's never scanned as a playlist
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_PURGE_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
 
 // Playlist Configuration
 export const MAX_PLAYLIST_NAME_LENGTH = 100;
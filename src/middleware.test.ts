@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getClientKey } from './middleware';
+
+describe('middleware', () => {
+    describe('getClientKey', () => {
+        const request = (forwardedFor?: string) =>
+            new Request('https://example.com/api/playlists.json', {
+                headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+            });
+
+        it('ignores X-Forwarded-For unless a proxy is trusted', () => {
+            expect(getClientKey(request('1.2.3.4'), () => '9.9.9.9')).toBe('9.9.9.9');
+        });
+
+        it('takes the entry the trusted proxy appended, not the client\'s own', () => {
+            expect(getClientKey(request('6.6.6.6, 1.2.3.4'), () => '10.0.0.2', 1)).toBe('1.2.3.4');
+            expect(getClientKey(request('6.6.6.6, 1.2.3.4, 10.0.0.5'), () => '10.0.0.2', 2)).toBe('1.2.3.4');
+        });
+
+        it('falls back to the connection address', () => {
+            expect(getClientKey(request(), () => '9.9.9.9', 1)).toBe('9.9.9.9');
+            expect(getClientKey(request(), () => { throw new Error('unavailable'); })).toBe('unknown');
+        });
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Astro middleware
+ * Rate limits the API routes per client. The Telegram webhook is left out: its requests all
+ * come from Telegram, and the bot limits each chat itself
+ */
+
+import type { MiddlewareHandler } from 'astro';
+import { getRateLimiter } from './services/rate-limiter';
+
+const UNLIMITED_ROUTES = ['/api/telegram-webhook'];
+
+/**
+ * Client IP for rate limiting
+ * By default this is the address the adapter reports (on Vercel, from the header the platform itself
+ * sets), since X-Forwarded-For is whatever the client sends unless a proxy overwrites it. Behind
+ * TRUSTED_PROXY_HOPS proxies that each append to X-Forwarded-For, the entry the outermost one added is used
+ */
+export function getClientKey(request: Request, clientAddress: () => string, trustedProxyHops: number = 0): string {
+  if (trustedProxyHops > 0) {
+    const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean);
+    const client = forwarded[forwarded.length - trustedProxyHops];
+    if (client) return client;
+  }
+  try {
+    return clientAddress();
+  } catch {
+    return 'unknown';
+  }
+}
+
+const trustedProxyHops = parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10) || 0;
+
+export const onRequest: MiddlewareHandler = async (context, next) => {
+  const { pathname } = context.url;
+  if (!pathname.startsWith('/api/') || UNLIMITED_ROUTES.includes(pathname)) {
+    return next();
+  }
+
+  const limit = getRateLimiter('api_requests').consume(getClientKey(context.request, () => context.clientAddress, trustedProxyHops));
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    return new Response(
+      JSON.stringify({ error: 'Too many requests', retryAfter }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(retryAfter),
+          'RateLimit-Limit': String(limit.limit),
+          'RateLimit-Remaining': '0',
+        },
+      }
+    );
+  }
+
+  return next();
+};
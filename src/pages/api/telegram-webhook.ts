@@ -0,0 +1,107 @@
+/**
+ * Telegram webhook endpoint
+ * Receives updates pushed by Telegram (webhook mode) and hands them to the bot handlers
+ *
+ * Set up with: npm run setup-webhook <production-url> <webhook-secret>
+ * TELEGRAM_WEBHOOK_SECRET must hold the same secret; requests are refused without it
+ */
+
+import type { APIRoute } from 'astro';
+import { isValidWebhookSecret, type TelegramUpdate } from '../../utils/telegram-bot';
+import { markUpdateProcessed, dispatchUpdate } from '../../bot/updates';
+import { flushCallbackTokens } from '../../bot/utils/callback-data';
+import { waitForSongJobs } from '../../bot/services/song-queue';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('webhook');
+
+/**
+ * Header Telegram sends when the webhook was registered with a secret_token
+ */
+const SECRET_TOKEN_HEADER = 'X-Telegram-Bot-Api-Secret-Token';
+
+/**
+ * POST endpoint - processes a single Telegram update
+ */
+export const POST: APIRoute = async ({ request }) => {
+  const botToken = import.meta.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    log.error('TELEGRAM_BOT_TOKEN not configured');
+    return new Response(
+      JSON.stringify({ ok: false, error: 'Bot not configured' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Without a secret anyone could post forged updates (with an owner's user ID), so refuse to serve
+  const webhookSecret = import.meta.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    log.error('TELEGRAM_WEBHOOK_SECRET not configured');
+    return new Response(
+      JSON.stringify({ ok: false, error: 'Webhook secret not configured' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Verify the request comes from Telegram
+  if (!isValidWebhookSecret(request.headers.get(SECRET_TOKEN_HEADER), webhookSecret)) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  let update: TelegramUpdate;
+  try {
+    update = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ ok: false, error: 'Invalid JSON body' }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  if (!update || typeof update.update_id !== 'number') {
+    return new Response(
+      JSON.stringify({ ok: false, error: 'Invalid update' }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Telegram redelivers updates it considers unacknowledged - drop duplicates
+  if (!markUpdateProcessed(update.update_id)) {
+    return new Response(
+      JSON.stringify({ ok: true, duplicate: true }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Wait for the handler so serverless runtimes don't freeze mid-request.
+  // Handler errors are logged by dispatchUpdate; always acknowledge so Telegram doesn't retry.
+  await dispatchUpdate(botToken, update);
+  // Songs queued by this update download and upload in this request: nothing else would finish them
+  // once the instance is frozen (bounded by the function's maxDuration, see astro.config.mjs)
+  await waitForSongJobs();
+  // The instance may be frozen once it responds, before the batched token write would run
+  flushCallbackTokens();
+
+  return new Response(
+    JSON.stringify({ ok: true }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+};
@@ -3,8 +3,11 @@
  * Standardizes error logging and user notification
  */
 
-import { AppError } from '../types/errors';
+import { AppError, ProcessError } from '../types/errors';
 import { ERROR_MESSAGES } from '../constants';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('errors');
 
 export interface ErrorContext {
     userId?: number;
@@ -19,19 +22,14 @@ export class ErrorHandler {
      * Handle an error, log it, and return a user-friendly message
      */
     static handle(error: any, context?: ErrorContext): string {
-        const timestamp = new Date().toISOString();
         const errorName = error.name || 'Error';
         const errorMessage = error.message || 'Unknown error';
-        const stack = error.stack;
 
-        // Log to console (could be replaced with a logging service)
-        console.error(`[${timestamp}] [${errorName}] ${errorMessage}`);
-        if (context) {
-            console.error('Context:', JSON.stringify(context, null, 2));
-        }
-        if (stack) {
-            console.error(stack);
-        }
+        log.error(`[${errorName}] ${errorMessage}`, {
+            ...(context && { context }),
+            ...(error.stack && { stack: error.stack }),
+            ...(error instanceof ProcessError && { stderrTail: error.result.stderrTail }),
+        });
 
         // Determine user-friendly message
         if (error instanceof AppError) {
@@ -68,8 +66,37 @@ export class ErrorHandler {
                 return `Validation Error: ${error.message}`;
             case 'CONFIGURATION_ERROR':
                 return ERROR_MESSAGES.SERVICE_UNAVAILABLE;
+            case 'PROCESS_ERROR':
+                return this.getProcessMessage(error as ProcessError);
             default:
                 return error.message;
         }
     }
+
+    /**
+     * Get user-friendly message for a failed external process (yt-dlp, spotify_dl)
+     */
+    private static getProcessMessage(error: ProcessError): string {
+        const { failure, errors, stderrTail } = error.result;
+
+        switch (failure) {
+            case 'not_found':
+            case 'spawn_error':
+                return ERROR_MESSAGES.SERVICE_UNAVAILABLE;
+            case 'timeout':
+                return ERROR_MESSAGES.DOWNLOAD_TIMEOUT;
+        }
+
+        const output = [...errors, ...stderrTail].join('\n');
+        if (/Video unavailable|Private video|not available|has been removed|Sign in to confirm/i.test(output)) {
+            return ERROR_MESSAGES.SOURCE_UNAVAILABLE;
+        }
+        if (/HTTP Error 429|Too Many Requests|rate.?limit/i.test(output)) {
+            return ERROR_MESSAGES.SOURCE_RATE_LIMITED;
+        }
+        if (/ECONNRESET|ETIMEDOUT|ENOTFOUND|Unable to download webpage/i.test(output)) {
+            return ERROR_MESSAGES.NETWORK_ERROR;
+        }
+        return ERROR_MESSAGES.DOWNLOAD_FAILED;
+    }
 }
@@ -0,0 +1,98 @@
+/**
+ * Rate limit stores
+ * Hold each key's limiter state; the memory store is the default, the file store keeps
+ * limits across restarts (RATE_LIMIT_STORE=file)
+ */
+
+import { getBotDataPath } from '../bot/utils/data-dir';
+import { readJsonFile, writeJsonFile } from '../bot/utils/json-file';
+import { RATE_LIMIT_PERSIST_DELAY } from '../constants';
+
+export interface RateLimitStore<S> {
+    get(key: string): S | undefined;
+    set(key: string, state: S): void;
+    delete(key: string): void;
+    entries(): Array<[string, S]>;
+}
+
+export class MemoryRateLimitStore<S> implements RateLimitStore<S> {
+    private states: Map<string, S> = new Map();
+
+    get(key: string): S | undefined {
+        return this.states.get(key);
+    }
+
+    set(key: string, state: S): void {
+        this.states.set(key, state);
+    }
+
+    delete(key: string): void {
+        this.states.delete(key);
+    }
+
+    entries(): Array<[string, S]> {
+        return Array.from(this.states.entries());
+    }
+}
+
+/**
+ * Keeps states in memory and writes them to a JSON file shortly after they change
+ * (changes within RATE_LIMIT_PERSIST_DELAY are saved together, so busy routes don't rewrite the file per request)
+ */
+export class FileRateLimitStore<S> implements RateLimitStore<S> {
+    private states: Map<string, S>;
+    private filePath: string;
+    private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.states = new Map(Object.entries(readJsonFile<Record<string, S>>(filePath, {})));
+    }
+
+    get(key: string): S | undefined {
+        return this.states.get(key);
+    }
+
+    set(key: string, state: S): void {
+        this.states.set(key, state);
+        this.schedulePersist();
+    }
+
+    delete(key: string): void {
+        if (this.states.delete(key)) {
+            this.schedulePersist();
+        }
+    }
+
+    entries(): Array<[string, S]> {
+        return Array.from(this.states.entries());
+    }
+
+    /**
+     * Write pending changes now
+     */
+    flush(): void {
+        if (!this.persistTimer) return;
+        clearTimeout(this.persistTimer);
+        this.persistTimer = null;
+        writeJsonFile(this.filePath, Object.fromEntries(this.states));
+    }
+
+    private schedulePersist(): void {
+        if (this.persistTimer) return;
+        this.persistTimer = setTimeout(() => this.flush(), RATE_LIMIT_PERSIST_DELAY);
+        this.persistTimer.unref?.();
+    }
+}
+
+/**
+ * Create the store selected by RATE_LIMIT_STORE ('memory' by default, or 'file')
+ */
+export function createRateLimitStore<S>(policyName: string): RateLimitStore<S> {
+    if (process.env.RATE_LIMIT_STORE === 'file') {
+        const store = new FileRateLimitStore<S>(getBotDataPath(`rate-limits/${policyName}.json`));
+        process.once('exit', () => store.flush());
+        return store;
+    }
+    return new MemoryRateLimitStore<S>();
+}
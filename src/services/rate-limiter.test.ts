@@ -0,0 +1,73 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { RateLimiter } from './rate-limiter';
+import { FileRateLimitStore, MemoryRateLimitStore } from './rate-limit-store';
+
+describe('RateLimiter', () => {
+    describe('sliding window', () => {
+        const policy = { algorithm: 'sliding_window', limit: 2, windowMs: 1000 } as const;
+
+        it('allows up to the limit in any window', () => {
+            const limiter = new RateLimiter(policy);
+            expect(limiter.consume('a', 0)).toMatchObject({ allowed: true, remaining: 1 });
+            expect(limiter.consume('a', 400)).toMatchObject({ allowed: true, remaining: 0 });
+            expect(limiter.consume('a', 900)).toMatchObject({ allowed: false, retryAfterMs: 100 });
+            expect(limiter.consume('b', 900).allowed).toBe(true);
+        });
+
+        it('frees slots as hits slide out instead of resetting the whole window', () => {
+            const limiter = new RateLimiter(policy);
+            limiter.consume('a', 0);
+            limiter.consume('a', 600);
+            expect(limiter.consume('a', 1001).allowed).toBe(true);
+            expect(limiter.consume('a', 1100)).toMatchObject({ allowed: false, retryAfterMs: 500 });
+        });
+    });
+
+    describe('token bucket', () => {
+        const policy = { algorithm: 'token_bucket', capacity: 3, refillIntervalMs: 1000 } as const;
+
+        it('allows a burst, then refills one token per interval', () => {
+            const limiter = new RateLimiter(policy);
+            for (let i = 0; i < 3; i++) {
+                expect(limiter.consume('a', 0).allowed).toBe(true);
+            }
+            expect(limiter.consume('a', 250)).toMatchObject({ allowed: false, retryAfterMs: 750 });
+            expect(limiter.consume('a', 1000)).toMatchObject({ allowed: true, remaining: 0 });
+            expect(limiter.peek('a', 5000)).toMatchObject({ allowed: true, remaining: 3 });
+        });
+    });
+
+    it('forgets keys that have recovered', () => {
+        const store = new MemoryRateLimitStore<any>();
+        const limiter = new RateLimiter({ algorithm: 'sliding_window', limit: 1, windowMs: 1000 }, store);
+        limiter.consume('a', 0);
+        limiter.consume('b', 500);
+
+        limiter.cleanup(1200);
+        expect(store.entries().map(([key]) => key)).toEqual(['b']);
+    });
+
+    describe('file store', () => {
+        let dir: string;
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('keeps limits across restarts', () => {
+            dir = mkdtempSync(join(tmpdir(), 'rate-limit-'));
+            const filePath = join(dir, 'limits.json');
+            const policy = { algorithm: 'sliding_window', limit: 1, windowMs: 1000 } as const;
+
+            const store = new FileRateLimitStore<any>(filePath);
+            new RateLimiter(policy, store).consume('a', 0);
+            expect(existsSync(filePath)).toBe(false); // Saved in batches, not per request
+            store.flush();
+
+            expect(new RateLimiter(policy, new FileRateLimitStore(filePath)).consume('a', 10).allowed).toBe(false);
+        });
+    });
+});
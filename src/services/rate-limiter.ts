@@ -1,72 +1,158 @@
 /**
  * Rate Limiter Service
- * Manages rate limiting for bot users
+ * One limiter for the bot and the API: named policies pick an algorithm (sliding window or
+ * token bucket) and limits, and keep per-key state in a pluggable store
  */
 
-interface RateLimitConfig {
+import { createRateLimitStore, MemoryRateLimitStore, type RateLimitStore } from './rate-limit-store';
+import {
+    RATE_LIMIT_REQUESTS,
+    RATE_LIMIT_WINDOW,
+    SUBMISSION_RATE_BURST,
+    SUBMISSION_RATE_REFILL_INTERVAL,
+    API_RATE_LIMIT_REQUESTS,
+    API_RATE_LIMIT_WINDOW,
+    RATE_LIMIT_CLEANUP_EVERY,
+} from '../constants';
+
+/**
+ * At most `limit` hits in any `windowMs` span
+ */
+export interface SlidingWindowPolicy {
+    algorithm: 'sliding_window';
+    limit: number;
     windowMs: number;
-    maxRequests: number;
 }
 
-interface RateLimitEntry {
-    count: number;
-    resetTime: number;
+/**
+ * Bursts of up to `capacity`, refilled by one token every `refillIntervalMs`
+ */
+export interface TokenBucketPolicy {
+    algorithm: 'token_bucket';
+    capacity: number;
+    refillIntervalMs: number;
 }
 
-export class RateLimiter {
-    private store: Map<string, RateLimitEntry>;
-    private config: RateLimitConfig;
+export type RateLimitPolicy = SlidingWindowPolicy | TokenBucketPolicy;
 
-    constructor(config: RateLimitConfig = { windowMs: 60 * 1000, maxRequests: 5 }) {
-        this.store = new Map();
-        this.config = config;
-    }
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    retryAfterMs: number; // 0 when allowed
+}
 
-    /**
-     * Check if a key is rate limited
-     * Returns true if allowed, false if limited
-     */
-    check(key: string): boolean {
-        const now = Date.now();
-        const entry = this.store.get(key);
-
-        if (!entry) {
-            this.store.set(key, {
-                count: 1,
-                resetTime: now + this.config.windowMs,
-            });
-            return true;
-        }
+interface SlidingWindowState {
+    hits: number[]; // Timestamps inside the window, oldest first
+}
+
+interface TokenBucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+type RateLimitState = SlidingWindowState | TokenBucketState;
+
+interface RateLimitAlgorithm<P extends RateLimitPolicy, S> {
+    consume(policy: P, state: S | undefined, now: number): { state: S; result: RateLimitResult };
+    peek(policy: P, state: S | undefined, now: number): RateLimitResult;
+    isIdle(policy: P, state: S, now: number): boolean; // Safe to forget (same as no state)
+}
 
-        if (now > entry.resetTime) {
-            // Window expired, reset
-            this.store.set(key, {
-                count: 1,
-                resetTime: now + this.config.windowMs,
-            });
-            return true;
+const slidingWindow: RateLimitAlgorithm<SlidingWindowPolicy, SlidingWindowState> = {
+    consume(policy, state, now) {
+        const hits = (state?.hits || []).filter(hit => hit > now - policy.windowMs);
+        if (hits.length >= policy.limit) {
+            return { state: { hits }, result: this.peek(policy, { hits }, now) };
         }
+        hits.push(now);
+        return { state: { hits }, result: { allowed: true, limit: policy.limit, remaining: policy.limit - hits.length, retryAfterMs: 0 } };
+    },
 
-        if (entry.count < this.config.maxRequests) {
-            entry.count++;
-            return true;
+    peek(policy, state, now) {
+        const hits = (state?.hits || []).filter(hit => hit > now - policy.windowMs);
+        const remaining = Math.max(0, policy.limit - hits.length);
+        // A slot frees up when the oldest hit that keeps the window full leaves it
+        const retryAfterMs = remaining > 0 ? 0 : hits[hits.length - policy.limit] + policy.windowMs - now;
+        return { allowed: remaining > 0, limit: policy.limit, remaining, retryAfterMs };
+    },
+
+    isIdle(policy, state, now) {
+        return state.hits.every(hit => hit <= now - policy.windowMs);
+    },
+};
+
+const tokenBucket: RateLimitAlgorithm<TokenBucketPolicy, TokenBucketState> = {
+    consume(policy, state, now) {
+        const tokens = refill(policy, state, now);
+        if (tokens < 1) {
+            return { state: { tokens, updatedAt: now }, result: this.peek(policy, { tokens, updatedAt: now }, now) };
         }
+        return {
+            state: { tokens: tokens - 1, updatedAt: now },
+            result: { allowed: true, limit: policy.capacity, remaining: Math.floor(tokens - 1), retryAfterMs: 0 },
+        };
+    },
 
-        return false;
-    }
+    peek(policy, state, now) {
+        const tokens = refill(policy, state, now);
+        return {
+            allowed: tokens >= 1,
+            limit: policy.capacity,
+            remaining: Math.floor(tokens),
+            retryAfterMs: tokens >= 1 ? 0 : Math.ceil((1 - tokens) * policy.refillIntervalMs),
+        };
+    },
+
+    isIdle(policy, state, now) {
+        return refill(policy, state, now) >= policy.capacity;
+    },
+};
+
+function refill(policy: TokenBucketPolicy, state: TokenBucketState | undefined, now: number): number {
+    if (!state) return policy.capacity;
+    return Math.min(policy.capacity, state.tokens + (now - state.updatedAt) / policy.refillIntervalMs);
+}
+
+function getAlgorithm(policy: RateLimitPolicy): RateLimitAlgorithm<RateLimitPolicy, RateLimitState> {
+    return (policy.algorithm === 'token_bucket' ? tokenBucket : slidingWindow) as RateLimitAlgorithm<RateLimitPolicy, RateLimitState>;
+}
+
+export class RateLimiter {
+    private policy: RateLimitPolicy;
+    private store: RateLimitStore<RateLimitState>;
+    private algorithm: RateLimitAlgorithm<RateLimitPolicy, RateLimitState>;
+    private consumedSinceCleanup = 0;
 
     /**
-     * Get remaining requests for a key
+     * @param store Where per-key state lives (in memory unless given)
      */
-    getRemaining(key: string): number {
-        const now = Date.now();
-        const entry = this.store.get(key);
+    constructor(policy: RateLimitPolicy, store?: RateLimitStore<RateLimitState>) {
+        this.policy = policy;
+        this.store = store || new MemoryRateLimitStore();
+        this.algorithm = getAlgorithm(policy);
+    }
 
-        if (!entry || now > entry.resetTime) {
-            return this.config.maxRequests;
+    /**
+     * Count a request for a key
+     * Returns whether it's allowed, and if not, how long until it would be
+     */
+    consume(key: string, now: number = Date.now()): RateLimitResult {
+        if (++this.consumedSinceCleanup >= RATE_LIMIT_CLEANUP_EVERY) {
+            this.consumedSinceCleanup = 0;
+            this.cleanup(now);
         }
 
-        return Math.max(0, this.config.maxRequests - entry.count);
+        const { state, result } = this.algorithm.consume(this.policy, this.store.get(key), now);
+        this.store.set(key, state);
+        return result;
+    }
+
+    /**
+     * The limit for a key without counting a request
+     */
+    peek(key: string, now: number = Date.now()): RateLimitResult {
+        return this.algorithm.peek(this.policy, this.store.get(key), now);
     }
 
     /**
@@ -77,14 +163,38 @@ export class RateLimiter {
     }
 
     /**
-     * Clean up expired entries
+     * Forget keys whose limits have fully recovered
      */
-    cleanup(): void {
-        const now = Date.now();
-        for (const [key, entry] of this.store.entries()) {
-            if (now > entry.resetTime) {
+    cleanup(now: number = Date.now()): void {
+        for (const [key, state] of this.store.entries()) {
+            if (this.algorithm.isIdle(this.policy, state, now)) {
                 this.store.delete(key);
             }
         }
     }
 }
+
+/**
+ * Named policies: bot messages per chat, song submissions per user, API requests per client
+ */
+export const RATE_LIMIT_POLICIES = {
+    bot_messages: { algorithm: 'sliding_window', limit: RATE_LIMIT_REQUESTS, windowMs: RATE_LIMIT_WINDOW },
+    submissions: { algorithm: 'token_bucket', capacity: SUBMISSION_RATE_BURST, refillIntervalMs: SUBMISSION_RATE_REFILL_INTERVAL },
+    api_requests: { algorithm: 'sliding_window', limit: API_RATE_LIMIT_REQUESTS, windowMs: API_RATE_LIMIT_WINDOW },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+const limiters = new Map<RateLimitPolicyName, RateLimiter>();
+
+/**
+ * Shared limiter for a named policy (its store is chosen by RATE_LIMIT_STORE)
+ */
+export function getRateLimiter(name: RateLimitPolicyName): RateLimiter {
+    let limiter = limiters.get(name);
+    if (!limiter) {
+        limiter = new RateLimiter(RATE_LIMIT_POLICIES[name], createRateLimitStore<RateLimitState>(name));
+        limiters.set(name, limiter);
+    }
+    return limiter;
+}
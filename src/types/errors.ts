@@ -2,6 +2,8 @@
  * Custom error types for the application
  */
 
+import type { ProcessResult } from '../utils/process-runner';
+
 export class AppError extends Error {
     constructor(message: string, public code: string, public statusCode: number = 500) {
         super(message);
@@ -32,3 +34,26 @@ export class ConfigurationError extends AppError {
         super(message, 'CONFIGURATION_ERROR', 500);
     }
 }
+
+export class ProcessError extends AppError {
+    constructor(public result: ProcessResult) {
+        super(
+            result.errors[result.errors.length - 1] ||
+                `${result.command} failed (${result.failure}${result.exitCode !== null ? `, exit code ${result.exitCode}` : ''})`,
+            'PROCESS_ERROR',
+            500
+        );
+    }
+}
+
+export class DuplicateTrackError extends AppError {
+    constructor(message: string, public matches: Array<{ playlist: string; fileName: string }>) {
+        super(message, 'DUPLICATE_TRACK', 409);
+    }
+}
+
+export class QuotaExceededError extends AppError {
+    constructor(message: string) {
+        super(message, 'QUOTA_EXCEEDED', 429);
+    }
+}
@@ -19,6 +19,7 @@ declare module 'ssh2-sftp-client' {
     export default class SftpClient {
         connect(config: ConnectConfig): Promise<void>;
         list(remotePath: string): Promise<FileInfo[]>;
+        stat(remotePath: string): Promise<{ size: number; modifyTime: number; isDirectory: boolean; isFile: boolean }>;
         get(remotePath: string, dst?: string | NodeJS.WritableStream, options?: any): Promise<string | NodeJS.WritableStream | Buffer>;
         put(input: string | Buffer | NodeJS.ReadableStream, remotePath: string, options?: any): Promise<string>;
         mkdir(remotePath: string, recursive?: boolean): Promise<string>;
@@ -1,4 +1,5 @@
 export interface Track {
+  id: string; // Stable across rescans - derived from playlist and file name (see getTrackId)
   trackNumber: number;
   trackName: string;
   fileName: string;
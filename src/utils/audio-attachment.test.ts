@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { validateAudioAttachment, hasAttachment } from './audio-attachment';
+
+const MB = 1024 * 1024;
+
+describe('audio-attachment', () => {
+    describe('hasAttachment', () => {
+        it('detects audio and document messages', () => {
+            expect(hasAttachment({ audio: { file_id: 'a', file_unique_id: 'u', duration: 10 } })).toBe(true);
+            expect(hasAttachment({ document: { file_id: 'd', file_unique_id: 'u' } })).toBe(true);
+            expect(hasAttachment({})).toBe(false);
+        });
+    });
+
+    describe('validateAudioAttachment', () => {
+        it('accepts a supported document', () => {
+            const result = validateAudioAttachment({
+                document: { file_id: 'doc1', file_unique_id: 'u1', file_name: 'My Song.flac', file_size: 5 * MB },
+            }, 20 * MB);
+
+            expect(result).toEqual({
+                ok: true,
+                file: { fileId: 'doc1', fileName: 'My Song.flac', fileSize: 5 * MB },
+            });
+        });
+
+        it('uses performer and title for audio messages', () => {
+            const result = validateAudioAttachment({
+                audio: { file_id: 'aud1', file_unique_id: 'u2', duration: 180, performer: 'Artist', title: 'Track', mime_type: 'audio/mpeg' },
+            }, 20 * MB);
+
+            expect(result).toEqual({
+                ok: true,
+                file: { fileId: 'aud1', fileName: 'Artist - Track.mp3', title: 'Artist - Track' },
+            });
+        });
+
+        it('rejects unsupported extensions', () => {
+            const result = validateAudioAttachment({
+                document: { file_id: 'doc2', file_unique_id: 'u3', file_name: 'notes.pdf', file_size: 1000 },
+            }, 20 * MB);
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error).toContain('Unsupported file type');
+        });
+
+        it('rejects files over the size limit', () => {
+            const result = validateAudioAttachment({
+                document: { file_id: 'doc3', file_unique_id: 'u4', file_name: 'big.wav', file_size: 30 * MB },
+            }, 20 * MB);
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.error).toContain('Maximum size is 20MB');
+        });
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Audio files sent directly to the bot (Telegram audio/document messages)
+ */
+
+import type { TelegramMessage } from './telegram-bot';
+import { SUPPORTED_AUDIO_FORMATS, DEFAULT_MAX_FILE_SIZE, TELEGRAM_MAX_DOWNLOAD_SIZE } from '../constants';
+
+export interface TelegramAudioFile {
+  fileId: string;
+  fileName: string;
+  fileSize?: number;
+  title?: string;
+}
+
+export type AudioAttachmentResult =
+  | { ok: true; file: TelegramAudioFile }
+  | { ok: false; error: string };
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/ogg': '.ogg',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/mp4': '.m4a',
+  'audio/x-m4a': '.m4a',
+  'audio/aac': '.aac',
+  'audio/flac': '.flac',
+  'audio/x-flac': '.flac',
+};
+
+/**
+ * Largest file the bot accepts: MAX_FILE_SIZE, capped by what the Bot API lets bots download
+ */
+export function getMaxAttachmentSize(): number {
+  const maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '', 10) || DEFAULT_MAX_FILE_SIZE;
+  return Math.min(maxFileSize, TELEGRAM_MAX_DOWNLOAD_SIZE);
+}
+
+/**
+ * Check if a message carries a file (audio or document)
+ */
+export function hasAttachment(message: Pick<TelegramMessage, 'audio' | 'document'>): boolean {
+  return !!(message.audio || message.document);
+}
+
+/**
+ * Validate an audio/document message against SUPPORTED_AUDIO_FORMATS and the size limit
+ */
+export function validateAudioAttachment(
+  message: Pick<TelegramMessage, 'audio' | 'document'>,
+  maxFileSize: number = getMaxAttachmentSize()
+): AudioAttachmentResult {
+  const audio = message.audio;
+  const attachment = audio || message.document;
+  if (!attachment) {
+    return { ok: false, error: 'No file found in the message.' };
+  }
+
+  // Audio messages may omit the file name - fall back to the MIME type
+  let fileName = attachment.file_name;
+  if (!fileName) {
+    const extension = attachment.mime_type ? MIME_EXTENSIONS[attachment.mime_type.toLowerCase()] : undefined;
+    const baseName = [audio?.performer, audio?.title].filter(Boolean).join(' - ') || `audio_${attachment.file_unique_id}`;
+    fileName = extension ? `${baseName}${extension}` : baseName;
+  }
+
+  const extension = fileName.includes('.') ? `.${fileName.split('.').pop()!.toLowerCase()}` : '';
+  if (!SUPPORTED_AUDIO_FORMATS.includes(extension as any)) {
+    return {
+      ok: false,
+      error: `Unsupported file type. Please send one of: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
+    };
+  }
+
+  if (attachment.file_size && attachment.file_size > maxFileSize) {
+    return {
+      ok: false,
+      error: `File too large (${Math.round(attachment.file_size / 1024 / 1024)}MB). Maximum size is ${Math.round(maxFileSize / 1024 / 1024)}MB.`,
+    };
+  }
+
+  const title = audio?.title
+    ? [audio.performer, audio.title].filter(Boolean).join(' - ')
+    : undefined;
+
+  return {
+    ok: true,
+    file: {
+      fileId: attachment.file_id,
+      fileName,
+      ...(attachment.file_size && { fileSize: attachment.file_size }),
+      ...(title && { title }),
+    },
+  };
+}
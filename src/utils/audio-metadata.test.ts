@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseFfprobeOutput, buildTagWriteArgs, getId3TagSize } from './audio-metadata';
+
+describe('audio-metadata', () => {
+    describe('parseFfprobeOutput', () => {
+        it('reads ID3 tags and duration from the container', () => {
+            const output = JSON.stringify({
+                streams: [{ codec_type: 'audio' }],
+                format: {
+                    duration: '215.431',
+                    tags: { title: 'Song', artist: 'Artist', album: 'Album' },
+                },
+            });
+
+            expect(parseFfprobeOutput(output)).toEqual({
+                title: 'Song',
+                artist: 'Artist',
+                album: 'Album',
+                durationSeconds: 215,
+            });
+        });
+
+        it('falls back to Vorbis comments on the audio stream', () => {
+            const output = JSON.stringify({
+                streams: [{ codec_type: 'audio', tags: { TITLE: 'Ogg Song', ARTIST: 'Ogg Artist' } }],
+                format: { duration: '60.0' },
+            });
+
+            expect(parseFfprobeOutput(output)).toEqual({
+                title: 'Ogg Song',
+                artist: 'Ogg Artist',
+                durationSeconds: 60,
+            });
+        });
+
+        it('returns null for invalid output', () => {
+            expect(parseFfprobeOutput('not json')).toBeNull();
+        });
+    });
+
+    describe('getId3TagSize', () => {
+        it('reads the syncsafe size from the ID3v2 header', () => {
+            // 0x01 0x00 = 1 << 7 = 128 bytes of frames
+            const head = Buffer.from([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0x01, 0x00, 0xff]);
+            expect(getId3TagSize(head)).toBe(138);
+        });
+
+        it('is 0 without a tag', () => {
+            expect(getId3TagSize(Buffer.from([0xff, 0xfb, 0x90, 0x64, 0, 0, 0, 0, 0, 0]))).toBe(0);
+        });
+    });
+
+    describe('buildTagWriteArgs', () => {
+        it('copies audio and sets ID3v2.3 tags for mp3', () => {
+            const args = buildTagWriteArgs('/tmp/in.mp3', '/tmp/out.mp3', { title: 'Song', artist: 'Artist' });
+
+            expect(args).toEqual([
+                '-y', '-v', 'error', '-i', '/tmp/in.mp3',
+                '-map', '0:a', '-c:a', 'copy',
+                '-metadata', 'title=Song',
+                '-metadata', 'artist=Artist',
+                '-id3v2_version', '3',
+                '/tmp/out.mp3',
+            ]);
+        });
+
+        it('attaches the cover as a picture stream', () => {
+            const args = buildTagWriteArgs('/tmp/in.m4a', '/tmp/out.m4a', { title: 'Song' }, '/tmp/cover');
+
+            expect(args).toContain('attached_pic');
+            expect(args.slice(0, 7)).toEqual(['-y', '-v', 'error', '-i', '/tmp/in.m4a', '-i', '/tmp/cover']);
+            expect(args).not.toContain('-id3v2_version');
+        });
+    });
+});
@@ -0,0 +1,248 @@
+/**
+ * Audio metadata (ID3/Vorbis/MP4 tags and duration)
+ * Reads tags with ffprobe and writes them with ffmpeg (both ship with the ffmpeg package yt-dlp already needs)
+ */
+
+import { readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname, extname, join } from 'path';
+import { runProcess } from './process-runner';
+import { AUDIO_PROBE_TIMEOUT, AUDIO_TAG_WRITE_TIMEOUT, METADATA_LOOKUP_TIMEOUT } from '../constants';
+import { createLogger } from './logger';
+
+const log = createLogger('metadata');
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  durationSeconds?: number;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  coverUrl?: string; // Embedded as front cover where the container supports it
+}
+
+// Containers that can carry an attached cover picture via ffmpeg
+const COVER_ART_EXTENSIONS = ['.mp3', '.m4a'];
+
+let ffprobeMissing = false;
+
+/**
+ * Read the first non-empty tag, matching keys case-insensitively
+ * (ID3 uses "title", Vorbis comments often "TITLE")
+ */
+function getTag(tags: Record<string, string> | undefined, ...keys: string[]): string | undefined {
+  if (!tags) return undefined;
+  const lowerCased = Object.fromEntries(Object.entries(tags).map(([key, value]) => [key.toLowerCase(), value]));
+  for (const key of keys) {
+    const value = lowerCased[key]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Parse `ffprobe -print_format json -show_format -show_streams` output
+ * Ogg/Opus files keep their Vorbis comments on the audio stream rather than the container
+ */
+export function parseFfprobeOutput(output: string): AudioMetadata | null {
+  let data: any;
+  try {
+    data = JSON.parse(output);
+  } catch {
+    return null;
+  }
+
+  const formatTags = data?.format?.tags;
+  const streamTags = Array.isArray(data?.streams)
+    ? data.streams.find((stream: any) => stream.codec_type === 'audio')?.tags
+    : undefined;
+  const tags = { ...streamTags, ...formatTags };
+
+  const duration = parseFloat(data?.format?.duration);
+
+  const metadata: AudioMetadata = {
+    ...(getTag(tags, 'title') && { title: getTag(tags, 'title') }),
+    ...(getTag(tags, 'artist', 'album_artist', 'performer') && { artist: getTag(tags, 'artist', 'album_artist', 'performer') }),
+    ...(getTag(tags, 'album') && { album: getTag(tags, 'album') }),
+    ...(Number.isFinite(duration) && duration > 0 && { durationSeconds: Math.round(duration) }),
+  };
+
+  return metadata;
+}
+
+/**
+ * Bitrate of the audio stream in bits per second (the average for VBR MP3s with a Xing header)
+ */
+function parseAudioBitRate(output: string): number | undefined {
+  try {
+    const streams = JSON.parse(output)?.streams;
+    const audio = Array.isArray(streams) ? streams.find((stream: any) => stream.codec_type === 'audio') : undefined;
+    const bitRate = parseInt(audio?.bit_rate, 10);
+    return bitRate > 0 ? bitRate : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Size of a leading ID3v2 tag including its header (0 if the file doesn't start with one)
+ */
+export function getId3TagSize(head: Buffer): number {
+  if (head.length < 10 || head.toString('latin1', 0, 3) !== 'ID3') return 0;
+  // Syncsafe integer: 7 bits per byte
+  const size = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+  const hasFooter = (head[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Whether ffprobe can be used (false once it turned out to be missing)
+ */
+export function canReadAudioMetadata(): boolean {
+  return !ffprobeMissing;
+}
+
+/**
+ * Run ffprobe on a file
+ * @returns its JSON output, or null if ffprobe is unavailable or can't read the file
+ */
+async function runFfprobe(filePath: string): Promise<string | null> {
+  if (ffprobeMissing) return null;
+
+  const result = await runProcess('ffprobe', [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format', '-show_streams',
+    '-i', filePath,
+  ], { timeout: AUDIO_PROBE_TIMEOUT });
+
+  if (result.failure === 'not_found') {
+    ffprobeMissing = true;
+    log.warn('ffprobe not found - track durations and tags will not be read');
+    return null;
+  }
+  if (!result.ok) {
+    return null;
+  }
+
+  return result.stdout;
+}
+
+/**
+ * Read tags and duration from an audio file
+ * @returns null if ffprobe is unavailable or can't read the file
+ */
+export async function readAudioMetadata(filePath: string): Promise<AudioMetadata | null> {
+  const output = await runFfprobe(filePath);
+  return output === null ? null : parseFfprobeOutput(output);
+}
+
+/**
+ * Read tags and duration from the first bytes of a larger (remote) file
+ * ffprobe's duration would only cover the bytes it was given, so it is worked out from the audio
+ * bitrate and the size of the whole file instead (formats without a bitrate, like FLAC, state
+ * their length in the header)
+ */
+export async function readAudioMetadataFromHead(headPath: string, fileSize: number): Promise<AudioMetadata | null> {
+  const output = await runFfprobe(headPath);
+  if (output === null) return null;
+
+  const metadata = parseFfprobeOutput(output);
+  const head = await readFile(headPath);
+  if (!metadata || head.length >= fileSize) return metadata;
+
+  const bitRate = parseAudioBitRate(output);
+  if (!bitRate) return metadata;
+
+  const durationSeconds = Math.round(((fileSize - getId3TagSize(head)) * 8) / bitRate);
+  return { ...metadata, durationSeconds: durationSeconds > 0 ? durationSeconds : metadata.durationSeconds };
+}
+
+/**
+ * Build the ffmpeg arguments that rewrite tags (and optionally embed a cover) without re-encoding audio
+ */
+export function buildTagWriteArgs(inputPath: string, outputPath: string, tags: AudioTags, coverPath?: string): string[] {
+  const args = ['-y', '-v', 'error', '-i', inputPath];
+  if (coverPath) {
+    args.push('-i', coverPath);
+  }
+
+  args.push('-map', '0:a');
+  if (coverPath) {
+    args.push('-map', '1:v', '-c:v', 'mjpeg', '-disposition:v', 'attached_pic');
+  }
+  args.push('-c:a', 'copy');
+
+  for (const key of ['title', 'artist', 'album'] as const) {
+    if (tags[key]) {
+      args.push('-metadata', `${key}=${tags[key]}`);
+    }
+  }
+
+  if (extname(outputPath).toLowerCase() === '.mp3') {
+    args.push('-id3v2_version', '3');
+  }
+
+  args.push(outputPath);
+  return args;
+}
+
+/**
+ * Download cover art next to the audio file
+ */
+async function downloadCover(url: string, directory: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(METADATA_LOOKUP_TIMEOUT) });
+    if (!response.ok) return null;
+    const coverPath = join(directory, `cover-${Date.now()}`);
+    await writeFile(coverPath, Buffer.from(await response.arrayBuffer()));
+    return coverPath;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write title/artist/album tags (and cover art) into an audio file in place
+ * Failures are logged and leave the original file untouched
+ */
+export async function writeAudioMetadata(filePath: string, tags: AudioTags): Promise<boolean> {
+  if (!tags.title && !tags.artist && !tags.album && !tags.coverUrl) return false;
+
+  const extension = extname(filePath);
+  const directory = dirname(filePath);
+  const coverPath = tags.coverUrl && COVER_ART_EXTENSIONS.includes(extension.toLowerCase())
+    ? await downloadCover(tags.coverUrl, directory)
+    : null;
+  const outputPath = join(directory, `tagged-${Date.now()}${extension}`);
+
+  try {
+    let result = await runProcess('ffmpeg', buildTagWriteArgs(filePath, outputPath, tags, coverPath || undefined), {
+      timeout: AUDIO_TAG_WRITE_TIMEOUT,
+    });
+
+    // A cover ffmpeg can't decode shouldn't cost us the text tags
+    if (!result.ok && coverPath && result.failure === 'exit_code') {
+      result = await runProcess('ffmpeg', buildTagWriteArgs(filePath, outputPath, tags), {
+        timeout: AUDIO_TAG_WRITE_TIMEOUT,
+      });
+    }
+
+    if (!result.ok) {
+      log.warn(`Failed to write tags to ${filePath}`, { error: result.spawnError || result.stderrTail.join(' | ') || result.failure });
+      await rm(outputPath, { force: true });
+      return false;
+    }
+
+    await rename(outputPath, filePath);
+    return true;
+  } finally {
+    if (coverPath) {
+      await rm(coverPath, { force: true }).catch(() => { });
+    }
+  }
+}
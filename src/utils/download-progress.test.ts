@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { parseDownloadProgressLine } from './download-progress';
+
+describe('download-progress', () => {
+    describe('parseDownloadProgressLine', () => {
+        it('parses percent, size, speed and ETA', () => {
+            expect(parseDownloadProgressLine('[download]  45.3% of    3.45MiB at    1.23MiB/s ETA 00:02')).toEqual({
+                stage: 'downloading',
+                percent: 45.3,
+                totalSize: '3.45MiB',
+                speed: '1.23MiB/s',
+                eta: '00:02',
+            });
+        });
+
+        it('handles estimated sizes and fragment suffixes', () => {
+            expect(parseDownloadProgressLine('[download]  10.0% of ~  5.00MiB at  512.00KiB/s ETA 00:09 (frag 1/10)')).toMatchObject({
+                percent: 10,
+                totalSize: '5.00MiB',
+                speed: '512.00KiB/s',
+                eta: '00:09',
+            });
+        });
+
+        it('drops unknown speed and ETA', () => {
+            expect(parseDownloadProgressLine('[download]   0.0% of    3.45MiB at  Unknown B/s ETA Unknown')).toEqual({
+                stage: 'downloading',
+                percent: 0,
+                totalSize: '3.45MiB',
+            });
+        });
+
+        it('parses the completion line', () => {
+            expect(parseDownloadProgressLine('[download] 100% of    3.45MiB in 00:00:02 at 1.50MiB/s')).toMatchObject({
+                stage: 'downloading',
+                percent: 100,
+            });
+        });
+
+        it('detects the transcode step', () => {
+            expect(parseDownloadProgressLine('[ExtractAudio] Destination: /tmp/song.mp3')).toEqual({ stage: 'transcoding' });
+        });
+
+        it('ignores unrelated lines', () => {
+            expect(parseDownloadProgressLine('[youtube] abc123: Downloading webpage')).toBeNull();
+            expect(parseDownloadProgressLine('[download] Destination: /tmp/song.webm')).toBeNull();
+        });
+    });
+});
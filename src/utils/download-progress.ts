@@ -0,0 +1,44 @@
+/**
+ * Parser for yt-dlp progress output (--progress --newline)
+ * Turns raw output lines into structured progress events
+ */
+
+export interface DownloadProgress {
+  percent: number;
+  totalSize?: string; // e.g. "3.45MiB"
+  speed?: string; // e.g. "1.23MiB/s"
+  eta?: string; // e.g. "00:02"
+}
+
+export type DownloadProgressEvent =
+  | ({ stage: 'downloading' } & DownloadProgress)
+  | { stage: 'transcoding' };
+
+const PROGRESS_REGEX = /^\[download\]\s+(\d+(?:\.\d+)?)%(?:\s+of\s+~?\s*(\S+))?(?:\s+at\s+(\S+\/s))?(?:\s+ETA\s+(\S+))?/;
+const TRANSCODE_REGEX = /^\[(ExtractAudio|ffmpeg)\]/;
+
+/**
+ * Parse a single output line
+ * @returns a progress event, or null for lines that carry no progress information
+ */
+export function parseDownloadProgressLine(line: string): DownloadProgressEvent | null {
+  const trimmed = line.trim();
+
+  const match = trimmed.match(PROGRESS_REGEX);
+  if (match) {
+    const [, percent, totalSize, speed, eta] = match;
+    return {
+      stage: 'downloading',
+      percent: Math.min(100, parseFloat(percent)),
+      ...(totalSize && { totalSize }),
+      ...(speed && !speed.startsWith('Unknown') && { speed }),
+      ...(eta && eta !== 'Unknown' && { eta }),
+    };
+  }
+
+  if (TRANSCODE_REGEX.test(trimmed)) {
+    return { stage: 'transcoding' };
+  }
+
+  return null;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { orderTrackFiles, getTrackTitle } from './download-song';
+
+describe('download-song', () => {
+    describe('orderTrackFiles', () => {
+        it('sorts by the tracklist position prefix', () => {
+            expect(orderTrackFiles([
+                '/tmp/album/10 - Artist - Ten.mp3',
+                '/tmp/album/2 - Artist - Two.mp3',
+                '/tmp/album/1 - Artist - One.mp3',
+            ])).toEqual([
+                '/tmp/album/1 - Artist - One.mp3',
+                '/tmp/album/2 - Artist - Two.mp3',
+                '/tmp/album/10 - Artist - Ten.mp3',
+            ]);
+        });
+
+        it('puts unnumbered files last, sorted by name', () => {
+            expect(orderTrackFiles([
+                '/tmp/b.mp3',
+                '/tmp/a.mp3',
+                '/tmp/01 - First.mp3',
+            ])).toEqual([
+                '/tmp/01 - First.mp3',
+                '/tmp/a.mp3',
+                '/tmp/b.mp3',
+            ]);
+        });
+    });
+
+    describe('getTrackTitle', () => {
+        it('strips the extension and position prefix', () => {
+            expect(getTrackTitle('03 - Artist - Song.mp3')).toBe('Artist - Song');
+            expect(getTrackTitle('Artist - Song.mp3')).toBe('Artist - Song');
+            expect(getTrackTitle('50 Cent - Song.mp3')).toBe('50 Cent - Song');
+        });
+    });
+});
@@ -1,172 +1,112 @@
 /**
- * Download service for YouTube/Spotify songs
- * Uses yt-dlp for YouTube URLs and spotify-dl for Spotify URLs
+ * Download service for community song submissions
+ * Picks a source provider from the registry (YouTube, Spotify, SoundCloud, ...)
+ * and lets it download the audio into a temp directory
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { writeFile, unlink, mkdir } from 'fs/promises';
-import { join } from 'path';
+import { mkdir } from 'fs/promises';
+import { join, basename } from 'path';
 import { tmpdir } from 'os';
-import { DEFAULT_AUDIO_QUALITY, DEFAULT_MAX_FILE_SIZE, DOWNLOAD_TIMEOUT, ERROR_MESSAGES } from '../constants';
-
-const execAsync = promisify(exec);
+import { DEFAULT_MAX_FILE_SIZE, ERROR_MESSAGES } from '../constants';
+import type { DownloadProgressEvent } from './download-progress';
+import { findSourceProvider, getInvalidUrlMessage } from './source-providers';
+import { isAudioFile } from './playlist-generator';
+import { writeAudioMetadata } from './audio-metadata';
+import { ProcessError } from '../types/errors';
+import { getFile, getFileDownloadUrl } from './telegram-bot';
+import { downloadToFile } from './sources/shared';
+import type { TelegramAudioFile } from './audio-attachment';
+import { createLogger } from './logger';
+
+const log = createLogger('download');
+
+export interface DownloadedTrack {
+  filePath: string;
+  fileName: string;
+  title?: string;
+  error?: string; // Set when this track can't be added (too large, empty, ...)
+}
 
-/**
- * Check if URL is a YouTube URL
- */
-function isYouTubeUrl(url: string): boolean {
-  return /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+/.test(url);
+export interface DownloadedSongs {
+  tempDir: string; // Caller is responsible for removing this directory
+  tracks: DownloadedTrack[]; // In tracklist order
+  truncated?: boolean; // The download stopped at maxTracks and the link has more
 }
 
+const TRACK_NUMBER_PREFIX = /^(\d+) - /;
+
 /**
- * Extract clean YouTube video URL (remove playlist parameters)
+ * Sort downloaded files into tracklist order
+ * spotify_dl (with --keep_playlist_order) prefixes each file with its position, e.g. "03 - Artist - Title.mp3"
  */
-function cleanYouTubeUrl(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    // Keep only the video ID parameter, remove list, index, start_radio, etc.
-    const videoId = urlObj.searchParams.get('v');
-    if (videoId) {
-      return `https://www.youtube.com/watch?v=${videoId}`;
-    }
-    // Handle youtu.be short URLs
-    if (urlObj.hostname.includes('youtu.be')) {
-      const videoId = urlObj.pathname.slice(1);
-      return `https://www.youtube.com/watch?v=${videoId}`;
-    }
-    return url;
-  } catch {
-    return url;
-  }
+export function orderTrackFiles(filePaths: string[]): string[] {
+  const trackNumber = (filePath: string) => {
+    const match = basename(filePath).match(TRACK_NUMBER_PREFIX);
+    return match ? parseInt(match[1], 10) : Number.MAX_SAFE_INTEGER;
+  };
+
+  return [...filePaths].sort((a, b) =>
+    trackNumber(a) - trackNumber(b) || basename(a).localeCompare(basename(b))
+  );
 }
 
 /**
- * Check if URL is a Spotify URL
+ * Track title from a downloaded tracklist file name (extension and position prefix removed)
  */
-function isSpotifyUrl(url: string): boolean {
-  return /^(https?:\/\/)?(open\.)?spotify\.com\/.+/.test(url);
+export function getTrackTitle(fileName: string): string {
+  return fileName.replace(/\.[^/.]+$/, '').replace(TRACK_NUMBER_PREFIX, '');
 }
 
-
-
 /**
- * Download song and return as buffer
- * Max file size: 50MB (configurable)
+ * Download every track behind a link into a temp directory
+ * Single-track links yield one track; Spotify albums/playlists yield the tracklist, up to maxTracks
+ * Max file size per track: 50MB (configurable)
  */
-/**
- * Download song and return as file path
- * Max file size: 50MB (configurable)
- */
-export async function downloadSongAsFile(
+export async function downloadSongsAsFiles(
   url: string,
   spotifyClientId?: string,
   spotifyClientSecret?: string,
-  maxFileSize: number = DEFAULT_MAX_FILE_SIZE
-): Promise<{ filePath: string; fileName: string; title?: string }> {
+  maxFileSize: number = DEFAULT_MAX_FILE_SIZE,
+  onProgress?: (event: DownloadProgressEvent) => void,
+  maxTracks?: number
+): Promise<DownloadedSongs> {
   const tempDir = join(tmpdir(), `song-dl-${Date.now()}`);
   await mkdir(tempDir, { recursive: true });
 
   try {
-    let command: string;
-    let env: NodeJS.ProcessEnv = { ...process.env };
-
-    // Use yt-dlp for YouTube URLs, spotify-dl for Spotify URLs
-    if (isYouTubeUrl(url)) {
-      console.log(`[${new Date().toISOString()}] Detected YouTube URL, using yt-dlp`);
-      // Clean the URL to remove playlist parameters
-      const cleanUrl = cleanYouTubeUrl(url);
-      console.log(`[${new Date().toISOString()}] Cleaned URL: ${cleanUrl} (original had playlist params)`);
-      // Use yt-dlp for YouTube - extract audio as MP3, optimized for web streaming
-      // --no-playlist ensures we only download the single video, not the entire playlist
-      // --audio-quality 5 = ~128kbps (good for web streaming, smaller file size)
-      const audioQuality = process.env.AUDIO_QUALITY || DEFAULT_AUDIO_QUALITY;
-      console.log(`[${new Date().toISOString()}] Using audio quality: ${audioQuality} (~128kbps for web streaming)`);
-      command = `yt-dlp --no-playlist --verbose -x --audio-format mp3 --audio-quality ${audioQuality} --progress --newline -o "${tempDir}/%(title)s.%(ext)s" "${cleanUrl}"`;
-    } else if (isSpotifyUrl(url)) {
-      console.log(`[${new Date().toISOString()}] Detected Spotify URL, using spotify-dl`);
-      // Set up environment variables for spotify-dl
-      env = { // Assign to the existing 'env' variable
-        ...env, // Spread existing env (which already contains process.env)
-        ...(spotifyClientId && { SPOTIPY_CLIENT_ID: spotifyClientId }),
-        ...(spotifyClientSecret && { SPOTIPY_CLIENT_SECRET: spotifyClientSecret }),
-      };
-      command = `spotify_dl -l "${url}" -o "${tempDir}"`;
-    } else {
-      throw new Error('Unsupported URL type. Please provide a YouTube or Spotify link.');
+    const provider = findSourceProvider(url);
+    if (!provider) {
+      throw new Error(getInvalidUrlMessage());
     }
 
-    console.log(`[${new Date().toISOString()}] Executing command: ${command}`);
-    console.log(`[${new Date().toISOString()}] Temp directory: ${tempDir}`);
-
-    // Execute download command with timeout (5 minutes)
-    console.log(`[${new Date().toISOString()}] Starting download execution (timeout: 5 minutes)...`);
+    log.info(`Detected ${provider.name} URL`);
+    const normalizedUrl = provider.normalize(url);
 
-    // Use a promise wrapper to stream output in real-time
-    let stdout = '';
-    let stderr = '';
+    // Look up title/artist/cover while downloading; used to tag single-track downloads
+    const metadataLookup = provider.lookupMetadata(normalizedUrl).catch(() => null);
 
-    const childProcess = exec(command, {
-      env,
-      maxBuffer: 50 * 1024 * 1024, // 50MB buffer (increased for verbose output)
+    const outcome = await provider.download(normalizedUrl, {
+      tempDir,
+      maxFileSize,
+      env: { ...process.env },
+      spotifyClientId,
+      spotifyClientSecret,
+      maxTracks,
+      onProgress,
     });
 
-    // Stream stdout and stderr in real-time
-    childProcess.stdout?.on('data', (data) => {
-      const output = data.toString();
-      stdout += output;
-      // Log each line
-      output.split('\n').forEach((line: string) => {
-        if (line.trim()) {
-          console.log(`[${new Date().toISOString()}] [stdout] ${line.trim()}`);
-        }
-      });
-    });
+    log.info('Download completed');
 
-    childProcess.stderr?.on('data', (data) => {
-      const output = data.toString();
-      stderr += output;
-      // yt-dlp sends progress to stderr
-      output.split('\n').forEach((line: string) => {
-        if (line.trim()) {
-          console.log(`[${new Date().toISOString()}] [stderr] ${line.trim()}`);
-        }
-      });
-    });
-
-    // Wait for completion with timeout
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        childProcess.kill();
-        reject(new Error(ERROR_MESSAGES.DOWNLOAD_TIMEOUT));
-      }, DOWNLOAD_TIMEOUT);
-
-      childProcess.on('close', (code) => {
-        clearTimeout(timeout);
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Command failed with exit code ${code}`));
-        }
-      });
-
-      childProcess.on('error', (error) => {
-        clearTimeout(timeout);
-        reject(error);
-      });
-    });
-
-    console.log(`[${new Date().toISOString()}] Download completed`);
-
-    // Find the downloaded MP3 file (recursively search subdirectories)
-    console.log(`[${new Date().toISOString()}] Looking for downloaded MP3 file in: ${tempDir}`);
+    // Find the downloaded audio files (recursively search subdirectories)
+    log.info(`Looking for downloaded audio files in: ${tempDir}`);
     const fs = await import('fs/promises');
     const path = await import('path');
 
     /**
-     * Recursively search for MP3 files in directory and subdirectories
+     * Recursively collect audio files in directory and subdirectories
      */
-    async function findMp3File(dir: string, depth: number = 0): Promise<string | null> {
+    async function findAudioFiles(dir: string, depth: number = 0): Promise<string[]> {
+      const found: string[] = [];
       try {
         const entries = await fs.readdir(dir, { withFileTypes: true });
 
@@ -176,25 +116,23 @@ export async function downloadSongAsFile(
           try {
             if (entry.isDirectory()) {
               // Recursively search subdirectories
-              const found = await findMp3File(fullPath, depth + 1);
-              if (found) return found;
-            } else if (entry.isFile() && entry.name.endsWith('.mp3')) {
-              // Found MP3 file
-              return fullPath;
+              found.push(...await findAudioFiles(fullPath, depth + 1));
+            } else if (entry.isFile() && isAudioFile(entry.name)) {
+              found.push(fullPath);
             }
           } catch (err: any) {
-            console.warn(`[${new Date().toISOString()}] Error processing entry ${entry.name}:`, err.message);
+            log.warn(`Error processing entry ${entry.name}`, { error: err.message });
           }
         }
       } catch (err: any) {
-        console.warn(`[${new Date().toISOString()}] Error reading directory ${dir}:`, err.message);
+        log.warn(`Error reading directory ${dir}`, { error: err.message });
       }
 
-      return null;
+      return found;
     }
 
     // Give a delay to ensure file system is synced and conversion is complete
-    let mp3FilePath: string | null = null;
+    let audioFilePaths: string[] = [];
     const maxRetries = 10;
     const retryDelay = 1000; // 1 second
 
@@ -205,40 +143,67 @@ export async function downloadSongAsFile(
         await new Promise(resolve => setTimeout(resolve, 500));
       }
 
-      mp3FilePath = await findMp3File(tempDir);
-      if (mp3FilePath) {
+      audioFilePaths = await findAudioFiles(tempDir);
+      if (audioFilePaths.length > 0) {
         break;
       }
     }
 
-    if (!mp3FilePath) {
-      throw new Error('No MP3 file found after download. Please check the URL is valid.');
+    if (audioFilePaths.length === 0) {
+      throw new Error('No audio file found after download. Please check the URL is valid.');
     }
 
-    console.log(`[${new Date().toISOString()}] Found MP3 file: ${mp3FilePath}`);
+    log.info(`Found ${audioFilePaths.length} audio file(s)`);
+
+    // A download stopped at the track limit can leave the next track half-written
+    const truncated = outcome?.truncated ?? false;
+    const orderedFiles = orderTrackFiles(audioFilePaths).slice(0, maxTracks);
+
+    // Check each file's size; a bad track only fails itself
+    // Only multi-track downloads carry position prefixes - a single title like "1999 - Artist" stays intact
+    const isTracklist = audioFilePaths.length > 1 || truncated;
+    const tracks: DownloadedTrack[] = [];
+    for (const filePath of orderedFiles) {
+      const fileName = path.basename(filePath);
+      const title = isTracklist ? getTrackTitle(fileName) : fileName.replace(/\.[^/.]+$/, '');
+      const stats = await fs.stat(filePath);
+
+      let error: string | undefined;
+      if (stats.size > maxFileSize) {
+        error = `File too large (${Math.round(stats.size / 1024 / 1024)}MB). Maximum size is ${Math.round(maxFileSize / 1024 / 1024)}MB.`;
+      } else if (stats.size === 0) {
+        error = 'Downloaded file is empty. Please try again.';
+      }
 
-    const filePath = mp3FilePath;
-    const fileName = path.basename(mp3FilePath);
+      tracks.push({
+        filePath,
+        fileName: sanitizeFileName(title + path.extname(fileName)),
+        title,
+        ...(error && { error }),
+      });
+    }
 
-    // Check file size
-    const stats = await fs.stat(filePath);
-    if (stats.size > maxFileSize) {
-      await fs.unlink(filePath).catch(() => { });
-      throw new Error(`File too large (${Math.round(stats.size / 1024 / 1024)}MB). Maximum size is ${Math.round(maxFileSize / 1024 / 1024)}MB.`);
+    if (tracks.every(track => track.error)) {
+      throw new Error(tracks[0].error);
     }
 
-    if (stats.size === 0) {
-      await fs.unlink(filePath).catch(() => { });
-      throw new Error('Downloaded file is empty. Please try again.');
+    // Album/playlist tracks come tagged by spotify_dl; the source metadata describes the whole release
+    if (!isTracklist) {
+      const metadata = await metadataLookup;
+      if (metadata) {
+        const tagged = await writeAudioMetadata(tracks[0].filePath, {
+          title: metadata.title,
+          artist: metadata.artist,
+          album: metadata.album,
+          coverUrl: metadata.thumbnailUrl,
+        });
+        if (tagged) {
+          log.info(`Wrote metadata tags to ${tracks[0].fileName}`);
+        }
+      }
     }
 
-    // Return file path instead of buffer
-    // Note: Caller is responsible for cleaning up the file and tempDir
-    return {
-      filePath,
-      fileName: sanitizeFileName(fileName),
-      title: fileName.replace('.mp3', ''),
-    };
+    return { tempDir, tracks, ...(truncated && { truncated }) };
   } catch (error: any) {
     // Clean up on error
     try {
@@ -246,6 +211,11 @@ export async function downloadSongAsFile(
       await fs.rm(tempDir, { recursive: true, force: true }).catch(() => { });
     } catch { }
 
+    // Process failures carry structured output - ErrorHandler turns them into user messages
+    if (error instanceof ProcessError) {
+      throw error;
+    }
+
     // Provide user-friendly error messages
     const errorMessage = error.message || String(error);
 
@@ -258,7 +228,7 @@ export async function downloadSongAsFile(
     if (errorMessage.includes('ENOENT') || errorMessage.includes('command not found')) {
       throw new Error(ERROR_MESSAGES.SERVICE_UNAVAILABLE);
     }
-    if (errorMessage.includes('No MP3 file found') || errorMessage.includes('Download failed')) {
+    if (errorMessage.includes('No audio file found') || errorMessage.includes('Download failed')) {
       throw new Error(ERROR_MESSAGES.DOWNLOAD_FAILED);
     }
 
@@ -267,10 +237,66 @@ export async function downloadSongAsFile(
   }
 }
 
+/**
+ * Download an audio file sent to the bot via the Bot API getFile flow
+ */
+export async function downloadTelegramFile(
+  botToken: string,
+  file: TelegramAudioFile,
+  maxFileSize: number = DEFAULT_MAX_FILE_SIZE,
+  onProgress?: (event: DownloadProgressEvent) => void
+): Promise<DownloadedSongs> {
+  const tempDir = join(tmpdir(), `song-dl-${Date.now()}`);
+  await mkdir(tempDir, { recursive: true });
+
+  try {
+    if (file.fileSize && file.fileSize > maxFileSize) {
+      throw new Error(`File too large (${Math.round(file.fileSize / 1024 / 1024)}MB). Maximum size is ${Math.round(maxFileSize / 1024 / 1024)}MB.`);
+    }
+
+    const info = await getFile(botToken, file.fileId);
+    if (!info.file_path) {
+      throw new Error('Download failed: Telegram did not return a file path');
+    }
+
+    const fileName = sanitizeFileName(file.fileName);
+    const filePath = join(tempDir, fileName);
+    log.info(`Downloading Telegram file: ${file.fileName}`);
+    await downloadToFile(getFileDownloadUrl(botToken, info.file_path), filePath, maxFileSize, onProgress);
+
+    const fs = await import('fs/promises');
+    const stats = await fs.stat(filePath);
+    if (stats.size === 0) {
+      throw new Error('Downloaded file is empty. Please try again.');
+    }
+
+    return {
+      tempDir,
+      tracks: [{
+        filePath,
+        fileName,
+        title: file.title || file.fileName.replace(/\.[^/.]+$/, ''),
+      }],
+    };
+  } catch (error: any) {
+    const fs = await import('fs/promises');
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => { });
+
+    const errorMessage = error.message || String(error);
+    if (errorMessage.includes('file is too big')) {
+      throw new Error(`File too large. Maximum size is ${Math.round(maxFileSize / 1024 / 1024)}MB.`);
+    }
+    if (errorMessage.includes('fetch failed') || errorMessage.includes('ECONNRESET') || errorMessage.includes('ETIMEDOUT')) {
+      throw new Error(ERROR_MESSAGES.NETWORK_ERROR);
+    }
+    throw error;
+  }
+}
+
 /**
  * Sanitize filename to remove special characters
  */
-function sanitizeFileName(fileName: string): string {
+export function sanitizeFileName(fileName: string): string {
   return fileName
     .replace(/[^a-zA-Z0-9._-]/g, '_')
     .replace(/_{2,}/g, '_')
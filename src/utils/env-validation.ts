@@ -35,6 +35,7 @@ const envSchema = z.object({
   // Bot Configuration
   TELEGRAM_BOT_TOKEN: z.string().min(1, "Bot token is required"),
   TELEGRAM_ADMIN_IDS: z.string().optional(),
+  TELEGRAM_WEBHOOK_SECRET: z.string().optional(),
 
   // FTP Configuration
   DREAMHOST_FTP_USER: z.string().min(1, "FTP user is required"),
@@ -52,6 +53,15 @@ const envSchema = z.object({
   SPOTIPY_CLIENT_ID: z.string().optional(),
   SPOTIPY_CLIENT_SECRET: z.string().optional(),
 
+  // Bot Runtime
+  BOT_DATA_DIR: z.string().optional(),
+  BOT_SESSION_STORE: z.enum(['file', 'memory']).optional(),
+  SONG_QUEUE_WORKERS: z.string().regex(/^\d+$/, "Must be a number").optional(),
+  SONG_QUEUE_MAX_PER_USER: z.string().regex(/^\d+$/, "Must be a number").optional(),
+  MAX_TRACKS_PER_SUBMISSION: z.string().regex(/^\d+$/, "Must be a number").optional(),
+  MODERATION_ENABLED: z.enum(['true', 'false']).optional(),
+  TRASH_RETENTION_DAYS: z.string().regex(/^\d+$/, "Must be a number").optional(),
+
   // Other
   PLAYLIST_UPDATE_TOKEN: z.string().optional(),
   PLAYLIST_CACHE_TTL: z.string().regex(/^\d+$/, "Must be a number").optional(),
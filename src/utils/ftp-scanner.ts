@@ -17,10 +17,13 @@ export interface FTPConfig {
 }
 
 export interface PlaylistTrack {
+  id: string;
   trackNumber: number;
   trackName: string;
   fileName: string;
   duration: string;
+  artist?: string;
+  album?: string;
   playlistName: string;
   playlistIndex: number;
   playlistTotal: number;
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { configureLogger, createLogger, redact, runWithCorrelationId, RotatingFileSink } from './logger';
+
+describe('logger', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllEnvs();
+        configureLogger();
+        if (dir) rmSync(dir, { recursive: true, force: true });
+        dir = undefined;
+    });
+
+    describe('redact', () => {
+        it('masks bot tokens, secret fields and secret env values', () => {
+            vi.stubEnv('DREAMHOST_FTP_PASSWORD', 'hunter2hunter2');
+            const record = redact({
+                url: 'https://api.telegram.org/bot123456789:AAbbCCddEEffGGhhIIjjKKllMMnnOOppQQ/getMe',
+                botToken: 'anything',
+                nested: { message: 'login failed for hunter2hunter2' },
+                count: 3,
+            });
+
+            expect(record).toEqual({
+                url: 'https://api.telegram.org/bot[REDACTED]/getMe',
+                botToken: '[REDACTED]',
+                nested: { message: 'login failed for [REDACTED]' },
+                count: 3,
+            });
+        });
+
+        it('turns errors into plain fields', () => {
+            expect(redact(new Error('boom'))).toMatchObject({ name: 'Error', message: 'boom' });
+        });
+    });
+
+    it('writes JSON lines with the level, component and correlation ID', () => {
+        configureLogger({ format: 'json', level: 'info' });
+        const output = vi.spyOn(console, 'log').mockImplementation(() => { });
+        const log = createLogger('test');
+
+        log.debug('hidden');
+        runWithCorrelationId('job-1', () => log.info('uploaded', { fileName: 'a.mp3' }));
+
+        expect(output).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(output.mock.calls[0][0])).toMatchObject({
+            level: 'info',
+            component: 'test',
+            msg: 'uploaded',
+            correlationId: 'job-1',
+            fileName: 'a.mp3',
+        });
+    });
+
+    it('keeps the correlation ID across awaits', async () => {
+        configureLogger({ format: 'json' });
+        const output = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const log = createLogger('test');
+
+        await runWithCorrelationId('update-7', async () => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            log.warn('later');
+        });
+
+        expect(JSON.parse(output.mock.calls[0][0]).correlationId).toBe('update-7');
+    });
+
+    it('rotates the log file once it is full', () => {
+        dir = mkdtempSync(join(tmpdir(), 'logger-'));
+        const filePath = join(dir, 'bot.log');
+        const sink = new RotatingFileSink(filePath, 10, 2);
+
+        for (const line of ['aaaaaa\n', 'bbbbbb\n', 'cccccc\n', 'dddddd\n']) {
+            sink.write(line);
+        }
+
+        expect(readdirSync(dir).sort()).toEqual(['bot.log', 'bot.log.1', 'bot.log.2']);
+        expect(readFileSync(filePath, 'utf-8')).toBe('dddddd\n');
+        expect(readFileSync(`${filePath}.2`, 'utf-8')).toBe('bbbbbb\n');
+    });
+
+    it('falls back to the console when the log file can\'t be opened', () => {
+        dir = mkdtempSync(join(tmpdir(), 'logger-'));
+        const blocker = join(dir, 'not-a-dir');
+        writeFileSync(blocker, '');
+        const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const output = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        configureLogger({ filePath: join(blocker, 'bot.log') });
+        expect(() => createLogger('bot').info('still logged')).not.toThrow();
+
+        expect(errors).toHaveBeenCalledTimes(1);
+        expect(errors.mock.calls[0][0]).toContain('logging to the console only');
+        expect(output.mock.calls[0][0]).toContain('still logged');
+    });
+});
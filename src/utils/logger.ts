@@ -0,0 +1,240 @@
+/**
+ * Shared structured logger
+ * Leveled records with a component name and fields, written to the console (readable lines, or JSON
+ * lines with LOG_FORMAT=json) and optionally to a rotating JSON-lines file (LOG_FILE). Records carry
+ * the correlation ID of the work they belong to, and secrets are redacted before anything is written
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync, mkdirSync, renameSync, statSync } from 'fs';
+import { dirname } from 'path';
+import { LOG_FILE_MAX_BYTES, LOG_FILE_MAX_FILES } from '../constants';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord extends LogFields {
+  time: string;
+  level: LogLevel;
+  component: string;
+  msg: string;
+  correlationId?: string;
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: 'pretty' | 'json';
+  filePath?: string;
+  maxFileBytes: number;
+  maxFiles: number; // Rotated files kept next to the current one (app.log.1 ... app.log.N)
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values are never logged
+ */
+const SECRET_FIELD_PATTERN = /token|password|secret|authorization|api[_-]?key/i;
+
+/**
+ * Telegram bot tokens ("123456789:AA...") wherever they appear, e.g. in API URLs
+ */
+const BOT_TOKEN_PATTERN = /\d{6,12}:[A-Za-z0-9_-]{30,}/g;
+
+/**
+ * Environment variables whose values are redacted from every string
+ */
+const SECRET_ENV_VARS = [
+  'TELEGRAM_BOT_TOKEN',
+  'TELEGRAM_WEBHOOK_SECRET',
+  'DREAMHOST_FTP_PASSWORD',
+  'SPOTIPY_CLIENT_SECRET',
+  'PLAYLIST_UPDATE_TOKEN',
+];
+
+const MAX_REDACT_DEPTH = 6;
+
+const correlationStorage = new AsyncLocalStorage<string>();
+
+let options: LoggerOptions | null = null;
+let fileSink: RotatingFileSink | null = null;
+
+function isLogLevel(value: string | undefined): value is LogLevel {
+  return value !== undefined && value in LEVELS;
+}
+
+function getDefaultOptions(): LoggerOptions {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return {
+    level: isLogLevel(level) ? level : 'info',
+    format: process.env.LOG_FORMAT === 'json' ? 'json' : 'pretty',
+    filePath: process.env.LOG_FILE || undefined,
+    maxFileBytes: parseInt(process.env.LOG_FILE_MAX_BYTES || '', 10) || LOG_FILE_MAX_BYTES,
+    maxFiles: parseInt(process.env.LOG_FILE_MAX_FILES || '', 10) || LOG_FILE_MAX_FILES,
+  };
+}
+
+function getOptions(): LoggerOptions {
+  if (!options) {
+    configureLogger();
+  }
+  return options!;
+}
+
+/**
+ * Override the environment settings (all of them are re-read when called without changes)
+ * A log file that can't be opened is reported once and logging continues on the console only
+ */
+export function configureLogger(changes: Partial<LoggerOptions> = {}): void {
+  options = { ...getDefaultOptions(), ...changes };
+  fileSink = null;
+  if (options.filePath) {
+    try {
+      fileSink = new RotatingFileSink(options.filePath, options.maxFileBytes, options.maxFiles);
+    } catch (error: any) {
+      console.error(`[logger] Can't write ${options.filePath} (${error.message}), logging to the console only`);
+    }
+  }
+}
+
+/**
+ * Run work under a correlation ID; every record logged inside it (including from awaited and
+ * queued async work) carries the ID
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlationStorage.run(correlationId, fn);
+}
+
+export function getCorrelationId(): string | undefined {
+  return correlationStorage.getStore();
+}
+
+/**
+ * Appends lines to a file, rotating it once it would grow past maxBytes
+ */
+export class RotatingFileSink {
+  private filePath: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private size: number;
+
+  constructor(filePath: string, maxBytes: number, maxFiles: number) {
+    this.filePath = filePath;
+    this.maxBytes = maxBytes;
+    this.maxFiles = Math.max(1, maxFiles);
+    mkdirSync(dirname(filePath), { recursive: true });
+    try {
+      this.size = statSync(filePath).size;
+    } catch {
+      this.size = 0;
+    }
+  }
+
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    appendFileSync(this.filePath, line);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      try {
+        renameSync(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`);
+      } catch {
+        // That generation doesn't exist yet
+      }
+    }
+    renameSync(this.filePath, `${this.filePath}.1`);
+    this.size = 0;
+  }
+}
+
+function redactString(value: string): string {
+  let redacted = value.replace(BOT_TOKEN_PATTERN, REDACTED);
+  for (const name of SECRET_ENV_VARS) {
+    const secret = process.env[name];
+    if (secret && secret.length >= 6) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Copy of a value with secrets masked: fields named like secrets, bot tokens and secret env values
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value instanceof Error) {
+    return redact({ name: value.name, message: value.message, stack: value.stack }, depth);
+  }
+  if (value === null || typeof value !== 'object' || depth >= MAX_REDACT_DEPTH) return value;
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SECRET_FIELD_PATTERN.test(key) && field !== undefined && field !== null ? REDACTED : redact(field, depth + 1),
+    ])
+  );
+}
+
+function formatPretty(record: LogRecord): string {
+  const { time, level, component, msg, correlationId, ...fields } = record;
+  const correlation = correlationId ? ` [${correlationId}]` : '';
+  const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+  return `[${time}] ${level.toUpperCase().padEnd(5)} ${component}${correlation}: ${msg}${extra}`;
+}
+
+function write(component: string, level: LogLevel, msg: string, fields: LogFields = {}): void {
+  const { level: minLevel, format } = getOptions();
+  if (LEVELS[level] < LEVELS[minLevel]) return;
+
+  const correlationId = getCorrelationId();
+  const record = redact({
+    time: new Date().toISOString(),
+    level,
+    component,
+    msg,
+    ...(correlationId && { correlationId }),
+    ...fields,
+  }) as LogRecord;
+
+  const line = format === 'json' ? JSON.stringify(record) : formatPretty(record);
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+
+  if (fileSink) {
+    try {
+      fileSink.write(`${JSON.stringify(record)}\n`);
+    } catch (error: any) {
+      console.error(`[logger] Failed to write ${getOptions().filePath}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Logger for one part of the app (the component name is on every record)
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (msg, fields) => write(component, 'debug', msg, fields),
+    info: (msg, fields) => write(component, 'info', msg, fields),
+    warn: (msg, fields) => write(component, 'warn', msg, fields),
+    error: (msg, fields) => write(component, 'error', msg, fields),
+  };
+}
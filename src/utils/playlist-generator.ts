@@ -4,7 +4,10 @@
  */
 
 import type { Playlist, PlaylistTrack, ScanResult } from './ftp-scanner';
-import { SUPPORTED_AUDIO_FORMATS, SUPPORTED_AUDIO_EXTENSIONS, MUSIC_DIR, DEFAULT_PLAYLIST } from '../constants';
+import type { AudioMetadata } from './audio-metadata';
+import { formatTime, getTrackId } from './tracks';
+import { parsePlaylistManifest, orderPlaylistNames } from './playlist-manifest';
+import { SUPPORTED_AUDIO_FORMATS, SUPPORTED_AUDIO_EXTENSIONS, MUSIC_DIR, DEFAULT_PLAYLIST, PLAYLIST_MANIFEST_FILE } from '../constants';
 
 /**
  * Strategy interface for scanning music files
@@ -24,68 +27,119 @@ export interface ScanStrategy {
    * Check if a path exists
    */
   pathExists(path: string): Promise<boolean>;
+
+  /**
+   * Read tags and duration of an audio file (optional - tracks default to '0:00' without artist/album)
+   */
+  readMetadata?(filePath: string): Promise<AudioMetadata | null>;
+
+  /**
+   * Read a small text file, or null if it doesn't exist (optional - used for the playlist manifest)
+   */
+  readTextFile?(filePath: string): Promise<string | null>;
+
+  /**
+   * Scan playlists one at a time instead of in parallel (for strategies whose calls share a
+   * connection that runs one command at a time)
+   */
+  readonly sequential?: boolean;
+}
+
+/**
+ * A track as seen during scanning (used to build the duplicate-detection index)
+ */
+export interface ScannedTrack {
+  playlist: string;
+  filePath: string; // Full path as passed to the strategy
+  fileName: string; // Path relative to the playlist directory
+  title: string;
+  durationSeconds?: number;
+}
+
+export interface GeneratePlaylistsOptions {
+  onTrackScanned?: (track: ScannedTrack) => void;
 }
 
 /**
  * Build playlist structure from directory and file data
  */
-function buildPlaylistStructure(
+async function buildPlaylistStructure(
   directories: string[],
   getAudioFiles: (dir: string) => Promise<string[]>,
   getFileName: (filePath: string) => string,
-  getRelativePath: (dir: string, fileName: string) => string
+  getRelativePath: (dir: string, fileName: string) => string,
+  readMetadata?: (dir: string, filePath: string) => Promise<AudioMetadata | null>,
+  onTrackScanned?: (dir: string, filePath: string, trackName: string, metadata: AudioMetadata | null) => void,
+  sequential: boolean = false
 ): Promise<Playlist[]> {
-  const playlists: Playlist[] = [];
+  const buildPlaylist = async (dirName: string, index: number): Promise<Playlist> => {
+    // Empty playlists are kept so newly created ones show up in the bot (the player has no tracks to show for them)
+    const audioFiles = await getAudioFiles(dirName);
 
-  return Promise.all(
-    directories.map(async (dirName, index) => {
-      const audioFiles = await getAudioFiles(dirName);
-      
-      if (audioFiles.length === 0) {
-        return null;
-      }
-
-      const tracks: PlaylistTrack[] = audioFiles.map((filePath, trackIndex) => {
-        const fileName = getFileName(filePath);
-        const trackName = fileName.replace(/\.[^/.]+$/, '');
-        const relativePath = getRelativePath(dirName, fileName);
-        
-        return {
-          trackNumber: trackIndex + 1,
-          trackName: trackName,
-          fileName: `${MUSIC_DIR}/${relativePath}`,
-          duration: '0:00',
-          playlistName: dirName,
-          playlistIndex: index + 1,
-          playlistTotal: directories.length,
-          playlistPath: `${MUSIC_DIR}/${dirName}`,
-        };
+    // Read metadata one file at a time to avoid spawning a probe per track at once
+    const tracks: PlaylistTrack[] = [];
+    for (const [trackIndex, filePath] of audioFiles.entries()) {
+      const fileName = getFileName(filePath);
+      const trackName = fileName.replace(/\.[^/.]+$/, '');
+      const relativePath = getRelativePath(dirName, fileName);
+      const metadata = readMetadata ? await readMetadata(dirName, filePath) : null;
+      onTrackScanned?.(dirName, filePath, trackName, metadata);
+
+      tracks.push({
+        id: getTrackId(dirName, fileName),
+        trackNumber: trackIndex + 1,
+        trackName: trackName,
+        fileName: `${MUSIC_DIR}/${relativePath}`,
+        duration: metadata?.durationSeconds ? formatTime(metadata.durationSeconds) : '0:00',
+        ...(metadata?.artist && { artist: metadata.artist }),
+        ...(metadata?.album && { album: metadata.album }),
+        playlistName: dirName,
+        playlistIndex: index + 1,
+        playlistTotal: directories.length,
+        playlistPath: `${MUSIC_DIR}/${dirName}`,
       });
+    }
+
+    return {
+      name: dirName,
+      path: `${MUSIC_DIR}/${dirName}`,
+      index: index + 1,
+      total: directories.length,
+      tracks: tracks,
+    };
+  };
+
+  if (!sequential) {
+    return Promise.all(directories.map(buildPlaylist));
+  }
 
-      return {
-        name: dirName,
-        path: `${MUSIC_DIR}/${dirName}`,
-        index: index + 1,
-        total: directories.length,
-        tracks: tracks,
-      };
-    })
-  ).then(results => results.filter((p): p is Playlist => p !== null));
+  const playlists: Playlist[] = [];
+  for (const [index, dirName] of directories.entries()) {
+    playlists.push(await buildPlaylist(dirName, index));
+  }
+  return playlists;
 }
 
 /**
  * Generate playlists using a scan strategy
  */
-export async function generatePlaylists(strategy: ScanStrategy, basePath: string): Promise<ScanResult> {
+export async function generatePlaylists(
+  strategy: ScanStrategy,
+  basePath: string,
+  options: GeneratePlaylistsOptions = {}
+): Promise<ScanResult> {
   // Check if base path exists
   const exists = await strategy.pathExists(basePath);
   if (!exists) {
     return { playlists: [] };
   }
 
-  // Get all directories (playlists)
-  const directories = await strategy.listDirectories(basePath);
-  
+  // Get all directories (playlists), in manifest order
+  const manifest = strategy.readTextFile
+    ? parsePlaylistManifest(await strategy.readTextFile(`${basePath}/${PLAYLIST_MANIFEST_FILE}`))
+    : null;
+  const directories = orderPlaylistNames(await strategy.listDirectories(basePath), manifest);
+
   if (directories.length === 0) {
     return { playlists: [] };
   }
@@ -104,7 +158,20 @@ export async function generatePlaylists(strategy: ScanStrategy, basePath: string
     },
     (dirName, fileName) => {
       return `${dirName}/${fileName}`;
-    }
+    },
+    strategy.readMetadata
+      ? (dirName, filePath) => strategy.readMetadata!(`${basePath}/${dirName}/${filePath}`)
+      : undefined,
+    options.onTrackScanned
+      ? (dirName, filePath, trackName, metadata) => options.onTrackScanned!({
+        playlist: dirName,
+        filePath: `${basePath}/${dirName}/${filePath}`,
+        fileName: filePath,
+        title: trackName,
+        ...(metadata?.durationSeconds && { durationSeconds: metadata.durationSeconds }),
+      })
+      : undefined,
+    strategy.sequential
   );
 
   return { playlists };
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parsePlaylistManifest,
+    orderPlaylistNames,
+    syncPlaylistManifest,
+    movePlaylistInManifest,
+    renamePlaylistInManifest,
+    removePlaylistFromManifest,
+} from './playlist-manifest';
+
+describe('playlist manifest', () => {
+    describe('parsePlaylistManifest', () => {
+        it('reads the playlist order', () => {
+            expect(parsePlaylistManifest('{"order":["Rock","community",3]}')).toEqual({ order: ['Rock', 'community'] });
+        });
+
+        it('returns null for missing or broken manifests', () => {
+            expect(parsePlaylistManifest(null)).toBeNull();
+            expect(parsePlaylistManifest('not json')).toBeNull();
+            expect(parsePlaylistManifest('{"order":"Rock"}')).toBeNull();
+        });
+    });
+
+    describe('orderPlaylistNames', () => {
+        it('follows the manifest and appends unknown playlists in their listed order', () => {
+            const manifest = { order: ['Rock', 'community'] };
+            expect(orderPlaylistNames(['community', 'Jazz', 'Rock', 'Blues'], manifest)).toEqual(['Rock', 'community', 'Jazz', 'Blues']);
+        });
+
+        it('puts NEUKO first without a manifest', () => {
+            expect(orderPlaylistNames(['community', 'NEUKO', 'Rock'], null)).toEqual(['NEUKO', 'community', 'Rock']);
+        });
+    });
+
+    it('syncs the manifest to the folders that exist', () => {
+        expect(syncPlaylistManifest(['Jazz', 'Rock'], { order: ['Gone', 'Rock'] })).toEqual({ order: ['Rock', 'Jazz'] });
+    });
+
+    it('moves playlists within bounds', () => {
+        const manifest = { order: ['a', 'b', 'c'] };
+        expect(movePlaylistInManifest(manifest, 'c', -1).order).toEqual(['a', 'c', 'b']);
+        expect(movePlaylistInManifest(manifest, 'a', -1).order).toEqual(['a', 'b', 'c']);
+        expect(movePlaylistInManifest(manifest, 'a', 5).order).toEqual(['b', 'c', 'a']);
+        expect(movePlaylistInManifest(manifest, 'missing', 1)).toBe(manifest);
+    });
+
+    it('renames and removes playlists in place', () => {
+        const manifest = { order: ['a', 'b', 'c'] };
+        expect(renamePlaylistInManifest(manifest, 'b', 'x').order).toEqual(['a', 'x', 'c']);
+        expect(removePlaylistFromManifest(manifest, 'b').order).toEqual(['a', 'c']);
+    });
+});
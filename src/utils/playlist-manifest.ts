@@ -0,0 +1,68 @@
+/**
+ * Playlist manifest
+ * A hidden JSON file next to the playlist folders that holds the display order, so the player
+ * doesn't depend on the order the server happens to list directories in
+ */
+
+import { NEUKO_PLAYLIST } from '../constants';
+
+export interface PlaylistManifest {
+  order: string[]; // Playlist folder names, first shown first
+}
+
+/**
+ * Parse the manifest file contents
+ * @returns null for a missing or unreadable manifest
+ */
+export function parsePlaylistManifest(text: string | null | undefined): PlaylistManifest | null {
+  if (!text) return null;
+  try {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data?.order)) return null;
+    return { order: data.order.filter((name: unknown): name is string => typeof name === 'string') };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sort playlist names by the manifest; playlists missing from it keep their relative order at the end
+ * Without a manifest the NEUKO playlist comes first (the player starts there)
+ */
+export function orderPlaylistNames(names: string[], manifest: PlaylistManifest | null): string[] {
+  const order = manifest?.order ?? [NEUKO_PLAYLIST];
+  const rank = (name: string) => {
+    const position = order.indexOf(name);
+    return position === -1 ? order.length : position;
+  };
+  return [...names].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Manifest listing exactly the given playlists in their current display order
+ */
+export function syncPlaylistManifest(names: string[], manifest: PlaylistManifest | null): PlaylistManifest {
+  return { order: orderPlaylistNames(names, manifest) };
+}
+
+/**
+ * Move a playlist up (negative offset) or down in the order
+ */
+export function movePlaylistInManifest(manifest: PlaylistManifest, name: string, offset: number): PlaylistManifest {
+  const order = [...manifest.order];
+  const from = order.indexOf(name);
+  if (from === -1) return manifest;
+
+  const to = Math.max(0, Math.min(order.length - 1, from + offset));
+  order.splice(from, 1);
+  order.splice(to, 0, name);
+  return { order };
+}
+
+export function renamePlaylistInManifest(manifest: PlaylistManifest, from: string, to: string): PlaylistManifest {
+  return { order: manifest.order.map(name => name === from ? to : name) };
+}
+
+export function removePlaylistFromManifest(manifest: PlaylistManifest, name: string): PlaylistManifest {
+  return { order: manifest.order.filter(other => other !== name) };
+}
@@ -1,4 +1,5 @@
 import type { Track, Playlist } from '../types/track';
+import { getTrackId } from './tracks';
 
 export function createTracksFromFiles(
   files: string[],
@@ -14,6 +15,7 @@ export function createTracksFromFiles(
       const trackName = fileName.replace(/\.[^/.]+$/, '');
       
       return {
+        id: getTrackId(playlistName, fileName),
         trackNumber: index + 1,
         trackName: trackName,
         fileName: file.startsWith('/') ? file : `/${playlistPath}/${file}`,
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { runProcess } from './process-runner';
+
+const node = process.execPath;
+
+describe('process-runner', () => {
+    describe('runProcess', () => {
+        it('passes arguments verbatim without a shell', async () => {
+            const result = await runProcess(node, ['-e', 'console.log(process.argv[1])', '$(echo hacked); rm -rf /']);
+
+            expect(result.ok).toBe(true);
+            expect(result.exitCode).toBe(0);
+            expect(result.stdout.trim()).toBe('$(echo hacked); rm -rf /');
+        });
+
+        it('streams output line by line', async () => {
+            const lines: string[] = [];
+            await runProcess(node, ['-e', 'process.stderr.write("a\\nb\\r"); process.stderr.write("c")'], {
+                onLine: line => lines.push(line),
+            });
+
+            expect(lines).toEqual(['a', 'b', 'c']);
+        });
+
+        it('reports exit codes and parsed error lines', async () => {
+            const result = await runProcess(node, ['-e', 'console.error("ERROR: Video unavailable"); process.exit(3)']);
+
+            expect(result.ok).toBe(false);
+            expect(result.failure).toBe('exit_code');
+            expect(result.exitCode).toBe(3);
+            expect(result.errors).toEqual(['ERROR: Video unavailable']);
+            expect(result.stderrTail).toEqual(['ERROR: Video unavailable']);
+        });
+
+        it('kills the process on timeout', async () => {
+            const result = await runProcess(node, ['-e', 'setTimeout(() => {}, 10000)'], { timeout: 100 });
+
+            expect(result.ok).toBe(false);
+            expect(result.failure).toBe('timeout');
+            expect(result.durationMs).toBeLessThan(5000);
+        });
+
+        it('caps captured output', async () => {
+            const result = await runProcess(node, ['-e', 'process.stdout.write("x".repeat(5000))'], { maxOutputBytes: 1000 });
+
+            expect(result.truncated).toBe(true);
+            expect(result.stdout.length).toBe(1000);
+        });
+
+        it('reports missing binaries', async () => {
+            const result = await runProcess('definitely-not-a-real-binary', []);
+
+            expect(result.ok).toBe(false);
+            expect(result.failure).toBe('not_found');
+        });
+    });
+});
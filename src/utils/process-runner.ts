@@ -0,0 +1,191 @@
+/**
+ * Shell-free process runner
+ * Spawns external tools (yt-dlp, spotify_dl, ...) with argument arrays so
+ * user-supplied values are never interpreted by a shell
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { PROCESS_KILL_GRACE_PERIOD, PROCESS_MAX_OUTPUT_BYTES, PROCESS_STDERR_TAIL_LINES } from '../constants';
+
+export type ProcessFailureReason = 'not_found' | 'spawn_error' | 'timeout' | 'aborted' | 'exit_code';
+
+export interface RunProcessOptions {
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  timeout?: number; // Kill the process tree after this many ms
+  maxOutputBytes?: number; // Per-stream cap on captured output (oldest output is dropped)
+  signal?: AbortSignal;
+  onLine?: (line: string, stream: 'stdout' | 'stderr') => void;
+}
+
+export interface ProcessResult {
+  command: string;
+  args: string[];
+  ok: boolean;
+  failure?: ProcessFailureReason;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  stderrTail: string[];
+  errors: string[]; // Error lines reported by the tool (e.g. "ERROR: Video unavailable")
+  truncated: boolean;
+  durationMs: number;
+  spawnError?: string;
+}
+
+const ERROR_LINE_REGEX = /^(ERROR:|\[error\]|Error:|[A-Za-z]+Error:)/;
+
+/**
+ * Append output to a capped buffer, keeping the most recent bytes
+ */
+function appendCapped(buffer: string, chunk: string, maxBytes: number): { value: string; truncated: boolean } {
+  const combined = buffer + chunk;
+  if (Buffer.byteLength(combined) <= maxBytes) {
+    return { value: combined, truncated: false };
+  }
+  return { value: combined.slice(-maxBytes), truncated: true };
+}
+
+/**
+ * Kill a process and all of its children
+ * On POSIX the child is started in its own process group, so signalling -pid reaches every descendant
+ */
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (!child.pid || child.exitCode !== null) return;
+
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // Process group already gone - fall back to the direct child
+    try {
+      child.kill(signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+/**
+ * Run a command without a shell
+ * Resolves with a structured result for every outcome (including timeouts and missing binaries)
+ */
+export function runProcess(command: string, args: string[], options: RunProcessOptions = {}): Promise<ProcessResult> {
+  const {
+    env,
+    cwd,
+    timeout,
+    maxOutputBytes = PROCESS_MAX_OUTPUT_BYTES,
+    signal,
+    onLine,
+  } = options;
+
+  const startedAt = Date.now();
+
+  return new Promise<ProcessResult>((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let truncated = false;
+    let failure: ProcessFailureReason | undefined;
+    let spawnError: string | undefined;
+    let settled = false;
+    const errors: string[] = [];
+    const pendingLines = { stdout: '', stderr: '' };
+
+    const child = spawn(command, args, {
+      env,
+      cwd,
+      shell: false,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const handleLine = (line: string, stream: 'stdout' | 'stderr') => {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+      if (ERROR_LINE_REGEX.test(trimmed)) {
+        errors.push(trimmed);
+      }
+      onLine?.(trimmed, stream);
+    };
+
+    const handleData = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+      const chunk = data.toString();
+
+      const captured = appendCapped(stream === 'stdout' ? stdout : stderr, chunk, maxOutputBytes);
+      if (stream === 'stdout') stdout = captured.value; else stderr = captured.value;
+      truncated = truncated || captured.truncated;
+
+      // Split into lines, keeping a partial trailing line for the next chunk
+      const lines = (pendingLines[stream] + chunk).split(/\r?\n|\r/);
+      pendingLines[stream] = lines.pop() || '';
+      lines.forEach(line => handleLine(line, stream));
+    };
+
+    child.stdout?.on('data', handleData('stdout'));
+    child.stderr?.on('data', handleData('stderr'));
+
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+    const terminate = (reason: ProcessFailureReason) => {
+      if (failure) return;
+      failure = reason;
+      killProcessTree(child, 'SIGTERM');
+      killTimer = setTimeout(() => killProcessTree(child, 'SIGKILL'), PROCESS_KILL_GRACE_PERIOD);
+      killTimer.unref?.();
+    };
+
+    const timeoutTimer = timeout ? setTimeout(() => terminate('timeout'), timeout) : undefined;
+    const onAbort = () => terminate('aborted');
+    if (signal) {
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    }
+
+    const finish = (exitCode: number | null, exitSignal: NodeJS.Signals | null) => {
+      if (settled) return;
+      settled = true;
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      if (killTimer) clearTimeout(killTimer);
+      signal?.removeEventListener('abort', onAbort);
+
+      // Flush any unterminated last lines
+      handleLine(pendingLines.stdout, 'stdout');
+      handleLine(pendingLines.stderr, 'stderr');
+
+      if (!failure && exitCode !== 0) {
+        failure = 'exit_code';
+      }
+
+      resolve({
+        command,
+        args,
+        ok: !failure,
+        failure,
+        exitCode,
+        signal: exitSignal,
+        stdout,
+        stderr,
+        stderrTail: stderr.split(/\r?\n/).filter(line => line.trim()).slice(-PROCESS_STDERR_TAIL_LINES),
+        errors,
+        truncated,
+        durationMs: Date.now() - startedAt,
+        ...(spawnError && { spawnError }),
+      });
+    };
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      failure = error.code === 'ENOENT' ? 'not_found' : 'spawn_error';
+      spawnError = error.message;
+      finish(null, null);
+    });
+
+    child.on('close', (code, exitSignal) => finish(code, exitSignal));
+  });
+}
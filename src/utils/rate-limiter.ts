@@ -1,79 +0,0 @@
-/**
- * Simple rate limiter for API endpoints
- */
-
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-/**
- * Check if a request should be rate limited
- * @param identifier - Unique identifier (e.g., user ID, IP address)
- * @param maxRequests - Maximum number of requests allowed
- * @param windowMs - Time window in milliseconds
- * @returns true if request should be allowed, false if rate limited
- */
-export function checkRateLimit(
-  identifier: string,
-  maxRequests: number = 5,
-  windowMs: number = 60 * 1000 // 1 minute default
-): boolean {
-  const now = Date.now();
-  const entry = rateLimitStore.get(identifier);
-
-  // Clean up old entries periodically
-  if (Math.random() < 0.01) {
-    // 1% chance to clean up on each request
-    for (const [key, value] of rateLimitStore.entries()) {
-      if (value.resetTime < now) {
-        rateLimitStore.delete(key);
-      }
-    }
-  }
-
-  if (!entry || entry.resetTime < now) {
-    // Create new entry or reset expired entry
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime: now + windowMs,
-    });
-    return true;
-  }
-
-  if (entry.count >= maxRequests) {
-    return false; // Rate limited
-  }
-
-  // Increment count
-  entry.count++;
-  return true;
-}
-
-/**
- * Get remaining requests for an identifier
- */
-export function getRemainingRequests(
-  identifier: string,
-  maxRequests: number = 5
-): number {
-  const entry = rateLimitStore.get(identifier);
-  if (!entry || entry.resetTime < Date.now()) {
-    return maxRequests;
-  }
-  return Math.max(0, maxRequests - entry.count);
-}
-
-/**
- * Get reset time for an identifier
- */
-export function getResetTime(identifier: string): number | null {
-  const entry = rateLimitStore.get(identifier);
-  if (!entry || entry.resetTime < Date.now()) {
-    return null;
-  }
-  return entry.resetTime;
-}
-
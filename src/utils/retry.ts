@@ -0,0 +1,34 @@
+/**
+ * Retry helper with exponential backoff
+ */
+
+export interface RetryOptions {
+  retries: number; // Number of retries after the first attempt
+  baseDelay: number; // Delay before the first retry (ms), doubled each time
+  maxDelay?: number;
+  shouldRetry?: (error: any) => boolean;
+  onRetry?: (error: any, attempt: number, delay: number) => void;
+}
+
+/**
+ * Run an async operation, retrying failures with exponential backoff
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const { retries, baseDelay, maxDelay = Infinity, shouldRetry = () => true, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = Math.min(baseDelay * 2 ** attempt, maxDelay);
+      onRetry?.(error, attempt + 1, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
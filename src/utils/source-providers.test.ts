@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { findSourceProvider, getSupportedSourcesText, getInvalidUrlMessage } from './source-providers';
+
+describe('source-providers', () => {
+    describe('findSourceProvider', () => {
+        it.each([
+            ['https://www.youtube.com/watch?v=abc123', 'youtube'],
+            ['https://youtu.be/abc123', 'youtube'],
+            ['https://music.youtube.com/watch?v=abc123', 'youtube'],
+            ['https://open.spotify.com/track/abc123', 'spotify'],
+            ['https://soundcloud.com/artist/some-track', 'soundcloud'],
+            ['https://on.soundcloud.com/AbC123', 'soundcloud'],
+            ['https://artist.bandcamp.com/track/some-track', 'bandcamp'],
+            ['https://example.com/audio/song.mp3', 'direct-audio'],
+            ['https://example.com/song.ogg?token=1', 'direct-audio'],
+        ])('matches %s to %s', (url, id) => {
+            expect(findSourceProvider(url)?.id).toBe(id);
+        });
+
+        it.each([
+            'https://example.com/page',
+            'https://soundcloud.com/artist/sets/some-playlist',
+            'https://artist.bandcamp.com/album/some-album',
+            'ftp://example.com/song.mp3',
+            'not a url',
+        ])('rejects %s', (url) => {
+            expect(findSourceProvider(url)).toBeUndefined();
+        });
+    });
+
+    describe('normalize', () => {
+        it('strips YouTube playlist parameters', () => {
+            const url = 'https://www.youtube.com/watch?v=abc123&list=PL1&index=2';
+            expect(findSourceProvider(url)!.normalize(url)).toBe('https://www.youtube.com/watch?v=abc123');
+        });
+
+        it('converts youtu.be links to watch URLs', () => {
+            const url = 'https://youtu.be/abc123?si=xyz';
+            expect(findSourceProvider(url)!.normalize(url)).toBe('https://www.youtube.com/watch?v=abc123');
+        });
+
+        it('drops SoundCloud tracking parameters', () => {
+            const url = 'https://soundcloud.com/artist/some-track?si=abc&utm_source=clipboard';
+            expect(findSourceProvider(url)!.normalize(url)).toBe('https://soundcloud.com/artist/some-track');
+        });
+    });
+
+    describe('messages', () => {
+        it('lists every provider', () => {
+            expect(getSupportedSourcesText()).toBe('YouTube, Spotify, SoundCloud, Bandcamp or direct .mp3/.ogg');
+        });
+
+        it('fills the sources into the invalid URL message', () => {
+            expect(getInvalidUrlMessage()).toContain('YouTube, Spotify, SoundCloud, Bandcamp or direct .mp3/.ogg link');
+        });
+    });
+});
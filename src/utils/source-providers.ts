@@ -0,0 +1,111 @@
+/**
+ * Download source provider registry
+ * Each provider declares which URLs it handles, how to normalize them,
+ * how to download them and how to look up their metadata
+ */
+
+import type { DownloadProgressEvent } from './download-progress';
+import { ERROR_MESSAGES } from '../constants';
+import { youTubeProvider } from './sources/youtube';
+import { spotifyProvider } from './sources/spotify';
+import { soundCloudProvider } from './sources/soundcloud';
+import { bandcampProvider } from './sources/bandcamp';
+import { directAudioProvider } from './sources/direct-audio';
+
+export interface DownloadContext {
+  tempDir: string; // Provider writes downloaded audio files here
+  maxFileSize: number;
+  env: NodeJS.ProcessEnv;
+  spotifyClientId?: string;
+  spotifyClientSecret?: string;
+  maxTracks?: number; // Albums/playlists stop after this many tracks
+  onProgress?: (event: DownloadProgressEvent) => void;
+}
+
+export interface DownloadOutcome {
+  truncated: boolean; // The link had more tracks than maxTracks
+}
+
+export interface SourceMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number; // seconds
+  thumbnailUrl?: string;
+}
+
+/**
+ * Strategy interface for a download source
+ */
+export interface SourceProvider {
+  id: string;
+  name: string; // Display name used in bot prompts
+  examples: string[]; // Example URLs shown to users
+
+  /**
+   * Check if this provider handles the URL
+   */
+  matches(url: string): boolean;
+
+  /**
+   * Normalize the URL before download (strip tracking/playlist parameters, ...)
+   */
+  normalize(url: string): string;
+
+  /**
+   * Download the audio into context.tempDir (at most context.maxTracks tracks)
+   */
+  download(url: string, context: DownloadContext): Promise<DownloadOutcome | void>;
+
+  /**
+   * Look up title/artist/duration without downloading (null if unavailable)
+   */
+  lookupMetadata(url: string): Promise<SourceMetadata | null>;
+}
+
+/**
+ * Registered providers, in match priority order
+ */
+const providers: SourceProvider[] = [
+  youTubeProvider,
+  spotifyProvider,
+  soundCloudProvider,
+  bandcampProvider,
+  directAudioProvider,
+];
+
+export function getSourceProviders(): readonly SourceProvider[] {
+  return providers;
+}
+
+/**
+ * Find the provider for a URL
+ */
+export function findSourceProvider(url: string): SourceProvider | undefined {
+  return providers.find(provider => provider.matches(url));
+}
+
+/**
+ * Human-readable list of supported sources, e.g. "YouTube, Spotify or SoundCloud"
+ */
+export function getSupportedSourcesText(): string {
+  const names = providers.map(provider => provider.name);
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
+
+/**
+ * Bullet list of example links for all providers
+ */
+export function getSourceExamplesText(): string {
+  return providers
+    .flatMap(provider => provider.examples.map(example => `• ${example}`))
+    .join('\n');
+}
+
+/**
+ * Invalid URL message listing the supported sources
+ */
+export function getInvalidUrlMessage(): string {
+  return ERROR_MESSAGES.INVALID_URL.replace('{sources}', getSupportedSourcesText());
+}
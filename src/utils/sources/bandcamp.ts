@@ -0,0 +1,34 @@
+/**
+ * Bandcamp source provider (yt-dlp)
+ * Single tracks only - album pages are not supported
+ */
+
+import type { SourceProvider } from '../source-providers';
+import { downloadWithYtDlp, lookupWithYtDlp } from './shared';
+
+export const bandcampProvider: SourceProvider = {
+  id: 'bandcamp',
+  name: 'Bandcamp',
+  examples: ['https://artist.bandcamp.com/track/...'],
+
+  matches(url) {
+    return /^(https?:\/\/)?[a-z0-9-]+\.bandcamp\.com\/track\/[^/?#]+/i.test(url);
+  },
+
+  normalize(url) {
+    try {
+      const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
+      return `${urlObj.origin}${urlObj.pathname}`;
+    } catch {
+      return url;
+    }
+  },
+
+  download(url, context) {
+    return downloadWithYtDlp(url, context);
+  },
+
+  lookupMetadata(url) {
+    return lookupWithYtDlp(url);
+  },
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getFileNameFromUrl, getDownloadPath } from './direct-audio';
+import { ValidationError } from '../../types/errors';
+
+describe('direct-audio', () => {
+    describe('getFileNameFromUrl', () => {
+        it('uses the last path segment', () => {
+            expect(getFileNameFromUrl('https://example.com/audio/song.mp3')).toBe('song.mp3');
+            expect(getFileNameFromUrl('https://example.com/My%20Song.ogg?x=1')).toBe('My_Song.ogg');
+        });
+
+        it('drops encoded directories before they reach the file system', () => {
+            expect(getFileNameFromUrl('https://host/..%2F..%2Froot%2Fpwn.mp3')).toBe('pwn.mp3');
+            expect(getFileNameFromUrl('https://host/a%5C..%5C..%5Cpwn.mp3')).toBe('pwn.mp3');
+        });
+
+        it('falls back to a generic name when nothing usable is left', () => {
+            expect(getFileNameFromUrl('https://host/%2E%2E')).toBe('download.mp3');
+        });
+    });
+
+    describe('getDownloadPath', () => {
+        it('keeps files inside the temp directory', () => {
+            expect(getDownloadPath('/tmp/song-dl-1', 'song.mp3')).toBe('/tmp/song-dl-1/song.mp3');
+            expect(() => getDownloadPath('/tmp/song-dl-1', '../pwn.mp3')).toThrow(ValidationError);
+        });
+    });
+});
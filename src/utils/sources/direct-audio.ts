@@ -0,0 +1,95 @@
+/**
+ * Direct audio file source provider
+ * Downloads .mp3/.ogg links over HTTP without any external tool
+ */
+
+import { basename, resolve, sep } from 'path';
+import type { SourceProvider } from '../source-providers';
+import { downloadToFile, fetchPublicUrl } from './shared';
+import { sanitizeFileName } from '../download-song';
+import { ValidationError } from '../../types/errors';
+import { METADATA_LOOKUP_TIMEOUT } from '../../constants';
+import { createLogger } from '../logger';
+
+const log = createLogger('download');
+
+const DIRECT_AUDIO_EXTENSIONS = ['mp3', 'ogg'];
+
+function getExtension(url: string): string | undefined {
+  try {
+    return new URL(url).pathname.split('.').pop()?.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Derive a safe file name from the URL path
+ * The path is decoded before taking its last segment, so encoded slashes ("..%2F..%2Fx.mp3")
+ * can't smuggle directories into the name
+ */
+export function getFileNameFromUrl(url: string): string {
+  const pathname = new URL(url).pathname;
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    decoded = pathname;
+  }
+
+  const fileName = sanitizeFileName(basename(decoded.replace(/\\/g, '/')));
+  if (!/^\.*$/.test(fileName)) return fileName;
+
+  const extension = getExtension(url);
+  return `download.${extension && DIRECT_AUDIO_EXTENSIONS.includes(extension) ? extension : 'mp3'}`;
+}
+
+/**
+ * Path of the download inside the temp directory; throws if it would land anywhere else
+ */
+export function getDownloadPath(tempDir: string, fileName: string): string {
+  const root = resolve(tempDir);
+  const filePath = resolve(root, fileName);
+  if (!filePath.startsWith(root + sep)) {
+    throw new ValidationError('Invalid file name in link.');
+  }
+  return filePath;
+}
+
+export const directAudioProvider: SourceProvider = {
+  id: 'direct-audio',
+  name: 'direct .mp3/.ogg',
+  examples: ['https://example.com/song.mp3'],
+
+  matches(url) {
+    if (!/^https?:\/\//i.test(url)) return false;
+    const extension = getExtension(url);
+    return !!extension && DIRECT_AUDIO_EXTENSIONS.includes(extension);
+  },
+
+  normalize(url) {
+    return url;
+  },
+
+  async download(url, context) {
+    log.info(`Downloading audio file: ${url}`);
+
+    const filePath = getDownloadPath(context.tempDir, getFileNameFromUrl(url));
+    await downloadToFile(url, filePath, context.maxFileSize, context.onProgress);
+  },
+
+  async lookupMetadata(url) {
+    try {
+      const response = await fetchPublicUrl(url, {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(METADATA_LOOKUP_TIMEOUT),
+      });
+      if (!response.ok) return null;
+      return {
+        title: getFileNameFromUrl(url).replace(/\.[^/.]+$/, ''),
+      };
+    } catch {
+      return null;
+    }
+  },
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { assertPublicUrl, isPrivateAddress, getDownloadTimeout, runDownloadTool } from './shared';
+import { runProcess } from '../process-runner';
+import { DOWNLOAD_TIMEOUT, DOWNLOAD_TIMEOUT_PER_EXTRA_TRACK } from '../../constants';
+import { ValidationError } from '../../types/errors';
+
+vi.mock('../process-runner', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('../process-runner')>();
+    return { ...actual, runProcess: vi.fn(actual.runProcess) };
+});
+
+describe('source shared helpers', () => {
+    describe('isPrivateAddress', () => {
+        it('blocks loopback, private and link-local addresses', () => {
+            for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+                expect(isPrivateAddress(address), address).toBe(true);
+            }
+        });
+
+        it('allows public addresses', () => {
+            for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+                expect(isPrivateAddress(address), address).toBe(false);
+            }
+        });
+    });
+
+    describe('assertPublicUrl', () => {
+        it('rejects private hosts and non-http links', async () => {
+            await expect(assertPublicUrl('http://127.0.0.1/song.mp3')).rejects.toThrow(ValidationError);
+            await expect(assertPublicUrl('http://[::1]/song.mp3')).rejects.toThrow(ValidationError);
+            await expect(assertPublicUrl('http://localhost/song.mp3')).rejects.toThrow(ValidationError);
+            await expect(assertPublicUrl('file:///etc/passwd')).rejects.toThrow(ValidationError);
+        });
+
+        it('accepts public IP literals', async () => {
+            await expect(assertPublicUrl('https://93.184.216.34/song.mp3')).resolves.toBeInstanceOf(URL);
+        });
+    });
+
+    describe('getDownloadTimeout', () => {
+        it('grows with the number of tracks', () => {
+            expect(getDownloadTimeout()).toBe(DOWNLOAD_TIMEOUT);
+            expect(getDownloadTimeout(10)).toBe(DOWNLOAD_TIMEOUT + 9 * DOWNLOAD_TIMEOUT_PER_EXTRA_TRACK);
+        });
+    });
+
+    describe('runDownloadTool', () => {
+        // Prints a "starting track" line per track, then would keep running well past the test timeout
+        const script = `for (let i = 1; i <= 5; i++) console.log('[download] Destination: /tmp/' + i + ' - Track.mp3'); setTimeout(() => {}, 60000);`;
+
+        it('stops the tool once it starts a track past maxTracks', async () => {
+            const outcome = await runDownloadTool(process.execPath, ['-e', script], {
+                tempDir: '/tmp',
+                maxFileSize: 1,
+                env: process.env,
+                maxTracks: 2,
+            }, true);
+            expect(outcome.truncated).toBe(true);
+        });
+
+        it('gives single tracks the single-track timeout whatever the track cap', async () => {
+            const context = { tempDir: '/tmp', maxFileSize: 1, env: process.env, maxTracks: 20 };
+            const timeouts = async (isTracklist: boolean) => {
+                vi.mocked(runProcess).mockClear();
+                await runDownloadTool(process.execPath, ['-e', ''], context, isTracklist);
+                return vi.mocked(runProcess).mock.calls[0][2]?.timeout;
+            };
+
+            expect(await timeouts(false)).toBe(DOWNLOAD_TIMEOUT);
+            expect(await timeouts(true)).toBe(getDownloadTimeout(20));
+        });
+
+        it('leaves tools alone that finish within the limit', async () => {
+            const outcome = await runDownloadTool(process.execPath, ['-e', `console.log('[download] Destination: /tmp/a.mp3')`], {
+                tempDir: '/tmp',
+                maxFileSize: 1,
+                env: process.env,
+                maxTracks: 2,
+            }, true);
+            expect(outcome.truncated).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,251 @@
+/**
+ * Shared helpers for source providers
+ */
+
+import { runProcess } from '../process-runner';
+import { parseDownloadProgressLine, type DownloadProgressEvent } from '../download-progress';
+import { ProcessError, ValidationError } from '../../types/errors';
+import type { DownloadContext, DownloadOutcome, SourceMetadata } from '../source-providers';
+import {
+  DEFAULT_AUDIO_QUALITY,
+  DOWNLOAD_TIMEOUT,
+  DOWNLOAD_TIMEOUT_PER_EXTRA_TRACK,
+  MAX_DOWNLOAD_REDIRECTS,
+  METADATA_LOOKUP_TIMEOUT,
+} from '../../constants';
+import { join } from 'path';
+import { createWriteStream } from 'fs';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { createLogger } from '../logger';
+
+const log = createLogger('download');
+
+/**
+ * yt-dlp output line that starts (or skips) the download of one track
+ */
+const TRACK_START_LINE = /^\[download\] (Destination: |.+ has already been downloaded)/;
+
+/**
+ * Time allowed for an album/playlist download: the single-track timeout plus a share for every further track
+ */
+export function getDownloadTimeout(maxTracks: number = 1): number {
+  return DOWNLOAD_TIMEOUT + Math.max(0, maxTracks - 1) * DOWNLOAD_TIMEOUT_PER_EXTRA_TRACK;
+}
+
+/**
+ * Run a download tool, streaming its output to the log and progress callback
+ * Single tracks get DOWNLOAD_TIMEOUT. With isTracklist (album/playlist links of tools that have no
+ * option to limit a playlist themselves), the timeout grows with context.maxTracks and the tool is
+ * stopped as soon as it starts a track past it
+ * Throws ProcessError if the tool fails
+ */
+export async function runDownloadTool(
+  command: string,
+  args: string[],
+  context: DownloadContext,
+  isTracklist: boolean = false
+): Promise<DownloadOutcome> {
+  const timeout = isTracklist ? getDownloadTimeout(context.maxTracks) : DOWNLOAD_TIMEOUT;
+  log.info(`Executing: ${command}`, { args, tempDir: context.tempDir, timeoutMinutes: Math.round(timeout / 60000) });
+
+  const controller = new AbortController();
+  let startedTracks = 0;
+  let truncated = false;
+
+  // Stream output in real-time; yt-dlp sends progress to stderr
+  const result = await runProcess(command, args, {
+    env: context.env,
+    timeout,
+    signal: controller.signal,
+    onLine: (line, stream) => {
+      log.info(line, { command, stream });
+      if (isTracklist && context.maxTracks && TRACK_START_LINE.test(line) && ++startedTracks > context.maxTracks) {
+        // The tracks before this one are complete; the partial one is dropped by the caller's cap
+        log.info(`Track limit of ${context.maxTracks} reached, stopping ${command}`);
+        truncated = true;
+        controller.abort();
+        return;
+      }
+      if (context.onProgress) {
+        const event = parseDownloadProgressLine(line);
+        if (event) {
+          context.onProgress(event);
+        }
+      }
+    },
+  });
+
+  if (!result.ok && !(truncated && result.failure === 'aborted')) {
+    throw new ProcessError(result);
+  }
+  return { truncated };
+}
+
+/**
+ * Download a single track with yt-dlp, extracting audio as MP3 optimized for web streaming
+ * --no-playlist ensures we only download the single item, not the entire playlist
+ * --playlist-items caps links that are playlists themselves (e.g. Bandcamp albums) at maxTracks
+ * --audio-quality 5 = ~128kbps (good for web streaming, smaller file size)
+ */
+export async function downloadWithYtDlp(url: string, context: DownloadContext): Promise<void> {
+  const audioQuality = process.env.AUDIO_QUALITY || DEFAULT_AUDIO_QUALITY;
+  log.info(`Using audio quality: ${audioQuality} (~128kbps for web streaming)`);
+
+  await runDownloadTool('yt-dlp', [
+    '--no-playlist', '--verbose', '-x',
+    ...(context.maxTracks ? ['--playlist-items', `1:${context.maxTracks}`] : []),
+    '--audio-format', 'mp3',
+    '--audio-quality', audioQuality,
+    '--progress', '--newline',
+    '-o', join(context.tempDir, '%(title)s.%(ext)s'),
+    '--', // Everything after this is a URL, never an option
+    url,
+  ], context);
+}
+
+/**
+ * Look up metadata with yt-dlp without downloading
+ */
+export async function lookupWithYtDlp(url: string): Promise<SourceMetadata | null> {
+  const result = await runProcess('yt-dlp', ['--no-playlist', '--dump-json', '--skip-download', '--', url], {
+    timeout: METADATA_LOOKUP_TIMEOUT,
+  });
+  if (!result.ok || result.truncated) {
+    return null;
+  }
+
+  try {
+    const info = JSON.parse(result.stdout);
+    return {
+      title: info.track || info.title,
+      artist: info.artist || info.creator || info.uploader,
+      album: info.album,
+      duration: typeof info.duration === 'number' ? Math.round(info.duration) : undefined,
+      thumbnailUrl: info.thumbnail,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Addresses a user-supplied link must never reach: loopback, private, link-local (cloud metadata),
+ * carrier-grade NAT, multicast and reserved ranges
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is one a download must not connect to
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  const family = isIP(address);
+  if (family === 4) return BLOCKED_ADDRESSES.check(address, 'ipv4');
+  if (family === 6) return BLOCKED_ADDRESSES.check(address, 'ipv6');
+  return true; // Not an address at all
+}
+
+/**
+ * Reject links that aren't http(s) or whose host resolves to a private address
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ValidationError('Only http and https links can be downloaded.');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new ValidationError('This link points to a private network address and can\'t be downloaded.');
+  }
+  return parsed;
+}
+
+/**
+ * Fetch a user-supplied link, checking the host before the request and after every redirect
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}): Promise<Response> {
+  let currentUrl = url;
+  for (let redirects = 0; redirects <= MAX_DOWNLOAD_REDIRECTS; redirects++) {
+    await assertPublicUrl(currentUrl);
+    const response = await fetch(currentUrl, { ...init, redirect: 'manual' });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+  throw new Error(`Download failed: more than ${MAX_DOWNLOAD_REDIRECTS} redirects`);
+}
+
+/**
+ * Stream an HTTP download to disk, enforcing the size limit while receiving
+ * Reports progress when the server sends a Content-Length
+ */
+export async function downloadToFile(
+  url: string,
+  filePath: string,
+  maxFileSize: number,
+  onProgress?: (event: DownloadProgressEvent) => void
+): Promise<void> {
+  const response = await fetchPublicUrl(url, {
+    signal: AbortSignal.timeout(getDownloadTimeout()),
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const totalBytes = parseInt(response.headers.get('content-length') || '0', 10);
+  if (totalBytes > maxFileSize) {
+    throw new Error(`File too large (${Math.round(totalBytes / 1024 / 1024)}MB). Maximum size is ${Math.round(maxFileSize / 1024 / 1024)}MB.`);
+  }
+
+  const file = createWriteStream(filePath);
+  const reader = response.body.getReader();
+  let receivedBytes = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      receivedBytes += value.length;
+      if (receivedBytes > maxFileSize) {
+        await reader.cancel();
+        throw new Error(`File too large. Maximum size is ${Math.round(maxFileSize / 1024 / 1024)}MB.`);
+      }
+
+      if (!file.write(value)) {
+        await new Promise<void>(resolve => file.once('drain', () => resolve()));
+      }
+
+      if (totalBytes > 0) {
+        onProgress?.({
+          stage: 'downloading',
+          percent: (receivedBytes / totalBytes) * 100,
+          totalSize: `${(totalBytes / 1024 / 1024).toFixed(2)}MiB`,
+        });
+      }
+    }
+  } finally {
+    await new Promise<void>(resolve => file.end(() => resolve()));
+  }
+}
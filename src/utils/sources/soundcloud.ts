@@ -0,0 +1,36 @@
+/**
+ * SoundCloud source provider (yt-dlp)
+ * Single tracks only - sets (playlists) are not supported
+ */
+
+import type { SourceProvider } from '../source-providers';
+import { downloadWithYtDlp, lookupWithYtDlp } from './shared';
+
+export const soundCloudProvider: SourceProvider = {
+  id: 'soundcloud',
+  name: 'SoundCloud',
+  examples: ['https://soundcloud.com/artist/track'],
+
+  matches(url) {
+    return /^(https?:\/\/)?(www\.|m\.)?soundcloud\.com\/[^/?#]+\/(?!sets(\/|$))[^/?#]+/.test(url) ||
+      /^(https?:\/\/)?on\.soundcloud\.com\/[^/?#]+/.test(url);
+  },
+
+  normalize(url) {
+    // Drop tracking parameters (?si=..., utm_*)
+    try {
+      const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
+      return `${urlObj.origin}${urlObj.pathname}`;
+    } catch {
+      return url;
+    }
+  },
+
+  download(url, context) {
+    return downloadWithYtDlp(url, context);
+  },
+
+  lookupMetadata(url) {
+    return lookupWithYtDlp(url);
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * Spotify source provider (spotify_dl)
+ */
+
+import type { SourceProvider } from '../source-providers';
+import { runDownloadTool } from './shared';
+import { METADATA_LOOKUP_TIMEOUT } from '../../constants';
+
+export const spotifyProvider: SourceProvider = {
+  id: 'spotify',
+  name: 'Spotify',
+  examples: ['https://open.spotify.com/track/...', 'https://open.spotify.com/album/...', 'https://open.spotify.com/playlist/...'],
+
+  matches(url) {
+    return /^(https?:\/\/)?(open\.)?spotify\.com\/.+/.test(url);
+  },
+
+  normalize(url) {
+    // Drop the share tracking parameter (?si=...)
+    try {
+      const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
+      return `${urlObj.origin}${urlObj.pathname}`;
+    } catch {
+      return url;
+    }
+  },
+
+  async download(url, context) {
+    // Set up environment variables for spotify-dl
+    const env = {
+      ...context.env,
+      ...(context.spotifyClientId && { SPOTIPY_CLIENT_ID: context.spotifyClientId }),
+      ...(context.spotifyClientSecret && { SPOTIPY_CLIENT_SECRET: context.spotifyClientSecret }),
+    };
+    // Albums/playlists download in tracklist order (keep_playlist_order prefixes files with their position);
+    // spotify_dl has no track limit option, so it is stopped once it moves past context.maxTracks
+    const isTracklist = /\/(album|playlist)\//.test(url);
+    return runDownloadTool('spotify_dl', ['-l', url, '-o', context.tempDir, '--keep_playlist_order'], { ...context, env }, isTracklist);
+  },
+
+  async lookupMetadata(url) {
+    // oEmbed needs no API credentials but only returns the title and artwork
+    try {
+      const response = await fetch(`https://open.spotify.com/oembed?url=${encodeURIComponent(url)}`, {
+        signal: AbortSignal.timeout(METADATA_LOOKUP_TIMEOUT),
+      });
+      if (!response.ok) return null;
+      const data = await response.json();
+      return {
+        title: data.title,
+        thumbnailUrl: data.thumbnail_url,
+      };
+    } catch {
+      return null;
+    }
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * YouTube source provider (yt-dlp)
+ */
+
+import type { SourceProvider } from '../source-providers';
+import { downloadWithYtDlp, lookupWithYtDlp } from './shared';
+import { createLogger } from '../logger';
+
+const log = createLogger('download');
+
+/**
+ * Extract clean YouTube video URL (remove playlist parameters)
+ */
+function cleanYouTubeUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    // Keep only the video ID parameter, remove list, index, start_radio, etc.
+    const videoId = urlObj.searchParams.get('v');
+    if (videoId) {
+      return `https://www.youtube.com/watch?v=${videoId}`;
+    }
+    // Handle youtu.be short URLs
+    if (urlObj.hostname.includes('youtu.be')) {
+      const videoId = urlObj.pathname.slice(1);
+      return `https://www.youtube.com/watch?v=${videoId}`;
+    }
+    return url;
+  } catch {
+    return url;
+  }
+}
+
+export const youTubeProvider: SourceProvider = {
+  id: 'youtube',
+  name: 'YouTube',
+  examples: ['https://www.youtube.com/watch?v=...', 'https://youtu.be/...'],
+
+  matches(url) {
+    return /^(https?:\/\/)?(www\.|m\.|music\.)?(youtube\.com|youtu\.be)\/.+/.test(url);
+  },
+
+  normalize(url) {
+    const cleanUrl = cleanYouTubeUrl(url);
+    if (cleanUrl !== url) {
+      log.info(`Cleaned URL: ${cleanUrl} (original had playlist params)`);
+    }
+    return cleanUrl;
+  },
+
+  download(url, context) {
+    return downloadWithYtDlp(url, context);
+  },
+
+  lookupMetadata(url) {
+    return lookupWithYtDlp(url);
+  },
+};
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Writable } from 'stream';
+import { FTPStrategy } from './ftp-strategy';
+import { generatePlaylists } from '../playlist-generator';
+import { readAudioMetadataFromHead } from '../audio-metadata';
+import { AUDIO_METADATA_HEAD_BYTES } from '../../constants';
+
+const REMOTE_FILE_SIZE = AUDIO_METADATA_HEAD_BYTES * 4;
+
+const ftp = vi.hoisted(() => ({
+    instances: 0,
+    closed: 0,
+    transferred: 0,
+}));
+
+vi.mock('basic-ftp', () => ({
+    Client: class {
+        ftp = { verbose: false };
+        private busy = false;
+        constructor() {
+            ftp.instances++;
+        }
+        async access() { }
+        close() {
+            ftp.closed++;
+        }
+        // Like basic-ftp, one command at a time per connection
+        private async task<T>(run: () => Promise<T>): Promise<T> {
+            if (this.busy) throw new Error('User launched a task while another one is still running');
+            this.busy = true;
+            try {
+                await new Promise(resolve => setTimeout(resolve, 1));
+                return await run();
+            } finally {
+                this.busy = false;
+            }
+        }
+        list(path: string) {
+            return this.task(async () => path === '/music'
+                ? [{ name: 'Rock', isDirectory: true }, { name: 'Jazz', isDirectory: true }]
+                : [{ name: 'Song.mp3', isDirectory: false }]);
+        }
+        size() {
+            return this.task(async () => REMOTE_FILE_SIZE);
+        }
+        // Streams tracks in 64KB chunks, giving up like basic-ftp when the destination errors
+        downloadTo(sink: Writable, path: string) {
+            return this.task(async () => {
+                if (!path.endsWith('.mp3')) throw new Error('550 No such file');
+                const chunk = Buffer.alloc(64 * 1024);
+                sink.once('error', () => { });
+                for (let sent = 0; sent < REMOTE_FILE_SIZE; sent += chunk.length) {
+                    const error = await new Promise<Error | null | undefined>(resolve => sink.write(chunk, resolve));
+                    ftp.transferred += chunk.length;
+                    if (error) throw error;
+                }
+            });
+        }
+    },
+}));
+
+vi.mock('../audio-metadata', () => ({
+    canReadAudioMetadata: () => true,
+    readAudioMetadataFromHead: vi.fn(async () => ({ title: 'Song', artist: 'Artist', durationSeconds: 215 })),
+}));
+
+describe('FTPStrategy', () => {
+    beforeEach(() => {
+        ftp.instances = 0;
+        ftp.closed = 0;
+        ftp.transferred = 0;
+        vi.mocked(readAudioMetadataFromHead).mockClear();
+    });
+
+    it('reads metadata from the start of remote tracks during playlist generation', async () => {
+        const strategy = new FTPStrategy({ host: 'ftp.example.com', user: 'u', password: 'p' });
+        const { playlists } = await generatePlaylists(strategy, '/music');
+
+        expect(playlists.map(playlist => playlist.name)).toEqual(['Rock', 'Jazz']);
+        for (const playlist of playlists) {
+            expect(playlist.tracks[0]).toMatchObject({ trackName: 'Song', duration: '03:35', artist: 'Artist' });
+        }
+        expect(readAudioMetadataFromHead).toHaveBeenCalledWith(expect.stringMatching(/head\.mp3$/), REMOTE_FILE_SIZE);
+        expect(ftp.transferred).toBe(2 * AUDIO_METADATA_HEAD_BYTES);
+    });
+
+    it('cuts transfers short on a connection of their own and reuses what it already read', async () => {
+        const strategy = new FTPStrategy({ host: 'ftp.cache.example.com', user: 'u', password: 'p' });
+
+        await strategy.readMetadata('/music/Rock/Song.mp3');
+        await strategy.readMetadata('/music/Rock/Song.mp3');
+
+        expect(readAudioMetadataFromHead).toHaveBeenCalledTimes(1);
+        expect(ftp.instances).toBe(2); // The shared connection and one for the head
+        expect(ftp.closed).toBe(1);
+        await expect(strategy.listAudioFiles('/music/Rock')).resolves.toEqual(['Song.mp3']);
+        expect(ftp.instances).toBe(2);
+    });
+});
@@ -5,9 +5,14 @@
 
 import { Client } from 'basic-ftp';
 import SftpClient from 'ssh2-sftp-client';
+import { Writable } from 'stream';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
 import type { ScanStrategy } from '../playlist-generator';
 import { filterAudioFiles } from '../playlist-generator';
-import { SUPPORTED_AUDIO_EXTENSIONS } from '../../constants';
+import { canReadAudioMetadata, readAudioMetadataFromHead, type AudioMetadata } from '../audio-metadata';
+import { AUDIO_METADATA_HEAD_BYTES, SUPPORTED_AUDIO_EXTENSIONS } from '../../constants';
 
 export interface FTPStrategyConfig {
   host: string;
@@ -16,7 +21,18 @@ export interface FTPStrategyConfig {
   useSFTP?: boolean;
 }
 
+/**
+ * Metadata of remote tracks already read in this process, by host, path and size
+ * (a re-uploaded file with a new size is read again)
+ */
+const metadataCache = new Map<string, AudioMetadata | null>();
+
 export class FTPStrategy implements ScanStrategy {
+  /**
+   * Every call goes through one FTP/SFTP connection, which runs one command at a time
+   */
+  readonly sequential = true;
+
   private config: FTPStrategyConfig;
   private ftpClient: Client | null = null;
   private sftpClient: SftpClient | null = null;
@@ -41,18 +57,23 @@ export class FTPStrategy implements ScanStrategy {
         port: 22,
       });
     } else {
-      this.ftpClient = new Client();
-      this.ftpClient.ftp.verbose = false;
-      await this.ftpClient.access({
-        host: this.config.host,
-        user: this.config.user,
-        password: this.config.password,
-        secure: false,
-      });
+      this.ftpClient = await this.openFTPClient();
     }
     this.connected = true;
   }
 
+  private async openFTPClient(): Promise<Client> {
+    const client = new Client();
+    client.ftp.verbose = false;
+    await client.access({
+      host: this.config.host,
+      user: this.config.user,
+      password: this.config.password,
+      secure: false,
+    });
+    return client;
+  }
+
   /**
    * Disconnect from the server
    */
@@ -117,6 +138,108 @@ export class FTPStrategy implements ScanStrategy {
     }
   }
 
+  /**
+   * Read tags and duration of a remote track
+   * Only the start of the file is transferred (see readAudioMetadataFromHead)
+   */
+  async readMetadata(filePath: string): Promise<AudioMetadata | null> {
+    if (!canReadAudioMetadata()) return null;
+    await this.ensureConnection();
+
+    let tempDir: string | undefined;
+    try {
+      const fileSize = this.config.useSFTP
+        ? (await this.sftpClient!.stat(filePath)).size
+        : await this.ftpClient!.size(filePath);
+      const cacheKey = `${this.config.host}:${filePath}:${fileSize}`;
+      if (metadataCache.has(cacheKey)) {
+        return metadataCache.get(cacheKey)!;
+      }
+
+      const head = this.config.useSFTP
+        ? await this.readHeadSFTP(filePath)
+        : await this.readHeadFTP(filePath);
+      tempDir = await mkdtemp(join(tmpdir(), 'track-metadata-'));
+      const headPath = join(tempDir, `head${extname(filePath).toLowerCase()}`);
+      await writeFile(headPath, head);
+
+      const metadata = await readAudioMetadataFromHead(headPath, fileSize);
+      metadataCache.set(cacheKey, metadata);
+      return metadata;
+    } catch {
+      return null;
+    } finally {
+      if (tempDir) {
+        await rm(tempDir, { recursive: true, force: true }).catch(() => { });
+      }
+    }
+  }
+
+  /**
+   * Read a text file (null if it doesn't exist or can't be read)
+   */
+  async readTextFile(filePath: string): Promise<string | null> {
+    await this.ensureConnection();
+
+    try {
+      if (this.config.useSFTP) {
+        if (!this.sftpClient) throw new Error('SFTP client not connected');
+        return (await this.sftpClient.get(filePath) as Buffer).toString('utf-8');
+      }
+
+      if (!this.ftpClient) throw new Error('FTP client not connected');
+      const chunks: Buffer[] = [];
+      const sink = new Writable({
+        write(chunk, _encoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+      });
+      await this.ftpClient.downloadTo(sink, filePath);
+      return Buffer.concat(chunks).toString('utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Download the first AUDIO_METADATA_HEAD_BYTES of a file over SFTP
+   */
+  private async readHeadSFTP(filePath: string): Promise<Buffer> {
+    if (!this.sftpClient) throw new Error('SFTP client not connected');
+
+    return await this.sftpClient.get(filePath, undefined, {
+      readStreamOptions: { start: 0, end: AUDIO_METADATA_HEAD_BYTES - 1 },
+    }) as Buffer;
+  }
+
+  /**
+   * Download the first AUDIO_METADATA_HEAD_BYTES of a file over FTP
+   * FTP can't request a byte range, so the transfer is cut off once enough has arrived; that drops
+   * the connection, so it runs on a short-lived one of its own and the shared one stays up
+   */
+  private async readHeadFTP(filePath: string): Promise<Buffer> {
+    const client = await this.openFTPClient();
+    const chunks: Buffer[] = [];
+    let received = 0;
+    const sink = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        received += chunk.length;
+        callback(received >= AUDIO_METADATA_HEAD_BYTES ? new Error('Head received') : undefined);
+      },
+    });
+
+    try {
+      await client.downloadTo(sink, filePath);
+    } catch (error) {
+      if (received < AUDIO_METADATA_HEAD_BYTES) throw error;
+    } finally {
+      client.close();
+    }
+    return Buffer.concat(chunks).subarray(0, AUDIO_METADATA_HEAD_BYTES);
+  }
+
   /**
    * List directories using SFTP
    */
@@ -125,7 +248,7 @@ export class FTPStrategy implements ScanStrategy {
 
     const directories = await this.sftpClient.list(basePath);
     return directories
-      .filter((item: any) => item.type === 'd' && item.name !== '.' && item.name !== '..')
+      .filter((item: any) => item.type === 'd' && !item.name.startsWith('.')) // Skips ., .. and hidden folders like .trash
       .map((item: any) => item.name);
   }
 
@@ -137,7 +260,7 @@ export class FTPStrategy implements ScanStrategy {
 
     const directories = await this.ftpClient.list(basePath);
     return directories
-      .filter((item: any) => item.isDirectory && item.name !== '.' && item.name !== '..')
+      .filter((item: any) => item.isDirectory && !item.name.startsWith('.')) // Skips ., .. and hidden folders like .trash
       .map((item: any) => item.name);
   }
 
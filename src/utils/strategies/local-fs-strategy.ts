@@ -7,6 +7,7 @@ import fs from 'fs';
 import path from 'path';
 import type { ScanStrategy } from '../playlist-generator';
 import { filterAudioFiles } from '../playlist-generator';
+import { readAudioMetadata, type AudioMetadata } from '../audio-metadata';
 
 export class LocalFileSystemStrategy implements ScanStrategy {
   /**
@@ -19,7 +20,7 @@ export class LocalFileSystemStrategy implements ScanStrategy {
 
     const items = fs.readdirSync(basePath, { withFileTypes: true });
     return items
-      .filter(item => item.isDirectory())
+      .filter(item => item.isDirectory() && !item.name.startsWith('.')) // Hidden folders like .trash aren't playlists
       .map(item => item.name);
   }
 
@@ -65,6 +66,20 @@ export class LocalFileSystemStrategy implements ScanStrategy {
   async pathExists(pathToCheck: string): Promise<boolean> {
     return fs.existsSync(pathToCheck);
   }
+
+  /**
+   * Read tags and duration with ffprobe
+   */
+  async readMetadata(filePath: string): Promise<AudioMetadata | null> {
+    return readAudioMetadata(filePath);
+  }
+
+  /**
+   * Read a text file (null if it doesn't exist)
+   */
+  async readTextFile(filePath: string): Promise<string | null> {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+  }
 }
 
 
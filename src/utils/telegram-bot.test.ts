@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validatePlaylistName } from './telegram-bot';
+import { escapeMarkdown, isValidWebhookSecret, validatePlaylistName } from './telegram-bot';
 
 describe('telegram-bot utils', () => {
     describe('validatePlaylistName', () => {
@@ -33,4 +33,27 @@ describe('telegram-bot utils', () => {
             expect(validatePlaylistName('..')).toBe(false);
         });
     });
+
+    describe('isValidWebhookSecret', () => {
+        it('accepts only the configured secret', () => {
+            expect(isValidWebhookSecret('s3cret-token', 's3cret-token')).toBe(true);
+            expect(isValidWebhookSecret('s3cret-tokem', 's3cret-token')).toBe(false);
+            expect(isValidWebhookSecret('s3cret', 's3cret-token')).toBe(false);
+            expect(isValidWebhookSecret(null, 's3cret-token')).toBe(false);
+        });
+
+        it('rejects every request when no secret is configured', () => {
+            expect(isValidWebhookSecret(null, undefined)).toBe(false);
+            expect(isValidWebhookSecret('', '')).toBe(false);
+            expect(isValidWebhookSecret('anything', undefined)).toBe(false);
+        });
+    });
+
+    describe('escapeMarkdown', () => {
+        it('escapes the characters legacy Markdown treats as markup', () => {
+            expect(escapeMarkdown('@some_user')).toBe('@some\\_user');
+            expect(escapeMarkdown('*bold* `code` [link]')).toBe('\\*bold\\* \\`code\\` \\[link]');
+            expect(escapeMarkdown('Plain title')).toBe('Plain title');
+        });
+    });
 });
@@ -2,7 +2,10 @@
  * Telegram Bot API helper functions
  */
 
-import { TELEGRAM_API_URL as TELEGRAM_API_URL_CONST, MAX_BUTTONS_PER_MESSAGE, MAX_TRACK_NAME_LENGTH, TRACK_NAME_TRUNCATE_LENGTH, DEFAULT_SITE_URL, MAX_PLAYLIST_NAME_LENGTH, MIN_PLAYLIST_NAME_LENGTH } from '../constants';
+import { TELEGRAM_API_URL as TELEGRAM_API_URL_CONST, TELEGRAM_FILE_API_URL, MAX_TRACK_NAME_LENGTH, TRACK_NAME_TRUNCATE_LENGTH, DEFAULT_SITE_URL, MAX_PLAYLIST_NAME_LENGTH, MIN_PLAYLIST_NAME_LENGTH } from '../constants';
+import { findSourceProvider } from './source-providers';
+import { createHash, timingSafeEqual } from 'crypto';
+import type FormData from 'form-data';
 
 export interface TelegramMessage {
   message_id: number;
@@ -17,9 +20,38 @@ export interface TelegramMessage {
     type: string;
   };
   text?: string;
+  audio?: TelegramAudio;
+  document?: TelegramDocument;
+  reply_to_message?: TelegramMessage;
   date: number;
 }
 
+export interface TelegramAudio {
+  file_id: string;
+  file_unique_id: string;
+  duration: number;
+  performer?: string;
+  title?: string;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+}
+
+export interface TelegramDocument {
+  file_id: string;
+  file_unique_id: string;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+}
+
+export interface TelegramFile {
+  file_id: string;
+  file_unique_id: string;
+  file_size?: number;
+  file_path?: string;
+}
+
 export interface TelegramCallbackQuery {
   id: string;
   from: {
@@ -32,23 +64,45 @@ export interface TelegramCallbackQuery {
   data?: string;
 }
 
+export interface TelegramInlineQuery {
+  id: string;
+  from: {
+    id: number;
+    is_bot: boolean;
+    first_name: string;
+    username?: string;
+  };
+  query: string;
+  offset: string;
+}
+
 export interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
   callback_query?: TelegramCallbackQuery;
+  inline_query?: TelegramInlineQuery;
 }
 
 const TELEGRAM_API_URL = TELEGRAM_API_URL_CONST;
 
+/**
+ * Escape user-controlled text (usernames, titles, file names) for Markdown messages
+ * An unmatched _, *, ` or [ would otherwise make Telegram reject the whole message
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`\[])/g, '\\$1');
+}
+
 /**
  * Send a message to a Telegram chat
+ * @returns the ID of the sent message
  */
 export async function sendMessage(
   botToken: string,
   chatId: number,
   text: string,
   replyMarkup?: any
-): Promise<void> {
+): Promise<number> {
   const url = `${TELEGRAM_API_URL}${botToken}/sendMessage`;
 
   const response = await fetch(url, {
@@ -68,6 +122,9 @@ export async function sendMessage(
     const error = await response.text();
     throw new Error(`Telegram API error: ${error}`);
   }
+
+  const data = await response.json();
+  return data.result?.message_id;
 }
 
 /**
@@ -97,6 +154,35 @@ export async function answerCallbackQuery(
   }
 }
 
+/**
+ * Answer an inline query (@bot query) with a list of results
+ */
+export async function answerInlineQuery(
+  botToken: string,
+  inlineQueryId: string,
+  results: any[],
+  cacheTime: number = 0
+): Promise<void> {
+  const url = `${TELEGRAM_API_URL}${botToken}/answerInlineQuery`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      inline_query_id: inlineQueryId,
+      results,
+      cache_time: cacheTime,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Telegram API error: ${error}`);
+  }
+}
+
 /**
  * Edit message text
  */
@@ -129,6 +215,38 @@ export async function editMessageText(
   }
 }
 
+/**
+ * Get file info (including the download path) for a file ID
+ */
+export async function getFile(botToken: string, fileId: string): Promise<TelegramFile> {
+  const url = `${TELEGRAM_API_URL}${botToken}/getFile`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      file_id: fileId,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Telegram API error: ${error}`);
+  }
+
+  const data = await response.json();
+  return data.result;
+}
+
+/**
+ * Build the download URL for a file path returned by getFile
+ */
+export function getFileDownloadUrl(botToken: string, filePath: string): string {
+  return `${TELEGRAM_FILE_API_URL}${botToken}/${filePath}`;
+}
+
 /**
  * Delete a message
  */
@@ -197,12 +315,9 @@ export async function sendPhoto(
       throw new Error(`Telegram API error: ${error}`);
     }
   } else {
-    // If photo is a Buffer, use FormData with native https module
-    // Node.js fetch doesn't handle form-data streams well, so use https directly
+    // If photo is a Buffer, upload it as multipart form data
     const FormDataModule = await import('form-data');
     const FormData = FormDataModule.default;
-    const https = await import('https');
-    const { URL } = await import('url');
 
     const form = new FormData();
 
@@ -219,53 +334,133 @@ export async function sendPhoto(
       form.append('reply_markup', JSON.stringify(replyMarkup));
     }
 
-    // Get headers from form-data
-    const headers = form.getHeaders();
-
-    // Parse URL and make request with https module
-    const parsedUrl = new URL(url);
-
-    return new Promise<void>((resolve, reject) => {
-      const req = https.request(
-        {
-          hostname: parsedUrl.hostname,
-          path: parsedUrl.pathname + parsedUrl.search,
-          method: 'POST',
-          headers: headers,
-        },
-        (res) => {
-          let data = '';
-          res.on('data', (chunk) => {
-            data += chunk;
-          });
-          res.on('end', () => {
-            try {
-              const result = JSON.parse(data);
-              if (!result.ok) {
-                reject(new Error(`Telegram API error: ${JSON.stringify(result)}`));
-              } else {
-                resolve();
-              }
-            } catch (error) {
-              reject(new Error(`Failed to parse response: ${error}`));
+    await postMultipart(url, form);
+  }
+}
+
+/**
+ * POST a multipart form to the Bot API
+ * Node.js fetch doesn't handle form-data streams well, so this uses the https module directly
+ * @returns the API result
+ */
+async function postMultipart(url: string, form: FormData): Promise<any> {
+  const https = await import('https');
+  const { URL } = await import('url');
+
+  // Get headers from form-data
+  const headers = form.getHeaders();
+
+  // Parse URL and make request with https module
+  const parsedUrl = new URL(url);
+
+  return new Promise<any>((resolve, reject) => {
+    const req = https.request(
+      {
+        hostname: parsedUrl.hostname,
+        path: parsedUrl.pathname + parsedUrl.search,
+        method: 'POST',
+        headers: headers,
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => {
+          data += chunk;
+        });
+        res.on('end', () => {
+          try {
+            const result = JSON.parse(data);
+            if (!result.ok) {
+              reject(new Error(`Telegram API error: ${JSON.stringify(result)}`));
+            } else {
+              resolve(result.result);
             }
-          });
-        }
-      );
+          } catch (error) {
+            reject(new Error(`Failed to parse response: ${error}`));
+          }
+        });
+      }
+    );
 
-      req.on('error', (error) => {
-        reject(new Error(`Request error: ${error.message}`));
-      });
+    req.on('error', (error) => {
+      reject(new Error(`Request error: ${error.message}`));
+    });
 
-      form.pipe(req);
+    form.pipe(req);
+  });
+}
+
+export interface AudioMetadata {
+  title?: string;
+  performer?: string;
+  duration?: number; // Seconds
+  caption?: string;
+  fileName?: string; // Used when uploading a buffer
+}
+
+export interface SentAudio {
+  messageId: number;
+  fileId?: string; // Reusable to send the same file again without uploading
+}
+
+/**
+ * Send an audio file
+ * @param audio file_id or URL, or the file contents to upload
+ */
+export async function sendAudio(
+  botToken: string,
+  chatId: number,
+  audio: string | Buffer,
+  metadata: AudioMetadata = {},
+  replyMarkup?: any
+): Promise<SentAudio> {
+  const url = `${TELEGRAM_API_URL}${botToken}/sendAudio`;
+  const { title, performer, duration, caption, fileName } = metadata;
+
+  let message: any;
+  if (typeof audio === 'string') {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        chat_id: chatId,
+        audio,
+        title,
+        performer,
+        duration,
+        caption,
+        reply_markup: replyMarkup,
+      }),
     });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Telegram API error: ${error}`);
+    }
+    message = (await response.json()).result;
+  } else {
+    const FormDataModule = await import('form-data');
+    const form = new FormDataModule.default();
+
+    form.append('chat_id', chatId.toString());
+    form.append('audio', audio, { filename: fileName || 'track.mp3' });
+    if (title) form.append('title', title);
+    if (performer) form.append('performer', performer);
+    if (duration) form.append('duration', Math.round(duration).toString());
+    if (caption) form.append('caption', caption);
+    if (replyMarkup) form.append('reply_markup', JSON.stringify(replyMarkup));
+
+    message = await postMultipart(url, form);
   }
+
+  return { messageId: message?.message_id, fileId: message?.audio?.file_id };
 }
 
 /**
  * Create inline keyboard markup
  */
-export function createInlineKeyboard(buttons: Array<Array<{ text: string; callback_data: string }>>) {
+export function createInlineKeyboard(buttons: Array<Array<{ text: string; callback_data?: string; url?: string }>>) {
   return {
     inline_keyboard: buttons,
   };
@@ -280,6 +475,8 @@ export async function setMyCommands(botToken: string): Promise<void> {
   const commands = [
     { command: 'start', description: 'Show main menu' },
     { command: 'playlists', description: 'View all playlists' },
+    { command: 'search', description: 'Find a song by name' },
+    { command: 'random', description: 'Listen to a random song' },
     { command: 'add', description: 'Add a song to community playlist' },
     { command: 'help', description: 'Show help and instructions' },
     { command: 'about', description: 'Learn about Pirate Radio' },
@@ -303,33 +500,37 @@ export async function setMyCommands(botToken: string): Promise<void> {
 }
 
 /**
- * Validate YouTube URL
+ * Validate URL against the registered download source providers
  */
-export function isValidYouTubeUrl(url: string): boolean {
-  const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+/;
-  return youtubeRegex.test(url);
+export function isValidSongUrl(url: string): boolean {
+  return findSourceProvider(url) !== undefined;
 }
 
 /**
- * Validate Spotify URL
+ * Check the secret token Telegram sends with webhook requests
+ * Compared in constant time; a missing expected secret never matches
  */
-export function isValidSpotifyUrl(url: string): boolean {
-  const spotifyRegex = /^(https?:\/\/)?(open\.)?spotify\.com\/.+/;
-  return spotifyRegex.test(url);
+export function isValidWebhookSecret(provided: string | null, expected: string | undefined): boolean {
+  if (!expected || provided === null) {
+    return false;
+  }
+  // Hash both sides so the comparison doesn't depend on (or leak) the secret's length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
 }
 
-/**
- * Validate URL (YouTube or Spotify)
- */
-export function isValidSongUrl(url: string): boolean {
-  return isValidYouTubeUrl(url) || isValidSpotifyUrl(url);
-}
+let adminIds: number[] | null = null;
 
 /**
- * Check if a user is an admin
+ * Get the admin user IDs from TELEGRAM_ADMIN_IDS
+ * Parsed on first use and kept for the life of the process (restart to pick up changes)
  * Works in both Astro (import.meta.env) and Node.js (process.env) contexts
  */
-export function isAdmin(userId: number): boolean {
+export function getAdminIds(): number[] {
+  if (adminIds) {
+    return adminIds;
+  }
+
   let adminIdsEnv: string | undefined;
 
   // Check process.env first (Node.js context)
@@ -349,18 +550,13 @@ export function isAdmin(userId: number): boolean {
     }
   }
 
-  if (!adminIdsEnv) {
-    return false;
-  }
-
-  const adminIds = adminIdsEnv
+  adminIds = (adminIdsEnv || '')
     .split(',')
     .map(id => id.trim())
     .filter(id => id.length > 0)
     .map(id => parseInt(id, 10))
     .filter(id => !isNaN(id));
-
-  return adminIds.includes(userId);
+  return adminIds;
 }
 
 /**
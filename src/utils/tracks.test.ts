@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { validateTracks, formatTime, parseDuration } from './tracks';
+import { validateTracks, formatTime, parseDuration, getTrackId, withTrackIds } from './tracks';
 import type { Track } from '../types/track';
 
 describe('tracks utils', () => {
@@ -24,10 +24,39 @@ describe('tracks utils', () => {
         });
     });
 
+    describe('getTrackId', () => {
+        it('is stable for the same playlist and file', () => {
+            expect(getTrackId('community', '/music/community/song.mp3')).toBe(getTrackId('community', 'song.mp3'));
+        });
+
+        it('differs between playlists and files', () => {
+            const id = getTrackId('community', 'song.mp3');
+            expect(getTrackId('rock', 'song.mp3')).not.toBe(id);
+            expect(getTrackId('community', 'song2.mp3')).not.toBe(id);
+        });
+
+        it('is short and callback-safe', () => {
+            expect(getTrackId('a'.repeat(100), 'b'.repeat(200))).toMatch(/^[0-9a-z]{1,11}$/);
+        });
+    });
+
+    describe('withTrackIds', () => {
+        it('keeps existing IDs and derives missing ones', () => {
+            const [withId, withoutId] = withTrackIds([
+                { id: 'keep', trackNumber: 1, trackName: 'A', fileName: '/music/community/a.mp3', duration: '00:10' },
+                { trackNumber: 2, trackName: 'B', fileName: '/music/community/b.mp3', duration: '00:10', playlistName: 'community' },
+            ]);
+
+            expect(withId.id).toBe('keep');
+            expect(withoutId.id).toBe(getTrackId('community', 'b.mp3'));
+        });
+    });
+
     describe('validateTracks', () => {
         it('returns tracks as is', () => {
             const tracks: Track[] = [
                 {
+                    id: 'abc',
                     trackNumber: 1,
                     trackName: 'Test',
                     fileName: 'test.mp3',
@@ -1,4 +1,5 @@
 import type { Track } from '../types/track';
+import { TRACK_LINK_PARAM } from '../constants';
 
 export function validateTracks(tracks: Track[]): Track[] {
   tracks.forEach((track, index) => {
@@ -21,3 +22,38 @@ export function parseDuration(duration: string): number {
   return (mins * 60) + secs;
 }
 
+
+/**
+ * Stable ID for a track, derived from its playlist and file name
+ * Unlike an array index it survives other tracks being added or removed, and it's short
+ * enough for Telegram callback data. Uses a 53-bit string hash so it also runs in the browser.
+ */
+export function getTrackId(playlistName: string, fileName: string): string {
+  const key = `${playlistName}/${fileName.split('/').pop()}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < key.length; i++) {
+    const code = key.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Fill in IDs for tracks from playlist data generated before tracks had them
+ */
+export function withTrackIds(tracks: Array<Omit<Track, 'id'> & { id?: string }>): Track[] {
+  return tracks.map(track => track.id
+    ? track as Track
+    : { ...track, id: getTrackId(track.playlistName || '', track.fileName) });
+}
+
+/**
+ * Web player link that opens a specific track
+ */
+export function getTrackLink(siteUrl: string, trackId: string): string {
+  return `${siteUrl.replace(/\/+$/, '')}/?${TRACK_LINK_PARAM}=${encodeURIComponent(trackId)}`;
+}
@@ -3,9 +3,13 @@
  */
 
 import { Client } from 'basic-ftp';
-import { Readable } from 'stream';
+import { Readable, Writable } from 'stream';
+import { posix } from 'path';
 import SftpClient from 'ssh2-sftp-client';
 import { FTP_TIMEOUT, ERROR_MESSAGES } from '../constants';
+import { createLogger } from './logger';
+
+const log = createLogger('storage');
 
 interface UploadOptions {
   host: string;
@@ -39,7 +43,7 @@ export async function uploadToDreamhost(
     } catch (error: any) {
       // If FTP login fails, try SFTP as fallback
       if (error.message.includes('530') || error.message.includes('Login incorrect')) {
-        console.log(`[${new Date().toISOString()}] FTP login failed, trying SFTP...`);
+        log.info('FTP login failed, trying SFTP...');
         return await uploadViaSFTP(input, sanitizedFileName, options);
       }
       throw error;
@@ -59,7 +63,7 @@ async function uploadViaFTP(
   client.ftp.verbose = false; // Set to true for debugging
 
   try {
-    console.log(`[${new Date().toISOString()}] Connecting to FTP: ${options.host} as ${options.user}`);
+    log.info(`Connecting to FTP: ${options.host} as ${options.user}`);
 
     // Connect to FTP server with timeout
     await client.access({
@@ -70,15 +74,15 @@ async function uploadViaFTP(
       timeout: FTP_TIMEOUT,
     });
 
-    console.log(`[${new Date().toISOString()}] FTP connected successfully`);
+    log.info('FTP connected successfully');
 
     // Ensure remote directory exists
     try {
       await client.ensureDir(options.remotePath);
-      console.log(`[${new Date().toISOString()}] Directory ensured: ${options.remotePath}`);
+      log.info(`Directory ensured: ${options.remotePath}`);
     } catch (error) {
       // Directory might already exist, that's okay
-      console.log(`[${new Date().toISOString()}] Directory check:`, error);
+      log.debug('Directory check failed', { error });
     }
 
     // Prepare source for upload
@@ -91,10 +95,10 @@ async function uploadViaFTP(
 
     // Upload file
     const remoteFilePath = `${options.remotePath}/${fileName}`;
-    console.log(`[${new Date().toISOString()}] Uploading file to: ${remoteFilePath}`);
+    log.info(`Uploading file to: ${remoteFilePath}`);
     await client.uploadFrom(source, remoteFilePath);
 
-    console.log(`[${new Date().toISOString()}] FTP upload complete`);
+    log.info('FTP upload complete');
     return remoteFilePath;
   } catch (error: any) {
     if (error.message.includes('timeout')) {
@@ -120,7 +124,7 @@ async function uploadViaSFTP(
   const client = new SftpClient();
 
   try {
-    console.log(`[${new Date().toISOString()}] Connecting to SFTP: ${options.host} as ${options.user}`);
+    log.info(`Connecting to SFTP: ${options.host} as ${options.user}`);
 
     await client.connect({
       host: options.host,
@@ -129,25 +133,25 @@ async function uploadViaSFTP(
       port: 22, // SFTP default port
     });
 
-    console.log(`[${new Date().toISOString()}] SFTP connected successfully`);
+    log.info('SFTP connected successfully');
 
     // Ensure remote directory exists
     try {
       await client.mkdir(options.remotePath, true); // recursive
-      console.log(`[${new Date().toISOString()}] Directory ensured: ${options.remotePath}`);
+      log.info(`Directory ensured: ${options.remotePath}`);
     } catch (error: any) {
       // Directory might already exist, that's okay
       if (!error.message.includes('exists')) {
-        console.log(`[${new Date().toISOString()}] Directory check:`, error);
+        log.debug('Directory check failed', { error });
       }
     }
 
     // Upload file
     const remoteFilePath = `${options.remotePath}/${fileName}`;
-    console.log(`[${new Date().toISOString()}] Uploading file to: ${remoteFilePath}`);
+    log.info(`Uploading file to: ${remoteFilePath}`);
     await client.put(input, remoteFilePath);
 
-    console.log(`[${new Date().toISOString()}] SFTP upload complete`);
+    log.info('SFTP upload complete');
     return remoteFilePath;
   } catch (error: any) {
     if (error.message.includes('timeout')) {
@@ -195,7 +199,7 @@ export async function deleteFromDreamhost(
     } catch (error: any) {
       // If FTP login fails, try SFTP as fallback
       if (error.message.includes('530') || error.message.includes('Login incorrect')) {
-        console.log(`[${new Date().toISOString()}] FTP login failed, trying SFTP...`);
+        log.info('FTP login failed, trying SFTP...');
         await deleteViaSFTP(remoteFilePath, options);
       } else {
         throw error;
@@ -215,7 +219,7 @@ async function deleteViaFTP(
   client.ftp.verbose = false;
 
   try {
-    console.log(`[${new Date().toISOString()}] Connecting to FTP: ${options.host} as ${options.user}`);
+    log.info(`Connecting to FTP: ${options.host} as ${options.user}`);
 
     await client.access({
       host: options.host,
@@ -225,12 +229,12 @@ async function deleteViaFTP(
       timeout: FTP_TIMEOUT,
     });
 
-    console.log(`[${new Date().toISOString()}] FTP connected successfully`);
-    console.log(`[${new Date().toISOString()}] Deleting file: ${remoteFilePath}`);
+    log.info('FTP connected successfully');
+    log.info(`Deleting file: ${remoteFilePath}`);
 
     await client.remove(remoteFilePath);
 
-    console.log(`[${new Date().toISOString()}] FTP delete complete`);
+    log.info('FTP delete complete');
   } catch (error: any) {
     if (error.message.includes('timeout')) {
       throw new Error(ERROR_MESSAGES.FTP_ERROR);
@@ -257,7 +261,7 @@ async function deleteViaSFTP(
   const client = new SftpClient();
 
   try {
-    console.log(`[${new Date().toISOString()}] Connecting to SFTP: ${options.host} as ${options.user}`);
+    log.info(`Connecting to SFTP: ${options.host} as ${options.user}`);
 
     await client.connect({
       host: options.host,
@@ -266,12 +270,12 @@ async function deleteViaSFTP(
       port: 22,
     });
 
-    console.log(`[${new Date().toISOString()}] SFTP connected successfully`);
-    console.log(`[${new Date().toISOString()}] Deleting file: ${remoteFilePath}`);
+    log.info('SFTP connected successfully');
+    log.info(`Deleting file: ${remoteFilePath}`);
 
     await client.delete(remoteFilePath);
 
-    console.log(`[${new Date().toISOString()}] SFTP delete complete`);
+    log.info('SFTP delete complete');
   } catch (error: any) {
     if (error.message.includes('timeout')) {
       throw new Error(ERROR_MESSAGES.FTP_ERROR);
@@ -288,6 +292,305 @@ async function deleteViaSFTP(
   }
 }
 
+/**
+ * Move (rename) a file on Dreamhost via FTP or SFTP, creating the target directory if needed
+ * Paths are full remote paths; the file is never downloaded
+ */
+export async function moveOnDreamhost(
+  fromPath: string,
+  toPath: string,
+  options: Omit<UploadOptions, 'remotePath'>
+): Promise<void> {
+  if (options.useSFTP) {
+    await moveViaSFTP(fromPath, toPath, options);
+  } else {
+    // Try FTP first, fallback to SFTP on login error
+    try {
+      await moveViaFTP(fromPath, toPath, options);
+    } catch (error: any) {
+      if (error.message.includes('530') || error.message.includes('Login incorrect')) {
+        log.info('FTP login failed, trying SFTP...');
+        await moveViaSFTP(fromPath, toPath, options);
+      } else {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Move file via FTP
+ */
+async function moveViaFTP(
+  fromPath: string,
+  toPath: string,
+  options: Omit<UploadOptions, 'remotePath'>
+): Promise<void> {
+  const client = new Client(FTP_TIMEOUT);
+  client.ftp.verbose = false;
+
+  try {
+    log.info(`Connecting to FTP: ${options.host} as ${options.user}`);
+
+    await client.access({
+      host: options.host,
+      user: options.user,
+      password: options.password,
+      secure: false,
+    });
+
+    // ensureDir changes the working directory, so absolute paths are used for the rename
+    await client.ensureDir(posix.dirname(toPath));
+
+    log.info(`Moving file: ${fromPath} -> ${toPath}`);
+    await client.rename(fromPath, toPath);
+
+    log.info('FTP move complete');
+  } catch (error: any) {
+    if (error.message.includes('timeout')) {
+      throw new Error(ERROR_MESSAGES.FTP_ERROR);
+    }
+    if (error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
+      throw new Error(ERROR_MESSAGES.FTP_ERROR);
+    }
+    if (error.message.includes('550') || error.message.includes('not found')) {
+      throw new Error('File not found on server.');
+    }
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Move file via SFTP
+ */
+async function moveViaSFTP(
+  fromPath: string,
+  toPath: string,
+  options: Omit<UploadOptions, 'remotePath'>
+): Promise<void> {
+  const client = new SftpClient();
+
+  try {
+    log.info(`Connecting to SFTP: ${options.host} as ${options.user}`);
+
+    await client.connect({
+      host: options.host,
+      username: options.user,
+      password: options.password,
+      port: 22,
+    });
+
+    try {
+      await client.mkdir(posix.dirname(toPath), true);
+    } catch (error: any) {
+      // Directory might already exist, that's okay
+      if (!error.message.includes('exists')) {
+        log.debug('Directory check failed', { error });
+      }
+    }
+
+    log.info(`Moving file: ${fromPath} -> ${toPath}`);
+    await client.rename(fromPath, toPath);
+
+    log.info('SFTP move complete');
+  } catch (error: any) {
+    if (error.message.includes('timeout')) {
+      throw new Error(ERROR_MESSAGES.FTP_ERROR);
+    }
+    if (error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
+      throw new Error(ERROR_MESSAGES.FTP_ERROR);
+    }
+    if (error.message.includes('No such file') || error.message.includes('not found')) {
+      throw new Error('File not found on server.');
+    }
+    throw new Error(`SFTP move failed: ${error.message}`);
+  } finally {
+    await client.end();
+  }
+}
+
+type ConnectionOptions = Omit<UploadOptions, 'remotePath'>;
+
+export interface RemoteEntry {
+  name: string;
+  isDirectory: boolean;
+}
+
+/**
+ * Run an operation with a connected FTP or SFTP client
+ * FTP falls back to SFTP on login errors, like the upload/delete/move functions above
+ */
+async function withRemoteClient<T>(
+  options: ConnectionOptions,
+  operation: {
+    ftp: (client: Client) => Promise<T>;
+    sftp: (client: SftpClient) => Promise<T>;
+  }
+): Promise<T> {
+  const runSFTP = async () => {
+    const client = new SftpClient();
+    try {
+      await client.connect({
+        host: options.host,
+        username: options.user,
+        password: options.password,
+        port: 22,
+      });
+      return await operation.sftp(client);
+    } finally {
+      await client.end();
+    }
+  };
+
+  const runFTP = async () => {
+    const client = new Client(FTP_TIMEOUT);
+    client.ftp.verbose = false;
+    try {
+      await client.access({
+        host: options.host,
+        user: options.user,
+        password: options.password,
+        secure: false,
+      });
+      return await operation.ftp(client);
+    } finally {
+      client.close();
+    }
+  };
+
+  try {
+    if (options.useSFTP) {
+      return await runSFTP();
+    }
+    try {
+      return await runFTP();
+    } catch (error: any) {
+      if (error.message.includes('530') || error.message.includes('Login incorrect')) {
+        log.info('FTP login failed, trying SFTP...');
+        return await runSFTP();
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    if (error.message.includes('timeout') || error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
+      throw new Error(ERROR_MESSAGES.FTP_ERROR);
+    }
+    throw error;
+  }
+}
+
+/**
+ * List a remote directory (without . and ..)
+ */
+export async function listOnDreamhost(path: string, options: ConnectionOptions): Promise<RemoteEntry[]> {
+  const entries = await withRemoteClient(options, {
+    ftp: async client => (await client.list(path)).map(item => ({ name: item.name, isDirectory: item.isDirectory })),
+    sftp: async client => (await client.list(path)).map(item => ({ name: item.name, isDirectory: item.type === 'd' })),
+  });
+  return entries.filter(entry => entry.name !== '.' && entry.name !== '..');
+}
+
+/**
+ * Create a remote directory (and any missing parents)
+ */
+export async function createDirOnDreamhost(path: string, options: ConnectionOptions): Promise<void> {
+  await withRemoteClient(options, {
+    ftp: client => client.ensureDir(path),
+    sftp: async client => {
+      await client.mkdir(path, true);
+    },
+  });
+}
+
+/**
+ * Remove an empty remote directory (fails if it still has files)
+ */
+export async function removeEmptyDirOnDreamhost(path: string, options: ConnectionOptions): Promise<void> {
+  await withRemoteClient(options, {
+    ftp: client => client.removeEmptyDir(path).then(() => { }),
+    sftp: async client => {
+      await client.rmdir(path, false);
+    },
+  });
+}
+
+/**
+ * Download a (small) remote file
+ * @returns the contents, or null if the file doesn't exist
+ */
+export async function readFromDreamhost(path: string, options: ConnectionOptions): Promise<Buffer | null> {
+  try {
+    return await withRemoteClient(options, {
+      ftp: client => downloadBufferViaFTP(client, path),
+      sftp: async client => await client.get(path) as Buffer,
+    });
+  } catch (error: any) {
+    if (isRemoteNotFoundError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Copy a remote file, creating the target directory if needed
+ * FTP has no server-side copy, so the file passes through memory
+ */
+export async function copyOnDreamhost(fromPath: string, toPath: string, options: ConnectionOptions): Promise<void> {
+  try {
+    await withRemoteClient(options, {
+      ftp: async client => {
+        const contents = await downloadBufferViaFTP(client, fromPath);
+        // ensureDir changes the working directory, so absolute paths are used for the upload
+        await client.ensureDir(posix.dirname(toPath));
+        await client.uploadFrom(Readable.from(contents), toPath);
+      },
+      sftp: async client => {
+        const contents = await client.get(fromPath) as Buffer;
+        await client.mkdir(posix.dirname(toPath), true).catch(() => { }); // Directory might already exist
+        await client.put(contents, toPath);
+      },
+    });
+  } catch (error: any) {
+    if (isRemoteNotFoundError(error)) {
+      throw new Error('File not found on server.');
+    }
+    throw error;
+  }
+}
+
+async function downloadBufferViaFTP(client: Client, path: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const sink = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    },
+  });
+  await client.downloadTo(sink, path);
+  return Buffer.concat(chunks);
+}
+
+function isRemoteNotFoundError(error: any): boolean {
+  return error.message.includes('550') || error.message.includes('No such file') || error.message.includes('not found');
+}
+
+/**
+ * Check whether an upload error is transient (worth retrying)
+ * Connection drops and timeouts are; login or permission errors are not
+ */
+export function isTransientFTPError(error: any): boolean {
+  const message: string = error?.message || String(error);
+  if (message.includes('530') || message.includes('Login incorrect') || message.includes('553')) {
+    return false;
+  }
+  return message === ERROR_MESSAGES.FTP_ERROR ||
+    /timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|ENOTFOUND|EAI_AGAIN/i.test(message) ||
+    /\b(421|425|426|450|451|452)\b/.test(message);
+}
+
 /**
  * Test FTP connection
  */
@@ -305,7 +608,7 @@ export async function testFTPConnection(options: UploadOptions): Promise<boolean
     await client.list();
     return true;
   } catch (error) {
-    console.error('FTP connection test failed:', error);
+    log.error('FTP connection test failed', { error });
     return false;
   } finally {
     client.close();